@@ -0,0 +1,192 @@
+import { GF_ORDER, gfAlphaPow, gfDiv, gfMul } from './galois';
+
+/**
+ * Binary BCH code of length 255 (shortened to fit the data), designed
+ * distance 2t + 1, over GF(2^8).
+ */
+
+const generatorCache = new Map<number, Uint8Array>();
+
+function minimalPolynomial(power: number): number[] {
+  // Product of (x + β) over the conjugacy class {α^(power·2^j)}
+  const conjugates: number[] = [];
+  let p = power % GF_ORDER;
+  while (!conjugates.includes(p)) {
+    conjugates.push(p);
+    p = (p * 2) % GF_ORDER;
+  }
+
+  // Coefficients lowest degree first; all end up in GF(2)
+  let poly = [1];
+  for (const c of conjugates) {
+    const root = gfAlphaPow(c);
+    const next = new Array<number>(poly.length + 1).fill(0);
+    for (let i = 0; i < poly.length; i++) {
+      next[i + 1] ^= poly[i];
+      next[i] ^= gfMul(poly[i], root);
+    }
+    poly = next;
+  }
+  return poly;
+}
+
+function multiplyGf2(a: Uint8Array, b: number[]): Uint8Array {
+  const out = new Uint8Array(a.length + b.length - 1);
+  for (let i = 0; i < a.length; i++) {
+    if (!a[i]) continue;
+    for (let j = 0; j < b.length; j++) {
+      out[i + j] ^= b[j] & 1;
+    }
+  }
+  return out;
+}
+
+/**
+ * Generator polynomial (lowest degree first) for correction capacity t.
+ */
+export function bchGenerator(t: number): Uint8Array {
+  let g = generatorCache.get(t);
+  if (!g) {
+    g = new Uint8Array([1]);
+    const seen = new Set<number>();
+    for (let i = 1; i <= 2 * t; i++) {
+      // Leader of the cyclotomic coset containing i
+      let leader = i;
+      let p = (i * 2) % GF_ORDER;
+      while (p !== i) {
+        leader = Math.min(leader, p);
+        p = (p * 2) % GF_ORDER;
+      }
+      if (!seen.has(leader)) {
+        seen.add(leader);
+        g = multiplyGf2(g, minimalPolynomial(leader));
+      }
+    }
+    generatorCache.set(t, g);
+  }
+  return g;
+}
+
+export function bchParityLength(t: number): number {
+  return bchGenerator(t).length - 1;
+}
+
+/**
+ * Systematic encoding: returns data followed by parity bits.
+ */
+export function bchEncode(data: Uint8Array, t: number): Uint8Array {
+  const g = bchGenerator(t);
+  const parityLength = g.length - 1;
+  if (data.length + parityLength > GF_ORDER) {
+    throw new Error(`BCH codeword too long: ${data.length + parityLength} > ${GF_ORDER}`);
+  }
+
+  // Remainder of data(x)·x^parityLength divided by g(x), highest degree first
+  const reg = new Uint8Array(data.length + parityLength);
+  reg.set(data);
+  for (let i = 0; i < data.length; i++) {
+    if (reg[i]) {
+      for (let j = 0; j <= parityLength; j++) {
+        reg[i + j] ^= g[parityLength - j];
+      }
+    }
+  }
+
+  const out = new Uint8Array(data.length + parityLength);
+  out.set(data);
+  out.set(reg.subarray(data.length), data.length);
+  return out;
+}
+
+export type BchDecodeResult = {
+  bits: Uint8Array;
+  correctedErrors: number;
+  ok: boolean;
+};
+
+/**
+ * Hard-decision decoding (Berlekamp-Massey + Chien search).
+ */
+export function bchDecode(received: Uint8Array, dataLength: number, t: number): BchDecodeResult {
+  const n = received.length;
+  const fail = (): BchDecodeResult => ({
+    bits: received.slice(0, dataLength),
+    correctedErrors: 0,
+    ok: false,
+  });
+
+  // Syndromes S_1..S_2t with bit i at power n-1-i
+  const synd = new Array<number>(2 * t + 1).fill(0);
+  let hasError = false;
+  for (let j = 1; j <= 2 * t; j++) {
+    let s = 0;
+    for (let i = 0; i < n; i++) {
+      if (received[i]) {
+        s ^= gfAlphaPow(j * (n - 1 - i));
+      }
+    }
+    synd[j] = s;
+    if (s) hasError = true;
+  }
+  if (!hasError) {
+    return { bits: received.slice(0, dataLength), correctedErrors: 0, ok: true };
+  }
+
+  // Berlekamp-Massey; polynomials lowest degree first
+  let c = [1];
+  let b = [1];
+  let l = 0;
+  let m = 1;
+  let bScale = 1;
+  for (let step = 0; step < 2 * t; step++) {
+    let d = synd[step + 1];
+    for (let i = 1; i <= l; i++) {
+      d ^= gfMul(c[i] ?? 0, synd[step + 1 - i]);
+    }
+    if (d === 0) {
+      m++;
+      continue;
+    }
+    const coef = gfDiv(d, bScale);
+    const next = c.slice();
+    for (let i = 0; i < b.length; i++) {
+      while (next.length <= i + m) next.push(0);
+      next[i + m] ^= gfMul(coef, b[i]);
+    }
+    if (2 * l <= step) {
+      b = c;
+      l = step + 1 - l;
+      bScale = d;
+      m = 1;
+    } else {
+      m++;
+    }
+    c = next;
+  }
+
+  if (l > t) {
+    return fail();
+  }
+
+  // Chien search: an error at bit i is a root at α^-(n-1-i)
+  const corrected = received.slice();
+  let found = 0;
+  for (let i = 0; i < n; i++) {
+    const inv = gfAlphaPow(-(n - 1 - i));
+    let value = 0;
+    let x = 1;
+    for (let k = 0; k <= l; k++) {
+      value ^= gfMul(c[k] ?? 0, x);
+      x = gfMul(x, inv);
+    }
+    if (value === 0) {
+      corrected[i] ^= 1;
+      found++;
+    }
+  }
+  if (found !== l) {
+    return fail();
+  }
+
+  return { bits: corrected.slice(0, dataLength), correctedErrors: found, ok: true };
+}
@@ -1,12 +1,47 @@
-import { SeededPRNG } from './prng';
+import { SeededPRNG, type RandomSource } from './prng';
+import { HEADER_BLOCK_SHARE, HEADER_EXTENSION_BITS, HEADER_EXTENSION_PARTS } from './constants';
+import { REPETITION_FACTOR } from './ecc';
+
+/** The header extension is repetition-coded like the header */
+export const ENCODED_EXTENSION_BITS = HEADER_EXTENSION_BITS * REPETITION_FACTOR;
+
+export const MID_FREQ_COEFFS: Array<[number, number]> = [
+  [1, 2], [2, 1], [2, 2], [3, 1], [1, 3], [3, 2], [2, 3], [3, 3],
+  [4, 1], [1, 4], [4, 2], [2, 4], [4, 3], [3, 4], [4, 4],
+];
+
+/**
+ * Low-frequency AC coefficients the mark never touches, where traces of
+ * JPEG quantization can be looked for without the mark getting in the way.
+ */
+export const UNMARKED_LOW_FREQ_COEFFS: Array<[number, number]> = [
+  [0, 1], [1, 0], [1, 1], [0, 2], [2, 0], [0, 3], [3, 0],
+];
 
 export type BlockAssignments = {
   blocksPerBit: number;
   assignments: number[] | null;
 };
 
+/**
+ * PRNG seeds for the two embedding regions. The header seed is fixed so
+ * the header can be read first; the body seed may be keyed.
+ */
+export type PlacementSeeds = {
+  header: Uint8Array;
+  body: Uint8Array;
+};
+
+/**
+ * A single (block, coefficient) location carrying one vote for an encoded bit.
+ */
+export type Slot = {
+  blockIdx: number;
+  coeff: [number, number];
+};
+
 export function createBlockAssignments(
-  prng: SeededPRNG,
+  prng: RandomSource,
   totalBlocks: number,
   encodedLength: number
 ): BlockAssignments {
@@ -28,3 +63,188 @@ export function createBlockAssignments(
     assignments: indices.slice(0, requiredAssignments),
   };
 }
+
+function shuffleInPlace<T>(prng: RandomSource, items: T[]): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const swapIndex = Math.floor(prng.next() * (i + 1));
+    [items[i], items[swapIndex]] = [items[swapIndex], items[i]];
+  }
+  return items;
+}
+
+function spreadSlots(
+  prng: RandomSource,
+  blocks: number[],
+  encodedLength: number,
+  blocksPerBit: number,
+  assignments: number[] | null
+): Slot[][] {
+  let assignmentIndex = 0;
+
+  const slots: Slot[][] = [];
+  for (let bitIdx = 0; bitIdx < encodedLength; bitIdx++) {
+    const bitSlots: Slot[] = [];
+    for (let b = 0; b < blocksPerBit; b++) {
+      const localIdx = assignments
+        ? assignments[assignmentIndex++]
+        : prng.nextInt(blocks.length);
+      const coeffIdx = prng.nextInt(MID_FREQ_COEFFS.length);
+      bitSlots.push({ blockIdx: blocks[localIdx], coeff: MID_FREQ_COEFFS[coeffIdx] });
+    }
+    slots.push(bitSlots);
+  }
+  return slots;
+}
+
+/**
+ * Placement for regions with fewer blocks than encoded bits: each block
+ * gives up as many distinct mid-frequency coefficients as the bits need,
+ * and every bit gets slots no other bit shares. Bits beyond the region's
+ * capacity get no slots at all, so they read back as erasures rather than
+ * corrupting the bits they would have collided with. Coefficients listed
+ * in `taken` (by index into MID_FREQ_COEFFS) are left alone.
+ */
+function assignDenseSlots(
+  prng: RandomSource,
+  blocks: number[],
+  encodedLength: number,
+  taken = new Map<number, Set<number>>()
+): Slot[][] {
+  const coeffsPerBlock = Math.min(
+    MID_FREQ_COEFFS.length,
+    Math.ceil(encodedLength / Math.max(1, blocks.length))
+  );
+  const pool: Slot[] = [];
+  for (const blockIdx of blocks) {
+    const used = taken.get(blockIdx);
+    const free = Array.from(MID_FREQ_COEFFS.keys()).filter((coeffIdx) => !used?.has(coeffIdx));
+    for (const coeffIdx of shuffleInPlace(prng, free).slice(0, coeffsPerBlock)) {
+      pool.push({ blockIdx, coeff: MID_FREQ_COEFFS[coeffIdx] });
+    }
+  }
+  shuffleInPlace(prng, pool);
+
+  const slotsPerBit = Math.max(1, Math.floor(pool.length / encodedLength));
+  return Array.from({ length: encodedLength }, (_, bitIdx) =>
+    pool.slice(bitIdx * slotsPerBit, (bitIdx + 1) * slotsPerBit)
+  );
+}
+
+/**
+ * Place the header extension in the blocks of the header, on coefficients
+ * the header itself does not use, so neither disturbs the other and marks
+ * without an extension keep their layout.
+ */
+export function assignExtensionSlots(
+  prng: RandomSource,
+  headerSlots: Slot[][],
+  extensionLength: number
+): Slot[][] {
+  const taken = new Map<number, Set<number>>();
+  for (const { blockIdx, coeff } of headerSlots.flat()) {
+    const coeffIdx = MID_FREQ_COEFFS.findIndex(([u, v]) => u === coeff[0] && v === coeff[1]);
+    if (!taken.has(blockIdx)) {
+      taken.set(blockIdx, new Set());
+    }
+    taken.get(blockIdx)!.add(coeffIdx);
+  }
+  const blocks = [...taken.keys()].sort((a, b) => a - b);
+  return assignDenseSlots(prng, blocks, extensionLength, taken);
+}
+
+/**
+ * Place every part of the header extension in turn, each on coefficients
+ * the header and the parts before it leave free, so a mark embedding fewer
+ * parts keeps its layout. Returns the slots of all parts in order.
+ */
+export function assignExtensionParts(prng: RandomSource, headerSlots: Slot[][]): Slot[][] {
+  const extensionSlots: Slot[][] = [];
+  for (let part = 0; part < HEADER_EXTENSION_PARTS; part++) {
+    const taken = [...headerSlots, ...extensionSlots];
+    extensionSlots.push(...assignExtensionSlots(prng, taken, ENCODED_EXTENSION_BITS));
+  }
+  return extensionSlots;
+}
+
+/**
+ * Assign each encoded bit its slots within the given blocks.
+ * Returns one slot list per encoded bit.
+ */
+export function assignSlots(
+  prng: RandomSource,
+  blocks: number[],
+  encodedLength: number
+): Slot[][] {
+  const { blocksPerBit, assignments } = createBlockAssignments(
+    prng,
+    blocks.length,
+    encodedLength
+  );
+  if (!assignments) {
+    return assignDenseSlots(prng, blocks, encodedLength);
+  }
+  return spreadSlots(prng, blocks, encodedLength, blocksPerBit, assignments);
+}
+
+/**
+ * `assignSlots` as it was before dense allocation, when bits of regions
+ * smaller than the message drew their blocks at random and could share a
+ * coefficient. Only for reading marks that were placed this way.
+ */
+export function assignLegacySlots(
+  prng: RandomSource,
+  blocks: number[],
+  encodedLength: number
+): Slot[][] {
+  const { blocksPerBit, assignments } = createBlockAssignments(
+    prng,
+    blocks.length,
+    encodedLength
+  );
+  return spreadSlots(prng, blocks, encodedLength, blocksPerBit, assignments);
+}
+
+/**
+ * Split the block grid into a header region holding a fixed share of the
+ * blocks and a body region with the rest. The split depends only on `prng`
+ * and the grid size, so the header can be located before the body key or
+ * its error-correcting code is known.
+ */
+export function partitionBlocks(
+  prng: RandomSource,
+  totalBlocks: number
+): { header: number[]; body: number[] } {
+  const indices = Array.from({ length: totalBlocks }, (_, i) => i);
+  for (let i = indices.length - 1; i > 0; i--) {
+    const swapIndex = Math.floor(prng.next() * (i + 1));
+    [indices[i], indices[swapIndex]] = [indices[swapIndex], indices[i]];
+  }
+
+  const headerCount = Math.min(
+    totalBlocks - 1,
+    Math.max(1, Math.round(totalBlocks * HEADER_BLOCK_SHARE))
+  );
+  return {
+    header: indices.slice(0, headerCount).sort((a, b) => a - b),
+    body: indices.slice(headerCount).sort((a, b) => a - b),
+  };
+}
+
+/**
+ * Locate the header slots, the slots of its extension and the blocks left
+ * over for the body.
+ */
+export function planHeader(
+  headerSeed: Uint8Array,
+  totalBlocks: number,
+  headerLength: number
+): { headerSlots: Slot[][]; extensionSlots: Slot[][]; bodyBlocks: number[] } {
+  const prng = new SeededPRNG(headerSeed);
+  const { header, body } = partitionBlocks(prng, totalBlocks);
+  const headerSlots = assignSlots(prng, header, headerLength);
+  return {
+    headerSlots,
+    extensionSlots: assignExtensionParts(prng, headerSlots),
+    bodyBlocks: body,
+  };
+}
@@ -0,0 +1,79 @@
+import { embeddingPlaneSize, type EmbeddingDomain } from './dwt';
+
+/**
+ * Chroma is marked this many wavelet levels below luminance. JPEG halves
+ * the resolution of chroma and quantizes it coarsely; two levels down an
+ * 8x8 block covers 32x32 pixels, whose mid frequencies are low enough to
+ * come through both.
+ */
+export const CHROMA_LEVELS = 2;
+
+/**
+ * Multiplier of the strength (or QIM step) in chroma, which JPEG quantizes
+ * more coarsely than luminance and the eye sees less of.
+ */
+export const CHROMA_STRENGTH = 2;
+
+/**
+ * Cb and Cr planes of an image (full-range BT.601, as in JPEG).
+ */
+export function extractChroma(
+  rgba: Uint8ClampedArray,
+  width: number,
+  height: number
+): { cb: Float32Array; cr: Float32Array } {
+  const cb = new Float32Array(width * height);
+  const cr = new Float32Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    const r = rgba[i * 4];
+    const g = rgba[i * 4 + 1];
+    const b = rgba[i * 4 + 2];
+    cb[i] = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+    cr[i] = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  }
+  return { cb, cr };
+}
+
+/**
+ * Change of R, G and B that makes a given change of Y, Cb and Cr.
+ */
+export function rgbChange(
+  deltaY: number,
+  deltaCb: number,
+  deltaCr: number
+): [number, number, number] {
+  return [
+    deltaY + 1.402 * deltaCr,
+    deltaY - 0.344136 * deltaCb - 0.714136 * deltaCr,
+    deltaY + 1.772 * deltaCb,
+  ];
+}
+
+/**
+ * Whether every pixel is a shade of gray, leaving no chroma to mark.
+ */
+export function isGrayscale(rgba: Uint8ClampedArray): boolean {
+  for (let i = 0; i < rgba.length; i += 4) {
+    if (rgba[i] !== rgba[i + 1] || rgba[i + 1] !== rgba[i + 2]) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Size of the chroma planes a body is embedded in, `CHROMA_LEVELS` below
+ * the luminance plane of the domain.
+ */
+export function chromaPlaneSize(
+  width: number,
+  height: number,
+  domain?: EmbeddingDomain
+): { width: number; height: number; levels: number } {
+  const levels = embeddingPlaneSize(width, height, domain).levels + CHROMA_LEVELS;
+  return {
+    width: Math.floor(width / 2 ** levels),
+    height: Math.floor(height / 2 ** levels),
+    levels,
+  };
+}
@@ -1,6 +1,19 @@
 export const PAYLOAD_BITS = 64;
+export const MIN_PAYLOAD_BITS = 32;
+export const MAX_PAYLOAD_BITS = 256;
+export const CHECKSUM_BITS = 16;
+export const HEADER_BITS = 10;
+export const HEADER_EXTENSION_BITS = 8;
+export const HEADER_EXTENSION_PARTS = 2;
+export const HEADER_BLOCK_SHARE = 0.125;
+export const TILE_BLOCKS = 32;
+export const TILE_SYNC_SHARE = 0.125;
 export const BLOCK_SIZE = 8;
 export const MODULE_SALT = 'acme-doc-watermark-v1';
+export const PLACEMENT_SALT = 'acme-doc-watermark-placement-v1';
+export const HEADER_SALT = 'acme-doc-watermark-header-v1';
 export const MATCH_THRESHOLD = 0.85;
+export const FALSE_POSITIVE_RATE = 1e-6;
 export const JPEG_QUALITY = 0.92;
 export const EMBEDDING_STRENGTH = 8.0;
+export const GUARANTEE_MAX_ITERATIONS = 4;
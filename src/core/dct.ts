@@ -75,3 +75,18 @@ export function idct2d(block: Float32Array): Float32Array {
 
   return result;
 }
+
+/**
+ * Basis of one DCT frequency along one axis: `dct2d(block)[u * 8 + v]`
+ * equals the sum over x and y of `block[x * 8 + y]` times
+ * `dctBasisVector(u)[x] * dctBasisVector(v)[y]`. Cheaper than a full
+ * transform when a single coefficient is needed at many positions, and
+ * cheaper still when neighbouring positions share their row sums.
+ */
+export function dctBasisVector(k: number): Float32Array {
+  const basis = new Float32Array(BLOCK_SIZE);
+  for (let x = 0; x < BLOCK_SIZE; x++) {
+    basis[x] = getC(k) * 0.5 * getCos(x, k);
+  }
+  return basis;
+}
@@ -0,0 +1,162 @@
+/**
+ * Where the mark's blocks are taken from.
+ * - 'dct': 8x8 blocks of the image itself, the original scheme
+ * - 'dwt-dct': 8x8 blocks of the LL band after `WAVELET_LEVELS` levels of
+ *   the Haar transform, so each block covers 32x32 pixels of low frequencies
+ *   that survive downscaling and blurring
+ */
+export type EmbeddingDomain = 'dct' | 'dwt-dct';
+
+/** Levels of the wavelet transform in the 'dwt-dct' domain */
+export const WAVELET_LEVELS = 2;
+
+/**
+ * 2D Haar wavelet transform, normalised so the LL band holds 2x2 averages
+ * and stays in pixel range. Each level halves the plane; a trailing odd
+ * row or column is left out of the transform.
+ */
+export type WaveletBands = {
+  /** Averages of each 2x2 square */
+  ll: Float32Array;
+  /** Horizontal, vertical and diagonal detail */
+  hl: Float32Array;
+  lh: Float32Array;
+  hh: Float32Array;
+  /** Size of each band */
+  width: number;
+  height: number;
+};
+
+/**
+ * One level of the transform of a `width` x `height` plane stored row by row.
+ */
+export function haar2d(plane: Float32Array, width: number, height: number): WaveletBands {
+  const bandWidth = Math.floor(width / 2);
+  const bandHeight = Math.floor(height / 2);
+  const size = bandWidth * bandHeight;
+  const bands: WaveletBands = {
+    ll: new Float32Array(size),
+    hl: new Float32Array(size),
+    lh: new Float32Array(size),
+    hh: new Float32Array(size),
+    width: bandWidth,
+    height: bandHeight,
+  };
+
+  for (let row = 0; row < bandHeight; row++) {
+    for (let col = 0; col < bandWidth; col++) {
+      const top = 2 * row * width + 2 * col;
+      const a = plane[top];
+      const b = plane[top + 1];
+      const c = plane[top + width];
+      const d = plane[top + width + 1];
+      const i = row * bandWidth + col;
+      bands.ll[i] = (a + b + c + d) / 4;
+      bands.hl[i] = (a - b + c - d) / 4;
+      bands.lh[i] = (a + b - c - d) / 4;
+      bands.hh[i] = (a - b - c + d) / 4;
+    }
+  }
+  return bands;
+}
+
+/**
+ * Invert `haar2d`, giving a plane of twice the band size.
+ */
+export function ihaar2d(bands: WaveletBands): Float32Array {
+  const { ll, hl, lh, hh, width, height } = bands;
+  const planeWidth = 2 * width;
+  const plane = new Float32Array(planeWidth * 2 * height);
+
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      const i = row * width + col;
+      const top = 2 * row * planeWidth + 2 * col;
+      plane[top] = ll[i] + hl[i] + lh[i] + hh[i];
+      plane[top + 1] = ll[i] - hl[i] + lh[i] - hh[i];
+      plane[top + planeWidth] = ll[i] + hl[i] - lh[i] - hh[i];
+      plane[top + planeWidth + 1] = ll[i] - hl[i] - lh[i] + hh[i];
+    }
+  }
+  return plane;
+}
+
+/**
+ * The LL band after `levels` levels of the transform: the plane averaged
+ * over squares of 2^levels pixels.
+ */
+export function waveletLowpass(
+  plane: Float32Array,
+  width: number,
+  height: number,
+  levels: number
+): { ll: Float32Array; width: number; height: number } {
+  let ll = plane;
+  for (let level = 0; level < levels; level++) {
+    ({ ll, width, height } = haar2d(ll, width, height));
+  }
+  return { ll, width, height };
+}
+
+/**
+ * Reconstruct the change to a `width` x `height` plane from a change to
+ * its LL band after `levels` levels, leaving every detail band as it was.
+ * Rows and columns the transform left out are unchanged.
+ */
+export function waveletSynthesize(
+  llChange: Float32Array,
+  bandWidth: number,
+  bandHeight: number,
+  levels: number,
+  width: number,
+  height: number
+): Float32Array {
+  let change = llChange;
+  let changeWidth = bandWidth;
+  let changeHeight = bandHeight;
+  for (let level = levels; level > 0; level--) {
+    const size = changeWidth * changeHeight;
+    const detail = new Float32Array(size);
+    change = ihaar2d({
+      ll: change,
+      hl: detail,
+      lh: detail,
+      hh: detail,
+      width: changeWidth,
+      height: changeHeight,
+    });
+    changeWidth *= 2;
+    changeHeight *= 2;
+
+    // Pad back to the size of the plane this level was taken from
+    const parentWidth = Math.floor(width / 2 ** (level - 1));
+    const parentHeight = Math.floor(height / 2 ** (level - 1));
+    if (parentWidth !== changeWidth || parentHeight !== changeHeight) {
+      const padded = new Float32Array(parentWidth * parentHeight);
+      for (let row = 0; row < changeHeight; row++) {
+        padded.set(change.subarray(row * changeWidth, (row + 1) * changeWidth), row * parentWidth);
+      }
+      change = padded;
+      changeWidth = parentWidth;
+      changeHeight = parentHeight;
+    }
+  }
+  return change;
+}
+
+/**
+ * Size of the plane the mark's blocks are taken from: the image itself, or
+ * its LL band in the 'dwt-dct' domain.
+ */
+export function embeddingPlaneSize(
+  width: number,
+  height: number,
+  domain: EmbeddingDomain = 'dct'
+): { width: number; height: number; levels: number } {
+  const levels = domain === 'dwt-dct' ? WAVELET_LEVELS : 0;
+  return {
+    width: Math.floor(width / 2 ** levels),
+    height: Math.floor(height / 2 ** levels),
+    levels,
+  };
+}
@@ -1,6 +1,49 @@
-import { PAYLOAD_BITS } from './constants';
+import { bchDecode, bchEncode, bchParityLength } from './bch';
+import { rsDecode, rsEncode } from './reed-solomon';
+import { generatorRows, osdDecode } from './osd';
 
-const REPETITION_FACTOR = 3;
+export const REPETITION_FACTOR = 3;
+
+/** Bit errors a BCH codeword can correct */
+export const BCH_CORRECTABLE_BITS = 20;
+
+/** Parity symbols per Reed-Solomon codeword (corrects half as many bytes) */
+export const RS_PARITY_SYMBOLS = 20;
+
+/**
+ * Error-correcting code applied to the checksummed frame.
+ * - 'repetition': 3x repetition with majority vote (legacy, no error detection)
+ * - 'bch': binary BCH correcting up to 20 bit errors per codeword
+ * - 'reed-solomon': byte-oriented Reed-Solomon, best against burst errors
+ */
+export type EccScheme = 'repetition' | 'bch' | 'reed-solomon';
+
+/** Schemes in header order: the index is what gets embedded */
+export const ECC_SCHEMES: readonly EccScheme[] = ['repetition', 'bch', 'reed-solomon'];
+
+export const DEFAULT_ECC_SCHEME: EccScheme = 'bch';
+
+export type EccDecodeResult = {
+  bits: Uint8Array;
+  /** The decoded codeword, or the hard decisions when decoding failed */
+  codeword: Uint8Array;
+  /** Encoded bits the decoder had to flip, not counting erasures */
+  correctedErrors: number;
+  /** False when the decoder detected an uncorrectable word */
+  ok: boolean;
+};
+
+export interface EccCodec {
+  readonly scheme: EccScheme;
+  encodedLength(dataLength: number): number;
+  encode(bits: Uint8Array): Uint8Array;
+  /**
+   * Decode per-bit log-likelihood ratios (positive favours 1, zero means no
+   * information). `erasures` lists encoded bit indices known to be
+   * unreliable; their values are ignored.
+   */
+  decode(llrs: Float32Array, dataLength: number, erasures?: number[]): EccDecodeResult;
+}
 
 export function encodeWithRepetition(bits: Uint8Array): Uint8Array {
   const encoded = new Uint8Array(bits.length * REPETITION_FACTOR);
@@ -12,31 +55,340 @@ export function encodeWithRepetition(bits: Uint8Array): Uint8Array {
   return encoded;
 }
 
+/**
+ * Hard-vote decoding of soft bits in [0, 1], as used by the first releases.
+ */
 export function decodeWithMajorityVote(
   noisyBits: Float32Array,
-  bitCount: number
-): { bits: Uint8Array; confidence: number } {
+  bitCount: number,
+  erasures: number[] = []
+): { bits: Uint8Array; confidence: number; correctedErrors: number } {
+  const erased = new Set(erasures);
   const decoded = new Uint8Array(bitCount);
-  const votes = new Float32Array(bitCount);
   let totalConfidence = 0;
+  let correctedErrors = 0;
 
   for (let i = 0; i < bitCount; i++) {
     let sum = 0;
     for (let j = 0; j < REPETITION_FACTOR; j++) {
       const idx = i * REPETITION_FACTOR + j;
-      if (idx < noisyBits.length) {
-        sum += noisyBits[idx];
-      }
+      // Erased and missing copies count as undecided
+      sum += idx < noisyBits.length && !erased.has(idx) ? noisyBits[idx] : 0.5;
     }
     const avg = sum / REPETITION_FACTOR;
     const bit = avg > 0.5 ? 1 : 0;
     decoded[i] = bit;
-    
-    const confidence = Math.abs(avg - 0.5) * 2;
-    votes[i] = confidence;
-    totalConfidence += confidence;
+
+    for (let j = 0; j < REPETITION_FACTOR; j++) {
+      const idx = i * REPETITION_FACTOR + j;
+      if (idx < noisyBits.length && !erased.has(idx) && (noisyBits[idx] > 0.5 ? 1 : 0) !== bit) {
+        correctedErrors++;
+      }
+    }
+
+    totalConfidence += Math.abs(avg - 0.5) * 2;
   }
 
   const overallConfidence = totalConfidence / bitCount;
-  return { bits: decoded, confidence: overallConfidence };
+  return { bits: decoded, confidence: overallConfidence, correctedErrors };
+}
+
+/**
+ * Mean agreement between soft bits in [0, 1] and the codeword they were
+ * decoded to, in [0, 1]. Erased bits contribute nothing.
+ */
+export function codewordAgreement(
+  noisyBits: Float32Array,
+  codeword: Uint8Array,
+  erasures: number[] = []
+): number {
+  if (codeword.length === 0) return 0;
+  const erased = new Set(erasures);
+  let total = 0;
+  for (let i = 0; i < codeword.length; i++) {
+    if (!erased.has(i)) {
+      total += (2 * (noisyBits[i] ?? 0.5) - 1) * (codeword[i] ? 1 : -1);
+    }
+  }
+  return Math.max(0, total / codeword.length);
+}
+
+function withErasures(llrs: Float32Array, erasures: number[]): Float32Array {
+  const out = llrs.slice();
+  for (const i of erasures) {
+    if (i < out.length) out[i] = 0;
+  }
+  return out;
+}
+
+function hardDecisions(llrs: Float32Array): Uint8Array {
+  return Uint8Array.from(llrs, (l) => (l > 0 ? 1 : 0));
+}
+
+/**
+ * Soft correlation between the LLRs and a candidate codeword; the most
+ * likely candidate has the highest value.
+ */
+function correlation(llrs: Float32Array, codeword: Uint8Array): number {
+  let total = 0;
+  for (let i = 0; i < codeword.length; i++) {
+    total += codeword[i] ? llrs[i] : -llrs[i];
+  }
+  return total;
+}
+
+function countCorrections(llrs: Float32Array, codeword: Uint8Array): number {
+  let count = 0;
+  for (let i = 0; i < codeword.length; i++) {
+    if (llrs[i] !== 0 && (llrs[i] > 0 ? 1 : 0) !== codeword[i]) {
+      count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Indices ordered from least to most reliable.
+ */
+function reliabilityOrder(reliabilities: ArrayLike<number>): number[] {
+  return Array.from({ length: reliabilities.length }, (_, i) => i).sort(
+    (a, b) => Math.abs(reliabilities[a]) - Math.abs(reliabilities[b])
+  );
+}
+
+/**
+ * Split `length` bits into the fewest near-equal chunks of at most `max`.
+ */
+function chunkLengths(length: number, max: number): number[] {
+  const count = Math.max(1, Math.ceil(length / max));
+  const base = Math.floor(length / count);
+  return Array.from({ length: count }, (_, i) => base + (i < length % count ? 1 : 0));
+}
+
+const repetitionCodec: EccCodec = {
+  scheme: 'repetition',
+  encodedLength: (dataLength) => dataLength * REPETITION_FACTOR,
+  encode: encodeWithRepetition,
+  decode(llrs, dataLength, erasures = []) {
+    const soft = withErasures(llrs, erasures);
+    const bits = new Uint8Array(dataLength);
+    for (let i = 0; i < dataLength; i++) {
+      let sum = 0;
+      for (let j = 0; j < REPETITION_FACTOR; j++) {
+        sum += soft[i * REPETITION_FACTOR + j] ?? 0;
+      }
+      bits[i] = sum > 0 ? 1 : 0;
+    }
+    const codeword = encodeWithRepetition(bits);
+    return { bits, codeword, correctedErrors: countCorrections(soft, codeword), ok: true };
+  },
+};
+
+const BCH_PARITY_BITS = bchParityLength(BCH_CORRECTABLE_BITS);
+const BCH_MAX_DATA_BITS = 255 - BCH_PARITY_BITS;
+
+/** Least reliable bits added to the erasure set at each soft-decoding step */
+const BCH_ERASURE_STEP = 4;
+
+type Candidate = { data: Uint8Array; codeword: Uint8Array; metric: number };
+
+/**
+ * Cached generator rows per code and data length, for ordered statistics
+ * decoding.
+ */
+const generatorCache = new Map<string, Uint8Array[]>();
+
+function cachedGeneratorRows(
+  scheme: EccScheme,
+  dataLength: number,
+  encode: (bits: Uint8Array) => Uint8Array
+): Uint8Array[] {
+  const key = `${scheme}:${dataLength}`;
+  let rows = generatorCache.get(key);
+  if (!rows) {
+    rows = generatorRows(dataLength, encode);
+    generatorCache.set(key, rows);
+  }
+  return rows;
+}
+
+/**
+ * Ordered statistics candidate for a systematic code, or null if it could
+ * be a chance fit.
+ */
+function osdCandidate(llrs: Float32Array, rows: Uint8Array[]): Candidate | null {
+  const result = osdDecode(llrs, rows);
+  if (!result) return null;
+  return { data: result.codeword.slice(0, rows.length), ...result };
+}
+
+/**
+ * Soft decoding of one BCH word. Generalized minimum distance decoding
+ * erases growing sets of the least reliable bits and fills them both ways;
+ * ordered statistics decoding covers words with more near-erasures than
+ * that can handle. The candidate that best matches the LLRs wins.
+ */
+function decodeBchWord(llrs: Float32Array, dataLength: number): Candidate | null {
+  const hard = hardDecisions(llrs);
+  const order = reliabilityOrder(llrs);
+
+  const rows = cachedGeneratorRows('bch', dataLength, (bits) =>
+    bchEncode(bits, BCH_CORRECTABLE_BITS)
+  );
+  let best = osdCandidate(llrs, rows);
+  for (let count = 0; count <= 2 * BCH_CORRECTABLE_BITS; count += BCH_ERASURE_STEP) {
+    const erased = order.slice(0, count);
+    for (const fill of count > 0 ? [0, 1] : [0]) {
+      const trial = hard.slice();
+      for (const i of erased) trial[i] = fill;
+
+      const result = bchDecode(trial, dataLength, BCH_CORRECTABLE_BITS);
+      if (!result.ok) continue;
+      const codeword = bchEncode(result.bits, BCH_CORRECTABLE_BITS);
+      const metric = correlation(llrs, codeword);
+      if (!best || metric > best.metric) {
+        best = { data: result.bits, codeword, metric };
+      }
+    }
+  }
+  return best;
+}
+
+const bchCodec: EccCodec = {
+  scheme: 'bch',
+  encodedLength(dataLength) {
+    return dataLength + chunkLengths(dataLength, BCH_MAX_DATA_BITS).length * BCH_PARITY_BITS;
+  },
+  encode(bits) {
+    const out = new Uint8Array(this.encodedLength(bits.length));
+    let inOffset = 0;
+    let outOffset = 0;
+    for (const len of chunkLengths(bits.length, BCH_MAX_DATA_BITS)) {
+      const codeword = bchEncode(bits.subarray(inOffset, inOffset + len), BCH_CORRECTABLE_BITS);
+      out.set(codeword, outOffset);
+      inOffset += len;
+      outOffset += codeword.length;
+    }
+    return out;
+  },
+  decode(llrs, dataLength, erasures = []) {
+    const soft = withErasures(llrs, erasures);
+    const bits = new Uint8Array(dataLength);
+    const codeword = hardDecisions(soft);
+    let ok = true;
+
+    let inOffset = 0;
+    let outOffset = 0;
+    for (const len of chunkLengths(dataLength, BCH_MAX_DATA_BITS)) {
+      const n = len + BCH_PARITY_BITS;
+      const best = decodeBchWord(soft.subarray(inOffset, inOffset + n), len);
+      if (best) {
+        bits.set(best.data, outOffset);
+        codeword.set(best.codeword, inOffset);
+      } else {
+        ok = false;
+        bits.set(codeword.subarray(inOffset, inOffset + len), outOffset);
+      }
+      inOffset += n;
+      outOffset += len;
+    }
+
+    return { bits, codeword, correctedErrors: ok ? countCorrections(soft, codeword) : 0, ok };
+  },
+};
+
+function bitsToBytes(bits: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(Math.ceil(bits.length / 8));
+  for (let i = 0; i < bits.length; i++) {
+    bytes[i >> 3] |= (bits[i] & 1) << (7 - (i & 7));
+  }
+  return bytes;
+}
+
+function bytesToBits(bytes: Uint8Array, bitCount: number): Uint8Array {
+  const bits = new Uint8Array(bitCount);
+  for (let i = 0; i < bitCount; i++) {
+    bits[i] = (bytes[i >> 3] >> (7 - (i & 7))) & 1;
+  }
+  return bits;
+}
+
+/** Least reliable symbols added to the erasure set at each soft-decoding step */
+const RS_ERASURE_STEP = 2;
+
+/**
+ * Most symbols erased while soft decoding. The remaining parity must still
+ * correct a few errors, or any noise would decode.
+ */
+const RS_MAX_SOFT_ERASURES = RS_PARITY_SYMBOLS - 8;
+
+const reedSolomonCodec: EccCodec = {
+  scheme: 'reed-solomon',
+  encodedLength: (dataLength) => (Math.ceil(dataLength / 8) + RS_PARITY_SYMBOLS) * 8,
+  encode(bits) {
+    const codeword = rsEncode(bitsToBytes(bits), RS_PARITY_SYMBOLS);
+    return bytesToBits(codeword, this.encodedLength(bits.length));
+  },
+  decode(llrs, dataLength, erasures = []) {
+    const soft = withErasures(llrs, erasures);
+    const hard = hardDecisions(soft);
+    const received = bitsToBytes(hard);
+
+    // A symbol is only as reliable as its weakest bit
+    const reliabilities = Array.from(received, (_, s) => {
+      let min = Infinity;
+      for (let i = s * 8; i < Math.min(soft.length, s * 8 + 8); i++) {
+        min = Math.min(min, Math.abs(soft[i]));
+      }
+      return min;
+    });
+    const order = reliabilityOrder(reliabilities);
+
+    // Generalized minimum distance decoding over symbol erasures, plus
+    // ordered statistics decoding on the code's binary image
+    const rows = cachedGeneratorRows('reed-solomon', dataLength, (bits) => this.encode(bits));
+    let best = osdCandidate(soft, rows);
+    for (let count = 0; count <= RS_MAX_SOFT_ERASURES; count += RS_ERASURE_STEP) {
+      const result = rsDecode(received, RS_PARITY_SYMBOLS, order.slice(0, count));
+      if (!result.ok) continue;
+      const data = bytesToBits(result.data, dataLength);
+      const codeword = this.encode(data);
+      const metric = correlation(soft, codeword);
+      if (!best || metric > best.metric) {
+        best = { data, codeword, metric };
+      }
+    }
+
+    if (!best) {
+      return { bits: hard.slice(0, dataLength), codeword: hard, correctedErrors: 0, ok: false };
+    }
+    return {
+      bits: best.data,
+      codeword: best.codeword,
+      correctedErrors: countCorrections(soft, best.codeword),
+      ok: true,
+    };
+  },
+};
+
+const codecs: Record<EccScheme, EccCodec> = {
+  repetition: repetitionCodec,
+  bch: bchCodec,
+  'reed-solomon': reedSolomonCodec,
+};
+
+export function getEccCodec(scheme: EccScheme): EccCodec {
+  const codec = codecs[scheme];
+  if (!codec) {
+    throw new Error(`Unknown ECC scheme: ${scheme}`);
+  }
+  return codec;
+}
+
+/**
+ * All schemes, starting with the one named in the embedded header. The
+ * header is unprotected, so the others are still worth a try.
+ */
+export function orderEccSchemes(embedded: EccScheme): EccScheme[] {
+  return [embedded, ...ECC_SCHEMES.filter((scheme) => scheme !== embedded)];
 }
@@ -1,13 +1,42 @@
 import { dct2d, idct2d } from './dct';
 import { SeededPRNG } from './prng';
-import { encodeWithRepetition } from './ecc';
-import { createBlockAssignments } from './block-selection';
-import { BLOCK_SIZE, PAYLOAD_BITS, EMBEDDING_STRENGTH } from './constants';
-
-const MID_FREQ_COEFFS: Array<[number, number]> = [
-  [1, 2], [2, 1], [2, 2], [3, 1], [1, 3], [3, 2], [2, 3], [3, 3],
-  [4, 1], [1, 4], [4, 2], [2, 4], [4, 3], [3, 4], [4, 4],
-];
+import {
+  encodeWithRepetition,
+  getEccCodec,
+  REPETITION_FACTOR,
+  type EccCodec,
+} from './ecc';
+import { buildFrame } from './frame';
+import { encodeHeader, encodeHeaderExtension, type WatermarkHeader } from './header';
+import {
+  assignSlots,
+  planHeader,
+  type PlacementSeeds,
+  type Slot,
+} from './block-selection';
+import { planTile, repeatTile, type WatermarkLayout } from './tiling';
+import { addTemplate } from './template';
+import { coefficientStrength, meanDcCoefficient } from './masking';
+import { latticeMargin, qimDithers, quantizeToLattice } from './qim';
+import {
+  embeddingPlaneSize,
+  waveletLowpass,
+  waveletSynthesize,
+  type EmbeddingDomain,
+} from './dwt';
+import {
+  chromaPlaneSize,
+  extractChroma,
+  isGrayscale,
+  rgbChange,
+  CHROMA_STRENGTH,
+} from './color';
+import {
+  BLOCK_SIZE,
+  CHECKSUM_BITS,
+  HEADER_BITS,
+  PAYLOAD_BITS,
+} from './constants';
 
 function extractLuminance(rgba: Uint8ClampedArray, width: number, height: number): Float32Array {
   const y = new Float32Array(width * height);
@@ -20,107 +49,413 @@ function extractLuminance(rgba: Uint8ClampedArray, width: number, height: number
   return y;
 }
 
+/** Changes made to an image's Cb and Cr planes */
+type ChromaChange = { cb: Float32Array; cr: Float32Array };
+
+/**
+ * R, G and B changes of pixel `i` for its luminance change and, when the
+ * chroma was marked, its chroma changes.
+ */
+function pixelChange(i: number, deltaY: number, chroma?: ChromaChange): [number, number, number] {
+  return chroma ? rgbChange(deltaY, chroma.cb[i], chroma.cr[i]) : [deltaY, deltaY, deltaY];
+}
+
 function reconstructRGB(
   y: Float32Array,
   originalRgba: Uint8ClampedArray,
   width: number,
-  height: number
+  height: number,
+  chroma?: ChromaChange
 ): Uint8ClampedArray {
   const rgba = new Uint8ClampedArray(originalRgba.length);
   for (let i = 0; i < width * height; i++) {
     const originalY = 0.299 * originalRgba[i * 4] +
                       0.587 * originalRgba[i * 4 + 1] +
                       0.114 * originalRgba[i * 4 + 2];
-    const deltaY = y[i] - originalY;
-    rgba[i * 4] = Math.max(0, Math.min(255, originalRgba[i * 4] + deltaY));
-    rgba[i * 4 + 1] = Math.max(0, Math.min(255, originalRgba[i * 4 + 1] + deltaY));
-    rgba[i * 4 + 2] = Math.max(0, Math.min(255, originalRgba[i * 4 + 2] + deltaY));
+    const [deltaR, deltaG, deltaB] = pixelChange(i, y[i] - originalY, chroma);
+    rgba[i * 4] = Math.max(0, Math.min(255, originalRgba[i * 4] + deltaR));
+    rgba[i * 4 + 1] = Math.max(0, Math.min(255, originalRgba[i * 4 + 1] + deltaG));
+    rgba[i * 4 + 2] = Math.max(0, Math.min(255, originalRgba[i * 4 + 2] + deltaB));
     rgba[i * 4 + 3] = originalRgba[i * 4 + 3];
   }
   return rgba;
 }
 
-export function embedWatermark(
-  imageData: ImageData,
-  payloadBits: Uint8Array
-): ImageData {
-  const { width, height, data } = imageData;
-  const y = extractLuminance(data, width, height);
+/**
+ * Shift each block of the embedded luminance by a constant so that adding
+ * its change to R, G and B stays within [0, 255] wherever possible. Near
+ * white or black, clamping would otherwise cut off one half of the
+ * perturbation and with it the sign of the marked coefficients; a constant
+ * shift only moves the DC coefficient, which carries nothing. `blockSize`
+ * is the span in pixels of one marked block.
+ */
+function compensateClipping(
+  processedY: Float32Array,
+  y: Float32Array,
+  rgba: Uint8ClampedArray,
+  width: number,
+  height: number,
+  blockSize: number,
+  chroma?: ChromaChange
+): void {
+  for (let top = 0; top < height; top += blockSize) {
+    for (let left = 0; left < width; left += blockSize) {
+      // Range of shifts that keeps every pixel of the block unclipped
+      let lowest = -Infinity;
+      let highest = Infinity;
+      for (let row = top; row < Math.min(top + blockSize, height); row++) {
+        for (let x = left; x < Math.min(left + blockSize, width); x++) {
+          const i = row * width + x;
+          const change = pixelChange(i, processedY[i] - y[i], chroma);
+          for (let channel = 0; channel < 3; channel++) {
+            const value = rgba[i * 4 + channel] + change[channel];
+            lowest = Math.max(lowest, -value);
+            highest = Math.min(highest, 255 - value);
+          }
+        }
+      }
 
+      // The smallest shift that fits, or a compromise between both ends
+      // when the change spans more than the block's headroom
+      const shift = lowest <= highest
+        ? Math.min(Math.max(0, lowest), highest)
+        : (lowest + highest) / 2;
+      if (shift === 0) continue;
+
+      for (let row = top; row < Math.min(top + blockSize, height); row++) {
+        for (let x = left; x < Math.min(left + blockSize, width); x++) {
+          processedY[row * width + x] += shift;
+        }
+      }
+    }
+  }
+}
+
+export type EmbedOptions = {
+  /** How the header and body are laid out over the image */
+  layout?: WatermarkLayout;
+  /** Add the synchronization template used to undo scaling and rotation */
+  template?: boolean;
+  /** Multiplier of the embedding strength */
+  strength?: number;
+  /** Scale the strength of each coefficient by how much change its block hides */
+  perceptual?: boolean;
+  /** Further multiplier per block index, e.g. to reinforce blocks that failed to read back */
+  blockStrength?: Float32Array;
+  /** `blockStrength` for the blocks of the chroma planes */
+  chromaBlockStrength?: Float32Array;
+  /** Take the blocks from the image or from its wavelet LL band */
+  domain?: EmbeddingDomain;
+};
+
+/**
+ * One coefficient to mark, with the bit it will carry: by its sign, or by
+ * its lattice when `qim` is set.
+ */
+export type CoefficientVote = {
+  coeffIdx: number;
+  bit: number;
+  qim?: { step: number; dither: number };
+};
+
+/** Slot lists of every region of the layout, one list per encoded bit */
+export type SlotPlan = {
+  sync?: { bits: Uint8Array; slots: Slot[][] };
+  header: Slot[][];
+  /** Header extension, embedded only when the header announces one */
+  extension: Slot[][];
+  body: Slot[][];
+};
+
+/**
+ * Where the header and body go: the header is repetition-coded and placed
+ * from a fixed seed; the body (message, checksum and `header.ecc` parity)
+ * goes into the remaining blocks, placed from `seeds.body`. Neither
+ * placement depends on the message, so the extractor can recover the bits
+ * without knowing them. With the tiled layout the same placement is
+ * repeated in every tile, next to a fixed sync pattern.
+ */
+export function planSlots(
+  width: number,
+  height: number,
+  encodedBodyLength: number,
+  seeds: PlacementSeeds,
+  layout?: WatermarkLayout
+): SlotPlan {
   const blocksX = Math.floor(width / BLOCK_SIZE);
   const blocksY = Math.floor(height / BLOCK_SIZE);
-  const totalBlocks = blocksX * blocksY;
-
-  const encodedBits = encodeWithRepetition(payloadBits);
-  const prng = new SeededPRNG(payloadBits);
-  const { blocksPerBit, assignments } = createBlockAssignments(
-    prng,
-    totalBlocks,
-    encodedBits.length
+  const headerLength = HEADER_BITS * REPETITION_FACTOR;
+
+  if (layout === 'tiled') {
+    const tile = planTile(seeds.header, headerLength);
+    const bodySlots = assignSlots(new SeededPRNG(seeds.body), tile.bodyBlocks, encodedBodyLength);
+    const phase = { phaseX: 0, phaseY: 0 };
+    return {
+      sync: { bits: tile.syncBits, slots: repeatTile(tile.syncSlots, blocksX, blocksY, phase) },
+      header: repeatTile(tile.headerSlots, blocksX, blocksY, phase),
+      extension: repeatTile(tile.extensionSlots, blocksX, blocksY, phase),
+      body: repeatTile(bodySlots, blocksX, blocksY, phase),
+    };
+  }
+
+  const { headerSlots, extensionSlots, bodyBlocks } = planHeader(
+    seeds.header,
+    blocksX * blocksY,
+    headerLength
   );
-  let assignmentIndex = 0;
+  return {
+    header: headerSlots,
+    extension: extensionSlots,
+    body: assignSlots(new SeededPRNG(seeds.body), bodyBlocks, encodedBodyLength),
+  };
+}
 
-  const blockVotes = new Map<number, Array<{ coeff: [number, number]; bit: number }>>();
+/** Encoded bits and their slots, with a dither per bit for a QIM body */
+type VoteSource = { bits: Uint8Array; slots: Slot[][]; dithers?: Float32Array };
 
-  for (let bitIdx = 0; bitIdx < encodedBits.length; bitIdx++) {
-    const bit = encodedBits[bitIdx];
-    for (let b = 0; b < blocksPerBit; b++) {
-      const blockIdx = assignments
-        ? assignments[assignmentIndex++]
-        : prng.nextInt(totalBlocks);
-      const coeffIdx = prng.nextInt(MID_FREQ_COEFFS.length);
-      const coeff = MID_FREQ_COEFFS[coeffIdx];
+/**
+ * Gather the votes of every source per block and coefficient, settling
+ * coefficients shared by several slots by majority.
+ */
+function tallyVotes(sources: VoteSource[], step?: number): Map<number, CoefficientVote[]> {
+  const blockVotes = new Map<number, Map<number, { bits: number[]; dither?: number }>>();
+  for (const { bits: encodedBits, slots, dithers } of sources) {
+    for (let bitIdx = 0; bitIdx < encodedBits.length; bitIdx++) {
+      const bit = encodedBits[bitIdx];
+      for (const { blockIdx, coeff } of slots[bitIdx]) {
+        if (!blockVotes.has(blockIdx)) {
+          blockVotes.set(blockIdx, new Map());
+        }
+        const coeffVotes = blockVotes.get(blockIdx)!;
+        const coeffIdx = coeff[0] * BLOCK_SIZE + coeff[1];
+        if (!coeffVotes.has(coeffIdx)) {
+          coeffVotes.set(coeffIdx, { bits: [], dither: dithers?.[bitIdx] });
+        }
+        coeffVotes.get(coeffIdx)!.bits.push(bit);
+      }
+    }
+  }
 
-      if (!blockVotes.has(blockIdx)) {
-        blockVotes.set(blockIdx, []);
+  const plan = new Map<number, CoefficientVote[]>();
+  for (const [blockIdx, coeffVotes] of blockVotes) {
+    plan.set(
+      blockIdx,
+      Array.from(coeffVotes, ([coeffIdx, { bits, dither }]) => ({
+        coeffIdx,
+        bit: bits.reduce((a, b) => a + b, 0) > bits.length / 2 ? 1 : 0,
+        qim: step !== undefined && dither !== undefined ? { step, dither } : undefined,
+      }))
+    );
+  }
+  return plan;
+}
+
+/**
+ * Which coefficients of which blocks carry which bits, as placed by
+ * `planSlots`. The header (and its extension) is always sign-modulated so
+ * it can be read before the body's modulation is known; a body with
+ * `header.qimStep` set is quantized onto lattices dithered per encoded bit.
+ * Slots that land on the same coefficient are settled by majority.
+ */
+export function planVotes(
+  width: number,
+  height: number,
+  messageBits: Uint8Array,
+  header: WatermarkHeader,
+  seeds: PlacementSeeds,
+  layout?: WatermarkLayout
+): Map<number, CoefficientVote[]> {
+  const encodedHeader = encodeWithRepetition(encodeHeader(header));
+  const extension = encodeHeaderExtension(header);
+  const encodedBody = getEccCodec(header.ecc).encode(buildFrame(messageBits));
+  const slots = planSlots(width, height, encodedBody.length, seeds, layout);
+  const step = header.qimStep;
+
+  const sources: VoteSource[] = [];
+  if (slots.sync) {
+    sources.push(slots.sync);
+  }
+  sources.push({ bits: encodedHeader, slots: slots.header });
+  if (extension) {
+    sources.push({ bits: encodeWithRepetition(extension), slots: slots.extension });
+  }
+  sources.push({
+    bits: encodedBody,
+    slots: slots.body,
+    dithers: step === undefined ? undefined : qimDithers(seeds.body, encodedBody.length, step),
+  });
+  return tallyVotes(sources, step);
+}
+
+/**
+ * The body's votes in a chroma plane of `width` x `height` pixels: the
+ * whole-image placement of the body alone, as `planVotes` would make it
+ * for a plane of that size, with the QIM step scaled by CHROMA_STRENGTH.
+ * The header stays in luminance.
+ */
+export function planChromaVotes(
+  width: number,
+  height: number,
+  messageBits: Uint8Array,
+  header: WatermarkHeader,
+  seeds: PlacementSeeds
+): Map<number, CoefficientVote[]> {
+  const encodedBody = getEccCodec(header.ecc).encode(buildFrame(messageBits));
+  const { body } = planSlots(width, height, encodedBody.length, seeds);
+  const step = header.qimStep === undefined ? undefined : header.qimStep * CHROMA_STRENGTH;
+  return tallyVotes(
+    [
+      {
+        bits: encodedBody,
+        slots: body,
+        dithers: step === undefined ? undefined : qimDithers(seeds.body, encodedBody.length, step),
+      },
+    ],
+    step
+  );
+}
+
+/** How much of the watermark an image of a given size can hold */
+export type WatermarkCapacity = {
+  /** Encoded header bits, and how many of them got at least one slot */
+  headerBits: number;
+  placedHeaderBits: number;
+  /** Encoded body bits (message, checksum and parity), and how many got a slot */
+  bodyBits: number;
+  placedBodyBits: number;
+  /** Coefficients carrying body bits, all copies included */
+  bodySlots: number;
+  /** Blocks holding those coefficients */
+  bodyBlocks: number;
+  /** Fewest slots any body bit got */
+  minSlotsPerBit: number;
+  /** Whether header and body decode with the bits that have no slot erased */
+  fits: boolean;
+};
+
+/**
+ * Decode a known codeword from `slots` as an undisturbed image would give
+ * it back: placed bits intact, the rest erased.
+ */
+function decodesWithErasures(codec: EccCodec, dataLength: number, slots: Slot[][]): boolean {
+  const data = Uint8Array.from({ length: dataLength }, (_, i) => i % 2);
+  const codeword = codec.encode(data);
+  const llrs = new Float32Array(codeword.length);
+  const erasures: number[] = [];
+  for (let bitIdx = 0; bitIdx < codeword.length; bitIdx++) {
+    if (slots[bitIdx].length > 0) {
+      llrs[bitIdx] = codeword[bitIdx] ? 1 : -1;
+    } else {
+      erasures.push(bitIdx);
+    }
+  }
+  const { bits, ok } = codec.decode(llrs, dataLength, erasures);
+  return ok && bits.every((bit, i) => bit === data[i]);
+}
+
+/**
+ * Count the slots an image of `width` x `height` pixels offers the header
+ * and body. With the tiled layout, slots of tiles the image cuts off do not
+ * count; the image may still fit when the code makes up for them.
+ */
+export function measureCapacity(
+  width: number,
+  height: number,
+  header: WatermarkHeader,
+  seeds: PlacementSeeds,
+  layout?: WatermarkLayout,
+  messageLength = header.payloadBits ?? PAYLOAD_BITS
+): WatermarkCapacity {
+  const codec = getEccCodec(header.ecc);
+  const frameLength = messageLength + CHECKSUM_BITS;
+  const bodyBits = codec.encodedLength(frameLength);
+  const slots = planSlots(width, height, bodyBits, seeds, layout);
+  const placed = (bitSlots: Slot[][]) => bitSlots.filter((list) => list.length > 0).length;
+
+  const placedHeaderBits = placed(slots.header);
+  const placedBodyBits = placed(slots.body);
+  return {
+    headerBits: slots.header.length,
+    placedHeaderBits,
+    bodyBits,
+    placedBodyBits,
+    bodySlots: slots.body.reduce((sum, list) => sum + list.length, 0),
+    bodyBlocks: new Set(slots.body.flat().map(({ blockIdx }) => blockIdx)).size,
+    minSlotsPerBit: Math.min(...slots.body.map((list) => list.length)),
+    fits:
+      decodesWithErasures(getEccCodec('repetition'), HEADER_BITS, slots.header) &&
+      decodesWithErasures(codec, frameLength, slots.body),
+  };
+}
+
+function readBlock(y: Float32Array, width: number, height: number, bx: number, by: number) {
+  const block = new Float32Array(BLOCK_SIZE * BLOCK_SIZE);
+  for (let blockY = 0; blockY < BLOCK_SIZE; blockY++) {
+    for (let blockX = 0; blockX < BLOCK_SIZE; blockX++) {
+      const srcX = bx * BLOCK_SIZE + blockX;
+      const srcY = by * BLOCK_SIZE + blockY;
+      if (srcX < width && srcY < height) {
+        block[blockY * BLOCK_SIZE + blockX] = y[srcY * width + srcX];
       }
-      blockVotes.get(blockIdx)!.push({ coeff, bit });
     }
   }
+  return block;
+}
 
+/**
+ * Move the planned coefficients of one transformed block onto their bits:
+ * away from zero on the side of the bit, or onto the bit's QIM lattice.
+ */
+function markBlock(
+  dctBlock: Float32Array,
+  votes: CoefficientVote[],
+  meanDc: number,
+  multiplier: number,
+  perceptual: boolean
+): void {
+  for (const { coeffIdx, bit, qim } of votes) {
+    const currentValue = dctBlock[coeffIdx];
+    if (qim) {
+      dctBlock[coeffIdx] = quantizeToLattice(currentValue, bit, qim.step, qim.dither);
+      continue;
+    }
+    const amount = coefficientStrength(dctBlock, coeffIdx, meanDc, multiplier, perceptual);
+
+    if (bit === 1) {
+      dctBlock[coeffIdx] = Math.abs(currentValue) + amount;
+    } else {
+      dctBlock[coeffIdx] = -(Math.abs(currentValue) + amount);
+    }
+  }
+}
+
+/**
+ * Mark the 8x8 blocks of a `width` x `height` plane as planned, returning
+ * the marked plane.
+ */
+function markPlane(
+  y: Float32Array,
+  width: number,
+  height: number,
+  plan: Map<number, CoefficientVote[]>,
+  strength: number,
+  perceptual: boolean,
+  blockStrength?: Float32Array
+): Float32Array {
+  const blocksX = Math.floor(width / BLOCK_SIZE);
+  const blocksY = Math.floor(height / BLOCK_SIZE);
   const processedY = new Float32Array(y);
+  const meanDc = meanDcCoefficient(y);
 
   for (let by = 0; by < blocksY; by++) {
     for (let bx = 0; bx < blocksX; bx++) {
       const blockIdx = by * blocksX + bx;
-      const block = new Float32Array(BLOCK_SIZE * BLOCK_SIZE);
+      const votes = plan.get(blockIdx);
+      if (!votes) continue;
 
-      for (let blockY = 0; blockY < BLOCK_SIZE; blockY++) {
-        for (let blockX = 0; blockX < BLOCK_SIZE; blockX++) {
-          const srcX = bx * BLOCK_SIZE + blockX;
-          const srcY = by * BLOCK_SIZE + blockY;
-          if (srcX < width && srcY < height) {
-            block[blockY * BLOCK_SIZE + blockX] = y[srcY * width + srcX];
-          }
-        }
-      }
-
-      const dctBlock = dct2d(block);
-      const votes = blockVotes.get(blockIdx);
-
-      if (votes && votes.length > 0) {
-        const coeffVotes = new Map<string, number[]>();
-        for (const { coeff, bit } of votes) {
-          const key = `${coeff[0]},${coeff[1]}`;
-          if (!coeffVotes.has(key)) {
-            coeffVotes.set(key, []);
-          }
-          coeffVotes.get(key)!.push(bit);
-        }
-
-        for (const [key, bits] of coeffVotes) {
-          const [u, v] = key.split(',').map(Number);
-          const majorityBit = bits.reduce((a, b) => a + b, 0) > bits.length / 2 ? 1 : 0;
-          const coeffIdx = u * BLOCK_SIZE + v;
-          const currentValue = dctBlock[coeffIdx];
-          
-          if (majorityBit === 1) {
-            dctBlock[coeffIdx] = Math.abs(currentValue) + EMBEDDING_STRENGTH;
-          } else {
-            dctBlock[coeffIdx] = -(Math.abs(currentValue) + EMBEDDING_STRENGTH);
-          }
-        }
-      }
+      const dctBlock = dct2d(readBlock(y, width, height, bx, by));
+      const blockMultiplier = strength * (blockStrength?.[blockIdx] ?? 1);
+      markBlock(dctBlock, votes, meanDc, blockMultiplier, perceptual);
 
       const idctBlock = idct2d(dctBlock);
 
@@ -135,10 +470,304 @@ export function embedWatermark(
       }
     }
   }
+  return processedY;
+}
+
+/**
+ * Mark a plane `levels` wavelet levels down: `mark` changes the LL band,
+ * and the change is carried back up with the detail bands left as they
+ * were. At level 0 the plane itself is marked.
+ */
+function markDomain(
+  plane: Float32Array,
+  width: number,
+  height: number,
+  levels: number,
+  mark: (ll: Float32Array, llWidth: number, llHeight: number) => Float32Array
+): Float32Array {
+  if (levels === 0) {
+    return mark(plane, width, height);
+  }
+  const { ll, width: llWidth, height: llHeight } = waveletLowpass(plane, width, height, levels);
+  const change = waveletSynthesize(
+    mark(ll, llWidth, llHeight).map((value, i) => value - ll[i]),
+    llWidth,
+    llHeight,
+    levels,
+    width,
+    height
+  );
+  return plane.map((value, i) => value + change[i]);
+}
+
+/**
+ * Embed header and message bits into the luminance DCT coefficients of an
+ * image, as planned by `planVotes`. The optional synchronization template
+ * goes in first, so the embedded coefficients sit on top of it. With
+ * perceptual masking, coefficients move less in flat blocks and more in
+ * busy ones; the extractor reads signs and needs no record of the
+ * strengths used. A QIM body ignores strength and masking: its step alone
+ * sets how far coefficients move.
+ *
+ * In the 'dwt-dct' domain the blocks are those of the image's wavelet LL
+ * band, planned over its size; only the LL band changes, so the detail
+ * bands and with them the image's edges and texture are kept as they were.
+ * With `header.chroma` the body is embedded again in Cb and in Cr, as
+ * planned by `planChromaVotes`; grayscale images are marked in luminance
+ * only and their header says so. The message must have the length
+ * `header.payloadBits` records, `PAYLOAD_BITS` by default.
+ */
+export function embedWatermark(
+  imageData: ImageData,
+  messageBits: Uint8Array,
+  header: WatermarkHeader,
+  seeds: PlacementSeeds,
+  options: EmbedOptions = {}
+): ImageData {
+  const { width, height, data } = imageData;
+  const y = extractLuminance(data, width, height);
+  // Clipping is judged on the whole change, the template's included
+  const original = y.slice();
+  if (options.template) {
+    addTemplate(y, width, height);
+  }
+
+  const { strength = 1, perceptual = false, blockStrength, chromaBlockStrength } = options;
+  if (!(strength > 0) || !Number.isFinite(strength)) {
+    throw new Error(`strength must be a positive number, got ${strength}`);
+  }
+  const messageLength = header.payloadBits ?? PAYLOAD_BITS;
+  if (messageBits.length !== messageLength) {
+    throw new Error(
+      `The header announces ${messageLength} message bits, got ${messageBits.length}`
+    );
+  }
+
+  // A grayscale image has no chroma to mark, and says so in its header
+  const markChroma = header.chroma === true && !isGrayscale(data);
+  if (markChroma && options.layout === 'tiled') {
+    throw new Error('Chroma embedding is only supported with the whole-image layout');
+  }
+  const markedHeader = markChroma ? header : { ...header, chroma: undefined };
+
+  const plane = embeddingPlaneSize(width, height, options.domain);
+  const plan = planVotes(
+    plane.width,
+    plane.height,
+    messageBits,
+    markedHeader,
+    seeds,
+    options.layout
+  );
+  const processedY = markDomain(y, width, height, plane.levels, (ll, llWidth, llHeight) =>
+    markPlane(ll, llWidth, llHeight, plan, strength, perceptual, blockStrength)
+  );
+
+  let chromaChange: ChromaChange | undefined;
+  if (markChroma) {
+    const chroma = chromaPlaneSize(width, height, options.domain);
+    const chromaPlan = planChromaVotes(chroma.width, chroma.height, messageBits, header, seeds);
+    const chromaStrength = strength * CHROMA_STRENGTH;
+    const changeOf = (channel: Float32Array) => {
+      const marked = markDomain(channel, width, height, chroma.levels, (ll, llWidth, llHeight) =>
+        markPlane(
+          ll,
+          llWidth,
+          llHeight,
+          chromaPlan,
+          chromaStrength,
+          perceptual,
+          chromaBlockStrength
+        )
+      );
+      return marked.map((value, i) => value - channel[i]);
+    };
+    const { cb, cr } = extractChroma(data, width, height);
+    chromaChange = { cb: changeOf(cb), cr: changeOf(cr) };
+  }
 
-  const watermarkedRgba = reconstructRGB(processedY, data, width, height);
+  compensateClipping(
+    processedY,
+    original,
+    data,
+    width,
+    height,
+    BLOCK_SIZE * 2 ** plane.levels,
+    chromaChange
+  );
+  const watermarkedRgba = reconstructRGB(processedY, data, width, height, chromaChange);
   // Ensure ArrayBuffer-backed Uint8ClampedArray for ImageData compatibility
   const clampedArray = new Uint8ClampedArray(watermarkedRgba.length);
   clampedArray.set(watermarkedRgba);
   return new ImageData(clampedArray, width, height);
 }
+
+/**
+ * Quantized 8x8 DCT coefficients of a `width` x `height` luminance plane,
+ * as a JPEG stores them: 64 per block in row-major order, without the
+ * level shift of 128, and `blocksPerLine` blocks per row of storage.
+ */
+export type QuantizedPlane = {
+  width: number;
+  height: number;
+  blocksPerLine: number;
+  coefficients: Int16Array;
+  quantTable: Uint16Array;
+};
+
+/** Largest quantized AC coefficient an 8-bit JPEG can code */
+const MAX_QUANTIZED_COEFFICIENT = 1023;
+
+/** Offset of a DC coefficient from a JPEG's level-shifted samples to ours */
+const DC_LEVEL_SHIFT = 128 * BLOCK_SIZE;
+
+/**
+ * The quantization level of a marked coefficient that keeps its bit: the
+ * nearest for a sign, never zero, and for a QIM lattice whichever of the
+ * two levels around it sits further inside the bit's decision region.
+ */
+function requantize(value: number, quantum: number, vote: CoefficientVote): number {
+  let level: number;
+  if (vote.qim) {
+    const { step, dither } = vote.qim;
+    const below = Math.floor(value / quantum);
+    const margin = (candidate: number) =>
+      latticeMargin(candidate * quantum, vote.bit, step, dither);
+    level = margin(below + 1) > margin(below) ? below + 1 : below;
+  } else {
+    level = Math.round(value / quantum) || (vote.bit ? 1 : -1);
+  }
+  return Math.max(-MAX_QUANTIZED_COEFFICIENT, Math.min(MAX_QUANTIZED_COEFFICIENT, level));
+}
+
+/**
+ * Embed header and message bits straight into the quantized coefficients
+ * of a JPEG's luminance, as `embedWatermark` would into its pixels: each
+ * planned block is dequantized, marked and only its marked coefficients
+ * are quantized again, so the rest of the image keeps its exact bits. The
+ * coarser a quantizer, the further a mark moves a coefficient; a sign
+ * rounded to zero is kept at the smallest level. Only the whole-image and
+ * tiled layouts of the 'dct' domain apply. Returns the new coefficients.
+ */
+export function embedQuantizedWatermark(
+  plane: QuantizedPlane,
+  messageBits: Uint8Array,
+  header: WatermarkHeader,
+  seeds: PlacementSeeds,
+  options: Pick<EmbedOptions, 'layout' | 'strength' | 'perceptual'> = {}
+): Int16Array {
+  const { width, height, blocksPerLine, quantTable } = plane;
+  const { strength = 1, perceptual = false } = options;
+  if (!(strength > 0) || !Number.isFinite(strength)) {
+    throw new Error(`strength must be a positive number, got ${strength}`);
+  }
+  const messageLength = header.payloadBits ?? PAYLOAD_BITS;
+  if (messageBits.length !== messageLength) {
+    throw new Error(
+      `The header announces ${messageLength} message bits, got ${messageBits.length}`
+    );
+  }
+
+  const plan = planVotes(width, height, messageBits, header, seeds, options.layout);
+  const blocksX = Math.floor(width / BLOCK_SIZE);
+  const blocksY = Math.floor(height / BLOCK_SIZE);
+  const blockOffset = (blockIdx: number) =>
+    (Math.floor(blockIdx / blocksX) * blocksPerLine + (blockIdx % blocksX)) * 64;
+
+  let dcSum = 0;
+  for (let blockIdx = 0; blockIdx < blocksX * blocksY; blockIdx++) {
+    dcSum += plane.coefficients[blockOffset(blockIdx)] * quantTable[0] + DC_LEVEL_SHIFT;
+  }
+  const meanDc = blocksX * blocksY > 0 ? dcSum / (blocksX * blocksY) : 0;
+
+  const coefficients = new Int16Array(plane.coefficients);
+  const dctBlock = new Float32Array(64);
+  for (const [blockIdx, votes] of plan) {
+    const offset = blockOffset(blockIdx);
+    for (let i = 0; i < 64; i++) {
+      dctBlock[i] = coefficients[offset + i] * quantTable[i];
+    }
+    dctBlock[0] += DC_LEVEL_SHIFT;
+    markBlock(dctBlock, votes, meanDc, strength, perceptual);
+    for (const vote of votes) {
+      const { coeffIdx } = vote;
+      coefficients[offset + coeffIdx] = requantize(
+        dctBlock[coeffIdx],
+        quantTable[coeffIdx],
+        vote
+      );
+    }
+  }
+  return coefficients;
+}
+
+/** Blocks to reinforce in each plane, by block index */
+export type WeakBlocks = {
+  luminance: number[];
+  /** Blocks weak in either chroma plane; empty without a chroma plan */
+  chroma: number[];
+};
+
+/**
+ * Blocks of an embedded (and possibly re-encoded) image in which some
+ * planned coefficient no longer carries its bit with at least `margin` to
+ * spare, away from zero for signs or from the decision boundary for QIM
+ * lattices. These are the blocks worth embedding more strongly. With a
+ * `chromaPlan` (see `planChromaVotes`) Cb and Cr are checked too, against
+ * a margin scaled like their marks by CHROMA_STRENGTH.
+ */
+export function findWeakBlocks(
+  imageData: ImageData,
+  plan: Map<number, CoefficientVote[]>,
+  margin: number,
+  domain?: EmbeddingDomain,
+  chromaPlan?: Map<number, CoefficientVote[]>
+): WeakBlocks {
+  const { data, width, height } = imageData;
+  const weakIn = (channel: Float32Array, levels: number, votes: typeof plan, minimum: number) => {
+    const lowpass = waveletLowpass(channel, width, height, levels);
+    return weakBlocksOf(lowpass.ll, lowpass.width, lowpass.height, votes, minimum);
+  };
+
+  const luminance = weakIn(
+    extractLuminance(data, width, height),
+    embeddingPlaneSize(width, height, domain).levels,
+    plan,
+    margin
+  );
+  if (!chromaPlan) {
+    return { luminance, chroma: [] };
+  }
+  const { levels } = chromaPlaneSize(width, height, domain);
+  const { cb, cr } = extractChroma(data, width, height);
+  const chromaMargin = margin * CHROMA_STRENGTH;
+  const chroma = new Set([
+    ...weakIn(cb, levels, chromaPlan, chromaMargin),
+    ...weakIn(cr, levels, chromaPlan, chromaMargin),
+  ]);
+  return { luminance, chroma: [...chroma].sort((a, b) => a - b) };
+}
+
+function weakBlocksOf(
+  y: Float32Array,
+  width: number,
+  height: number,
+  plan: Map<number, CoefficientVote[]>,
+  margin: number
+): number[] {
+  const blocksX = Math.floor(width / BLOCK_SIZE);
+  const weak: number[] = [];
+  for (const [blockIdx, votes] of plan) {
+    const dctBlock = dct2d(
+      readBlock(y, width, height, blockIdx % blocksX, Math.floor(blockIdx / blocksX))
+    );
+    const weakVote = ({ coeffIdx, bit, qim }: CoefficientVote) =>
+      (qim
+        ? latticeMargin(dctBlock[coeffIdx], bit, qim.step, qim.dither)
+        : (bit ? 1 : -1) * dctBlock[coeffIdx]) < margin;
+    if (votes.some(weakVote)) {
+      weak.push(blockIdx);
+    }
+  }
+  return weak;
+}
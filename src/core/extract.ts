@@ -1,13 +1,59 @@
 import { dct2d } from './dct';
-import { SeededPRNG } from './prng';
-import { decodeWithMajorityVote } from './ecc';
-import { createBlockAssignments } from './block-selection';
-import { BLOCK_SIZE, PAYLOAD_BITS } from './constants';
+import { SeededPRNG, LegacySeededPRNG } from './prng';
+import {
+  codewordAgreement,
+  decodeWithMajorityVote,
+  encodeWithRepetition,
+  getEccCodec,
+  DEFAULT_ECC_SCHEME,
+  REPETITION_FACTOR,
+  type EccScheme,
+} from './ecc';
+import { buildFrame, parseFrame } from './frame';
+import { decodeHeader, hasHeaderExtension, type WatermarkHeader } from './header';
+import { latticeReading, qimDithers } from './qim';
+import { waveletLowpass, WAVELET_LEVELS } from './dwt';
+import { extractChroma, isGrayscale, CHROMA_LEVELS, CHROMA_STRENGTH } from './color';
+import {
+  assignLegacySlots,
+  assignSlots,
+  planHeader,
+  type PlacementSeeds,
+  type Slot,
+} from './block-selection';
+import { locateTiles, planTile, repeatTile, screenTiles, type TileAlignment } from './tiling';
+import { estimateTransform, resampleLuminance, type GeometricTransform } from './template';
+import {
+  BLOCK_SIZE,
+  CHECKSUM_BITS,
+  EMBEDDING_STRENGTH,
+  HEADER_BITS,
+  HEADER_EXTENSION_BITS,
+  HEADER_EXTENSION_PARTS,
+  PAYLOAD_BITS,
+} from './constants';
+import { binomialTail } from '../utils/statistics';
 
-const MID_FREQ_COEFFS: Array<[number, number]> = [
-  [1, 2], [2, 1], [2, 2], [3, 1], [1, 3], [3, 2], [2, 3], [3, 3],
-  [4, 1], [1, 4], [4, 2], [2, 4], [4, 3], [3, 4], [4, 4],
-];
+/** The header is always repetition-coded */
+const ENCODED_HEADER_BITS = HEADER_BITS * REPETITION_FACTOR;
+
+/** Share of clipped pixels above which a block no longer holds a mark */
+const SATURATED_BLOCK_RATIO = 0.75;
+
+/**
+ * Noise model for soft decisions: a coefficient read back as `c` is taken
+ * to be the embedded ±EMBEDDING_STRENGTH plus Gaussian noise whose variance
+ * is a floor (rounding, mild requantization) plus a share of the block's AC
+ * energy (busy blocks move more under recompression and resampling).
+ */
+const NOISE_FLOOR = EMBEDDING_STRENGTH / 2;
+const LOCAL_ENERGY_WEIGHT = 0.05;
+
+/** Coefficients beyond this are no more trustworthy than at it */
+const MAX_RELIABLE_COEFF = 2 * EMBEDDING_STRENGTH;
+
+/** Log-likelihood ratio of a coefficient sitting exactly on a QIM lattice */
+const QIM_LLR = 8;
 
 function extractLuminance(rgba: Uint8ClampedArray, width: number, height: number): Float32Array {
   const y = new Float32Array(width * height);
@@ -20,70 +66,759 @@ function extractLuminance(rgba: Uint8ClampedArray, width: number, height: number
   return y;
 }
 
-export function extractWatermark(
-  imageData: ImageData,
-  expectedPayloadBits: Uint8Array
-): { recoveredBits: Uint8Array; confidence: number } {
+export type ExtractedWatermark = {
+  messageBits: Uint8Array;
+  /** True when the recovered frame decodes and passes its checksum */
+  valid: boolean;
+  confidence: number;
+  /** Encoded bits fixed by the error-correcting code */
+  correctedErrors: number;
+};
+
+/**
+ * Agreement between an image and an expected message, counted over the
+ * distinct coefficients the message would have marked.
+ */
+export type WatermarkScore = {
+  agreeingVotes: number;
+  totalVotes: number;
+  /**
+   * Probability that an unmarked image agrees at least this well: each
+   * coefficient sign is a fair coin under that hypothesis.
+   */
+  pValue: number;
+};
+
+export type ExtractWatermarkOptions = {
+  /** Error-correcting code the body was encoded with */
+  ecc?: EccScheme;
+  /** Read the tiled layout at this alignment (see `findTileAlignment`) */
+  alignment?: TileAlignment;
+  /** Length of the embedded message (see `WatermarkHeader.payloadBits`) */
+  messageBitCount?: number;
+  /** Lattice step of a body embedded with QIM (see `WatermarkHeader.qimStep`) */
+  qimStep?: number;
+  /**
+   * Add the reads of a body also embedded in chroma (see
+   * `WatermarkHeader.chroma`); ignored for the tiled layout
+   */
+  chroma?: boolean;
+};
+
+/** How `scoreWatermark` reads the body; messages must be `messageBitCount` bits long */
+export type ScoreOptions = Pick<
+  ExtractWatermarkOptions,
+  'ecc' | 'alignment' | 'qimStep' | 'chroma' | 'messageBitCount'
+>;
+
+/** Lattice step and per-bit dithers of a QIM body */
+type QimLattice = { step: number; dithers: Float32Array };
+
+export type ExtractedHeader = WatermarkHeader & {
+  confidence: number;
+  /**
+   * Probability that an unmarked image reads a header this consistent,
+   * counted over the header's coefficients: a quick test of whether the
+   * layout holds a mark at all, before its body is decoded.
+   */
+  pValue: number;
+};
+
+type LuminancePlane = {
+  y: Float32Array;
+  width: number;
+  height: number;
+  /** Pixel offset of the block grid */
+  offsetX: number;
+  offsetY: number;
+  blocksX: number;
+  blocksY: number;
+  totalBlocks: number;
+  /** Block DCTs computed so far; null for clipped blocks */
+  dcts: Map<number, Float32Array | null>;
+  /** The same image with the block grid at other pixel offsets */
+  shifted: Map<number, LuminancePlane>;
+  /**
+   * Cb and Cr planes `CHROMA_LEVELS` wavelet levels below this one, where a
+   * chroma-embedded body sits. Computed on first use; empty for grayscale
+   * images, absent for planes whose chroma is not known.
+   */
+  chroma?: () => LuminancePlane[];
+};
+
+/**
+ * An image prepared for repeated reads: luminance extracted once and each
+ * block transformed at most once, however many keys, codes or messages
+ * are tried against it.
+ */
+export type TransformedImage = Readonly<LuminancePlane>;
+
+/**
+ * Prepare an image for several extractions or scores in a row. `luminance`
+ * replaces the one computed from the pixels when a more precise one is
+ * known, such as a JPEG's straight from its coefficients; chroma still
+ * comes from the pixels.
+ */
+export function transformImage(imageData: ImageData, luminance?: Float32Array): TransformedImage {
   const { width, height, data } = imageData;
-  const y = extractLuminance(data, width, height);
-
-  const blocksX = Math.floor(width / BLOCK_SIZE);
-  const blocksY = Math.floor(height / BLOCK_SIZE);
-  const totalBlocks = blocksX * blocksY;
-
-  const encodedLength = expectedPayloadBits.length * 3;
-  const noisyBits = new Float32Array(encodedLength);
-  const prng = new SeededPRNG(expectedPayloadBits);
-  const { blocksPerBit, assignments } = createBlockAssignments(
-    prng,
-    totalBlocks,
-    encodedLength
-  );
-  let assignmentIndex = 0;
+  const y = luminance ?? extractLuminance(data, width, height);
+  const plane = createPlane(y, width, height, 0, 0);
+  plane.chroma = cached(() => {
+    if (isGrayscale(data)) {
+      return [];
+    }
+    const { cb, cr } = extractChroma(data, width, height);
+    return [cb, cr].map((channel) =>
+      lowpassImage(createPlane(channel, width, height, 0, 0), CHROMA_LEVELS)
+    );
+  });
+  return plane;
+}
 
-  for (let bitIdx = 0; bitIdx < encodedLength; bitIdx++) {
-    const votes: number[] = [];
+/** `compute`, run once on first call */
+function cached<T>(compute: () => T): () => T {
+  let value: T | undefined;
+  return () => (value ??= compute());
+}
+
+function createPlane(
+  y: Float32Array,
+  width: number,
+  height: number,
+  offsetX: number,
+  offsetY: number
+): LuminancePlane {
+  const blocksX = Math.max(0, Math.floor((width - offsetX) / BLOCK_SIZE));
+  const blocksY = Math.max(0, Math.floor((height - offsetY) / BLOCK_SIZE));
+  return {
+    y,
+    width,
+    height,
+    offsetX,
+    offsetY,
+    blocksX,
+    blocksY,
+    totalBlocks: blocksX * blocksY,
+    dcts: new Map(),
+    shifted: new Map(),
+  };
+}
+
+function toLuminancePlane(image: ImageData | TransformedImage): LuminancePlane {
+  return 'dcts' in image ? image : transformImage(image);
+}
+
+/**
+ * The wavelet LL band of an image after `levels` levels, prepared for reads
+ * like the image itself. Marks embedded in the 'dwt-dct' domain are read
+ * from it.
+ */
+export function lowpassImage(
+  image: ImageData | TransformedImage,
+  levels: number
+): TransformedImage {
+  const plane = toLuminancePlane(image);
+  const { ll, width, height } = waveletLowpass(plane.y, plane.width, plane.height, levels);
+  const lowpass = createPlane(ll, width, height, 0, 0);
+  const { chroma } = plane;
+  if (chroma) {
+    lowpass.chroma = cached(() => chroma().map((channel) => lowpassImage(channel, levels)));
+  }
+  return lowpass;
+}
+
+/**
+ * The plane with its block grid moved to the alignment's pixel offset.
+ * Shifted planes are cached so their block DCTs are computed only once.
+ */
+function alignPlane(plane: LuminancePlane, alignment?: TileAlignment): LuminancePlane {
+  if (!alignment) {
+    return plane;
+  }
+  const key = alignment.offsetY * BLOCK_SIZE + alignment.offsetX;
+  let shifted = plane.shifted.get(key);
+  if (!shifted) {
+    const { y, width, height } = plane;
+    shifted = createPlane(y, width, height, alignment.offsetX, alignment.offsetY);
+    plane.shifted.set(key, shifted);
+  }
+  return shifted;
+}
+
+type SlotReadout = {
+  /** Share of positive sign votes per bit in [0, 1], 0.5 for erased bits */
+  noisyBits: Float32Array;
+  /** Log-likelihood ratio per bit (positive favours 1), 0 for erased bits */
+  llrs: Float32Array;
+  /** Encoded bits whose every slot was unreliable */
+  erasures: number[];
+  /** Sign votes cast per bit */
+  voteCounts: Uint16Array;
+};
+
+/**
+ * Log-likelihood ratio of one coefficient under the noise model above.
+ */
+function coefficientLlr(dctBlock: Float32Array, coeffIdx: number): number {
+  let acEnergy = 0;
+  for (let i = 1; i < dctBlock.length; i++) {
+    if (i !== coeffIdx) {
+      acEnergy += dctBlock[i] * dctBlock[i];
+    }
+  }
+  acEnergy /= dctBlock.length - 2;
 
-    for (let b = 0; b < blocksPerBit; b++) {
-      const blockIdx = assignments
-        ? assignments[assignmentIndex++]
-        : prng.nextInt(totalBlocks);
-      const coeffIdx = prng.nextInt(MID_FREQ_COEFFS.length);
-      const coeff = MID_FREQ_COEFFS[coeffIdx];
-
-      const bx = blockIdx % blocksX;
-      const by = Math.floor(blockIdx / blocksX);
-
-      const block = new Float32Array(BLOCK_SIZE * BLOCK_SIZE);
-      for (let blockY = 0; blockY < BLOCK_SIZE; blockY++) {
-        for (let blockX = 0; blockX < BLOCK_SIZE; blockX++) {
-          const srcX = bx * BLOCK_SIZE + blockX;
-          const srcY = by * BLOCK_SIZE + blockY;
-          if (srcX < width && srcY < height) {
-            block[blockY * BLOCK_SIZE + blockX] = y[srcY * width + srcX];
-          }
+  const variance = NOISE_FLOOR * NOISE_FLOOR + LOCAL_ENERGY_WEIGHT * acEnergy;
+  const value = Math.max(-MAX_RELIABLE_COEFF, Math.min(MAX_RELIABLE_COEFF, dctBlock[coeffIdx]));
+  return (2 * EMBEDDING_STRENGTH * value) / variance;
+}
+
+/**
+ * DCT of one block, or null when the block is too clipped to hold a mark.
+ * Results are cached on the plane.
+ */
+function readBlock(plane: LuminancePlane, blockIdx: number): Float32Array | null {
+  const cached = plane.dcts.get(blockIdx);
+  if (cached !== undefined) {
+    return cached;
+  }
+  const dct = transformBlock(plane, blockIdx);
+  plane.dcts.set(blockIdx, dct);
+  return dct;
+}
+
+function transformBlock(plane: LuminancePlane, blockIdx: number): Float32Array | null {
+  const { y, width, height, offsetX, offsetY, blocksX } = plane;
+  const bx = blockIdx % blocksX;
+  const by = Math.floor(blockIdx / blocksX);
+
+  const block = new Float32Array(BLOCK_SIZE * BLOCK_SIZE);
+  let saturated = 0;
+  for (let blockY = 0; blockY < BLOCK_SIZE; blockY++) {
+    for (let blockX = 0; blockX < BLOCK_SIZE; blockX++) {
+      const srcX = offsetX + bx * BLOCK_SIZE + blockX;
+      const srcY = offsetY + by * BLOCK_SIZE + blockY;
+      if (srcX < width && srcY < height) {
+        const value = y[srcY * width + srcX];
+        block[blockY * BLOCK_SIZE + blockX] = value;
+        if (value <= 0.5 || value >= 254.5) {
+          saturated++;
         }
       }
+    }
+  }
+  if (saturated >= SATURATED_BLOCK_RATIO * BLOCK_SIZE * BLOCK_SIZE) {
+    return null;
+  }
+  return dct2d(block);
+}
+
+/**
+ * Read each encoded bit from its coefficients: a hard sign vote and a soft
+ * log-likelihood ratio summed over the slots. Slots in clipped blocks or on
+ * a coefficient of exactly zero carry no information and are skipped.
+ */
+function readSlots(plane: LuminancePlane, slots: Slot[][], qim?: QimLattice): SlotReadout {
+  const noisyBits = new Float32Array(slots.length);
+  const llrs = new Float32Array(slots.length);
+  const erasures: number[] = [];
+  const voteCounts = new Uint16Array(slots.length);
+
+  for (let bitIdx = 0; bitIdx < slots.length; bitIdx++) {
+    const votes: number[] = [];
+    let llr = 0;
+
+    for (const { blockIdx, coeff } of slots[bitIdx]) {
+      const dctBlock = readBlock(plane, blockIdx);
+      if (!dctBlock) {
+        continue;
+      }
 
-      const dctBlock = dct2d(block);
       const [u, v] = coeff;
-      const coeffValue = dctBlock[u * BLOCK_SIZE + v];
-      
-      // Simple sign-based voting: +1 for positive (bit 1), -1 for negative (bit 0)
-      // This avoids magnitude outliers dominating the result
+      const coeffIdx = u * BLOCK_SIZE + v;
+      const coeffValue = dctBlock[coeffIdx];
+      if (Math.abs(coeffValue) < 1e-3) {
+        continue;
+      }
+
+      if (qim) {
+        const reading = latticeReading(coeffValue, qim.step, qim.dithers[bitIdx]);
+        votes.push(reading > 0 ? 1 : -1);
+        llr += QIM_LLR * reading;
+        continue;
+      }
+
+      // Sign votes: +1 for positive (bit 1), -1 for negative (bit 0)
       votes.push(coeffValue > 0 ? 1 : -1);
+      llr += coefficientLlr(dctBlock, coeffIdx);
+    }
+
+    if (votes.length === 0) {
+      erasures.push(bitIdx);
+      noisyBits[bitIdx] = 0.5;
+      continue;
     }
 
     // Average votes will be in [-1, +1], map to [0, 1]
     const avgVote = votes.reduce((a, b) => a + b, 0) / votes.length;
-    const normalized = (avgVote + 1) / 2;
-    noisyBits[bitIdx] = normalized;
+    noisyBits[bitIdx] = (avgVote + 1) / 2;
+    llrs[bitIdx] = llr;
+    voteCounts[bitIdx] = votes.length;
   }
 
+  return { noisyBits, llrs, erasures, voteCounts };
+}
+
+/**
+ * Readouts of the same encoded bits from several planes combined, as if
+ * all their slots had been read together: log-likelihood ratios add up,
+ * sign votes are pooled, and a bit is erased only where every plane
+ * erased it.
+ */
+function combineReadouts(readouts: SlotReadout[]): SlotReadout {
+  if (readouts.length === 1) {
+    return readouts[0];
+  }
+  const length = readouts[0].llrs.length;
+  const noisyBits = new Float32Array(length);
+  const llrs = new Float32Array(length);
+  const erasures: number[] = [];
+  const voteCounts = new Uint16Array(length);
+  for (let bitIdx = 0; bitIdx < length; bitIdx++) {
+    let positiveVotes = 0;
+    for (const readout of readouts) {
+      const count = readout.voteCounts[bitIdx];
+      positiveVotes += readout.noisyBits[bitIdx] * count;
+      llrs[bitIdx] += readout.llrs[bitIdx];
+      voteCounts[bitIdx] += count;
+    }
+    if (voteCounts[bitIdx] === 0) {
+      erasures.push(bitIdx);
+      noisyBits[bitIdx] = 0.5;
+    } else {
+      noisyBits[bitIdx] = positiveVotes / voteCounts[bitIdx];
+    }
+  }
+  return { noisyBits, llrs, erasures, voteCounts };
+}
+
+/**
+ * Readable coefficients marked by a slot assignment, with the encoded bits
+ * each one carries. Built once per placement and reused for every message
+ * scored against it.
+ */
+type CoefficientIndex = {
+  /**
+   * Bit each coefficient reads as: +1 or -1 for 1 or 0, from its sign or,
+   * for QIM, from the lattice of the first bit placed on it
+   */
+  signs: Int8Array;
+  /** Encoded bit indices carried by each coefficient */
+  bits: number[][];
+};
+
+function indexCoefficients(
+  plane: LuminancePlane,
+  slots: Slot[][],
+  qim?: QimLattice
+): CoefficientIndex {
+  const byCoefficient = new Map<string, { sign: number; bits: number[] }>();
+  for (let bitIdx = 0; bitIdx < slots.length; bitIdx++) {
+    for (const { blockIdx, coeff } of slots[bitIdx]) {
+      const coeffIdx = coeff[0] * BLOCK_SIZE + coeff[1];
+      const key = `${blockIdx}:${coeffIdx}`;
+      let entry = byCoefficient.get(key);
+      if (!entry) {
+        const dctBlock = readBlock(plane, blockIdx);
+        if (!dctBlock || Math.abs(dctBlock[coeffIdx]) < 1e-3) continue;
+        const reading = qim
+          ? latticeReading(dctBlock[coeffIdx], qim.step, qim.dithers[bitIdx])
+          : dctBlock[coeffIdx];
+        entry = { sign: reading > 0 ? 1 : -1, bits: [] };
+        byCoefficient.set(key, entry);
+      }
+      entry.bits.push(bitIdx);
+    }
+  }
+
+  const entries = [...byCoefficient.values()];
+  return {
+    signs: Int8Array.from(entries, (entry) => entry.sign),
+    bits: entries.map((entry) => entry.bits),
+  };
+}
+
+/**
+ * Indices of several planes as one: their coefficients are distinct.
+ */
+function mergeIndices(indices: CoefficientIndex[]): CoefficientIndex {
+  if (indices.length === 1) {
+    return indices[0];
+  }
+  return {
+    signs: Int8Array.from(indices.flatMap((index) => Array.from(index.signs))),
+    bits: indices.flatMap((index) => index.bits),
+  };
+}
+
+/**
+ * Count sign agreements between the image and `encodedBits` over distinct
+ * coefficients. A coefficient shared by several bits carries their
+ * majority, as in `embedWatermark`; ties carry nothing and are skipped, so
+ * every counted vote is an independent coin flip for an unmarked image.
+ */
+function scoreCoefficients(index: CoefficientIndex, encodedBits: Uint8Array): WatermarkScore {
+  let agreeingVotes = 0;
+  let totalVotes = 0;
+  for (let i = 0; i < index.signs.length; i++) {
+    let balance = 0;
+    for (const bitIdx of index.bits[i]) {
+      balance += encodedBits[bitIdx] ? 1 : -1;
+    }
+    if (balance === 0) continue;
+
+    totalVotes++;
+    if (balance > 0 === index.signs[i] > 0) {
+      agreeingVotes++;
+    }
+  }
+
+  return { agreeingVotes, totalVotes, pValue: binomialTail(totalVotes, agreeingVotes) };
+}
+
+function headerSlots(
+  plane: LuminancePlane,
+  headerSeed: Uint8Array,
+  alignment?: TileAlignment
+): { header: Slot[][]; extension: Slot[][] } {
+  if (alignment) {
+    const tile = planTile(headerSeed, ENCODED_HEADER_BITS);
+    return {
+      header: repeatTile(tile.headerSlots, plane.blocksX, plane.blocksY, alignment),
+      extension: repeatTile(tile.extensionSlots, plane.blocksX, plane.blocksY, alignment),
+    };
+  }
+  const plan = planHeader(headerSeed, plane.totalBlocks, ENCODED_HEADER_BITS);
+  return { header: plan.headerSlots, extension: plan.extensionSlots };
+}
+
+function qimLattice(
+  seeds: PlacementSeeds,
+  encodedLength: number,
+  step?: number
+): QimLattice | undefined {
+  return step === undefined
+    ? undefined
+    : { step, dithers: qimDithers(seeds.body, encodedLength, step) };
+}
+
+/**
+ * The body's placement and lattice in each plane a body read covers: the
+ * plane itself, then its chroma planes when the body was also embedded
+ * there (never with the tiled layout).
+ */
+function bodyReads(
+  plane: LuminancePlane,
+  seeds: PlacementSeeds,
+  encodedLength: number,
+  options: Pick<ExtractWatermarkOptions, 'alignment' | 'qimStep' | 'chroma'>
+): Array<{ plane: LuminancePlane; slots: Slot[][]; qim?: QimLattice }> {
+  const { alignment } = options;
+  const qim = qimLattice(seeds, encodedLength, options.qimStep);
+  const reads = [{ plane, slots: bodySlots(plane, seeds, encodedLength, alignment), qim }];
+  if (options.chroma && !alignment) {
+    const step = options.qimStep === undefined ? undefined : options.qimStep * CHROMA_STRENGTH;
+    const chromaQim = qimLattice(seeds, encodedLength, step);
+    for (const chromaPlane of plane.chroma?.() ?? []) {
+      reads.push({
+        plane: chromaPlane,
+        slots: bodySlots(chromaPlane, seeds, encodedLength),
+        qim: chromaQim,
+      });
+    }
+  }
+  return reads;
+}
+
+function bodySlots(
+  plane: LuminancePlane,
+  seeds: PlacementSeeds,
+  encodedLength: number,
+  alignment?: TileAlignment
+): Slot[][] {
+  if (alignment) {
+    const { bodyBlocks } = planTile(seeds.header, ENCODED_HEADER_BITS);
+    const slots = assignSlots(new SeededPRNG(seeds.body), bodyBlocks, encodedLength);
+    return repeatTile(slots, plane.blocksX, plane.blocksY, alignment);
+  }
+  const { bodyBlocks } = planHeader(seeds.header, plane.totalBlocks, ENCODED_HEADER_BITS);
+  return assignSlots(new SeededPRNG(seeds.body), bodyBlocks, encodedLength);
+}
+
+/**
+ * Search possibly cropped images, such as an image and its wavelet LL
+ * bands, for the sync pattern of the tiled layout. Returns which of them
+ * shows it and at what alignment, or null when none shows a tiled
+ * watermark.
+ */
+export function findTileAlignment(
+  images: Array<ImageData | TransformedImage>,
+  headerSeed: Uint8Array
+): { plane: number; alignment: TileAlignment } | null {
+  return locateTiles(images.map(toLuminancePlane), planTile(headerSeed, ENCODED_HEADER_BITS));
+}
+
+/**
+ * Read the unkeyed header (key identifier, ECC scheme and, from its
+ * extension, the QIM step, chroma flag and message length) embedded
+ * alongside the message, from the tiled layout when `alignment` is given.
+ * The header carries no checksum and should be treated as a hint.
+ */
+export function extractHeader(
+  image: ImageData | TransformedImage,
+  headerSeed: Uint8Array,
+  alignment?: TileAlignment
+): ExtractedHeader {
+  const plane = alignPlane(toLuminancePlane(image), alignment);
+  const slots = headerSlots(plane, headerSeed, alignment);
+  const repetition = getEccCodec('repetition');
+
+  const { noisyBits, llrs, erasures } = readSlots(plane, slots.header);
+  const { bits, codeword } = repetition.decode(llrs, HEADER_BITS, erasures);
+  const confidence = codewordAgreement(noisyBits, codeword, erasures);
+  // The decoded header is the best fit of every possible one
+  const { pValue } = scoreCoefficients(indexCoefficients(plane, slots.header), codeword);
+  const fit = { confidence, pValue: Math.min(1, pValue * 2 ** HEADER_BITS) };
+  if (!hasHeaderExtension(bits)) {
+    return { ...decodeHeader(bits), ...fit };
+  }
+
+  const extension = readSlots(plane, slots.extension);
+  // Both parts are decoded; the first tells whether the second was embedded
+  const { bits: extensionBits } = repetition.decode(
+    extension.llrs,
+    HEADER_EXTENSION_BITS * HEADER_EXTENSION_PARTS,
+    extension.erasures
+  );
+  return { ...decodeHeader(bits, extensionBits), ...fit };
+}
+
+/** Number of layouts `readLayouts` may yield */
+export const READ_LAYOUT_COUNT = 4 + WAVELET_LEVELS;
+
+/**
+ * Largest chance of an unmarked image reading a header as consistently
+ * that still counts as showing a mark
+ */
+export const MARKED_HEADER_CHANCE = 1e-3;
+
+export type LayoutReading = {
+  /** The image to read, resampled when the original was scaled or rotated */
+  image: TransformedImage;
+  /** Set when reading the tiled layout */
+  alignment?: TileAlignment;
+  /** Set when the synchronization template showed the image was scaled or rotated */
+  transform?: GeometricTransform;
+  /** Set when reading the wavelet LL band after this many levels */
+  waveletLevel?: number;
+  header: ExtractedHeader;
+};
+
+/** The image followed by its wavelet LL band at each level */
+function waveletLevels(image: TransformedImage): TransformedImage[] {
+  const levels = [image];
+  for (let level = 1; level <= WAVELET_LEVELS; level++) {
+    levels.push(lowpassImage(levels[level - 1], 1));
+  }
+  return levels;
+}
+
+/**
+ * Chance that an unmarked image shows a mark as clearly as this one does
+ * in the reads that need no search: the whole-image header at each wavelet
+ * level, and the sync pattern of the tiled layout at a few grid offsets.
+ * Cheap enough to compare many orientations of an image before reading
+ * any of them in full.
+ */
+export function screenImage(image: TransformedImage, headerSeed: Uint8Array): number {
+  const levels = waveletLevels(image);
+  const headerChance =
+    Math.min(...levels.map((level) => extractHeader(level, headerSeed).pValue)) * levels.length;
+  const tileChance = screenTiles(levels, planTile(headerSeed, ENCODED_HEADER_BITS));
+  return Math.min(1, headerChance, tileChance);
+}
+
+/**
+ * The layouts to read, whole image first. The tiled layout costs a sync
+ * search and the synchronization template a spectrum search, so each is
+ * only looked for once the caller asks for the next layout. The whole
+ * image is then read from the wavelet LL band at each level: a 'dwt-dct'
+ * mark sits at level `WAVELET_LEVELS` of the image it was embedded in, and
+ * a level lower for each halving of the image since. One sync search
+ * covers the image and every level, and is skipped when the whole-image
+ * header already shows a mark. When the template shows the image was
+ * scaled or rotated, both layouts are read again from the image resampled
+ * to its original geometry.
+ */
+export function* readLayouts(
+  image: TransformedImage,
+  headerSeed: Uint8Array
+): Generator<LayoutReading> {
+  const header = extractHeader(image, headerSeed);
+  yield { image, header };
+
+  const levels = waveletLevels(image);
+  const tiles =
+    header.pValue > MARKED_HEADER_CHANCE ? findTileAlignment(levels, headerSeed) : null;
+  if (tiles) {
+    const tiled = levels[tiles.plane];
+    yield {
+      image: tiled,
+      alignment: tiles.alignment,
+      waveletLevel: tiles.plane > 0 ? tiles.plane : undefined,
+      header: extractHeader(tiled, headerSeed, tiles.alignment),
+    };
+  }
+
+  for (let waveletLevel = 1; waveletLevel <= WAVELET_LEVELS; waveletLevel++) {
+    const lowpass = levels[waveletLevel];
+    yield { image: lowpass, waveletLevel, header: extractHeader(lowpass, headerSeed) };
+  }
+
+  const transform = estimateTransform(image.y, image.width, image.height);
+  if (!transform) {
+    return;
+  }
+  const { y, width, height } = resampleLuminance(image.y, image.width, image.height, transform);
+  const restored = createPlane(y, width, height, 0, 0);
+  yield { image: restored, transform, header: extractHeader(restored, headerSeed) };
+
+  const restoredTiles = findTileAlignment([restored], headerSeed);
+  if (restoredTiles) {
+    yield {
+      image: restored,
+      alignment: restoredTiles.alignment,
+      transform,
+      header: extractHeader(restored, headerSeed, restoredTiles.alignment),
+    };
+  }
+}
+
+/**
+ * Blindly recover the message embedded by `embedWatermark` using the same
+ * placement seeds and error-correcting code. No knowledge of the message is
+ * required.
+ */
+export function extractWatermark(
+  image: ImageData | TransformedImage,
+  seeds: PlacementSeeds,
+  options: ExtractWatermarkOptions = {}
+): ExtractedWatermark {
+  const { ecc = DEFAULT_ECC_SCHEME, messageBitCount = PAYLOAD_BITS, alignment } = options;
+  const codec = getEccCodec(ecc);
+  const frameLength = messageBitCount + CHECKSUM_BITS;
+  const encodedLength = codec.encodedLength(frameLength);
+
+  const plane = alignPlane(toLuminancePlane(image), alignment);
+  const { noisyBits, llrs, erasures } = combineReadouts(
+    bodyReads(plane, seeds, encodedLength, options).map((read) =>
+      readSlots(read.plane, read.slots, read.qim)
+    )
+  );
+  const decoded = codec.decode(llrs, frameLength, erasures);
+  const { messageBits, valid } = parseFrame(decoded.bits);
+
+  return {
+    messageBits,
+    valid: decoded.ok && valid,
+    confidence: decoded.ok ? codewordAgreement(noisyBits, decoded.codeword, erasures) : 0,
+    correctedErrors: decoded.correctedErrors,
+  };
+}
+
+/**
+ * Measure how well the image agrees with an expected message, embedded with
+ * the given placement seeds and error-correcting code. Unlike
+ * `extractWatermark` this needs no successful decode, so it still detects
+ * marks too damaged to read back.
+ */
+export function scoreWatermark(
+  image: ImageData | TransformedImage,
+  seeds: PlacementSeeds,
+  messageBits: Uint8Array,
+  options: ScoreOptions = {}
+): WatermarkScore {
+  return scoreWatermarks(image, seeds, [messageBits], options)[0];
+}
+
+/**
+ * `scoreWatermark` for many candidate messages at once. Placement depends
+ * only on the seeds, so the marked coefficients are located and read once
+ * and each message costs just an encode and a pass over their signs.
+ */
+export function scoreWatermarks(
+  image: ImageData | TransformedImage,
+  seeds: PlacementSeeds,
+  messages: Uint8Array[],
+  options: ScoreOptions = {}
+): WatermarkScore[] {
+  const codec = getEccCodec(options.ecc ?? DEFAULT_ECC_SCHEME);
+  const plane = alignPlane(toLuminancePlane(image), options.alignment);
+  const messageBitCount = options.messageBitCount ?? PAYLOAD_BITS;
+  const encodedLength = codec.encodedLength(messageBitCount + CHECKSUM_BITS);
+  const index = mergeIndices(
+    bodyReads(plane, seeds, encodedLength, options).map((read) =>
+      indexCoefficients(read.plane, read.slots, read.qim)
+    )
+  );
+  return messages.map((messageBits) =>
+    scoreCoefficients(index, codec.encode(buildFrame(messageBits)))
+  );
+}
+
+/**
+ * Extract a mark produced before placement became message-independent,
+ * where the PRNG was seeded from the payload bits themselves over the whole
+ * block grid by the legacy generator, and no checksum or header was
+ * embedded. Only usable when the payload is known.
+ */
+export function extractLegacyWatermark(
+  image: ImageData | TransformedImage,
+  expectedPayloadBits: Uint8Array
+): { recoveredBits: Uint8Array; confidence: number } {
+  const plane = toLuminancePlane(image);
+  const encodedLength = expectedPayloadBits.length * REPETITION_FACTOR;
+  const allBlocks = Array.from({ length: plane.totalBlocks }, (_, i) => i);
+  const slots = assignLegacySlots(
+    new LegacySeededPRNG(expectedPayloadBits),
+    allBlocks,
+    encodedLength
+  );
+
+  const { noisyBits, erasures } = readSlots(plane, slots);
   const { bits: recoveredBits, confidence } = decodeWithMajorityVote(
     noisyBits,
-    expectedPayloadBits.length
+    expectedPayloadBits.length,
+    erasures
   );
 
   return { recoveredBits, confidence };
 }
+
+/**
+ * `scoreWatermark` for the legacy payload-seeded layout.
+ */
+export function scoreLegacyWatermark(
+  image: ImageData | TransformedImage,
+  expectedPayloadBits: Uint8Array
+): WatermarkScore {
+  const plane = toLuminancePlane(image);
+  const encoded = encodeWithRepetition(expectedPayloadBits);
+  const allBlocks = Array.from({ length: plane.totalBlocks }, (_, i) => i);
+  const slots = assignLegacySlots(
+    new LegacySeededPRNG(expectedPayloadBits),
+    allBlocks,
+    encoded.length
+  );
+  return scoreCoefficients(indexCoefficients(plane, slots), encoded);
+}
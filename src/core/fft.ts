@@ -0,0 +1,80 @@
+/**
+ * In-place iterative radix-2 FFT. `re` and `im` hold `n` complex values and
+ * `n` must be a power of two.
+ */
+export function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    const half = size >> 1;
+    for (let start = 0; start < n; start += size) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < half; k++) {
+        const a = start + k;
+        const b = a + half;
+        const tRe = re[b] * wRe - im[b] * wIm;
+        const tIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextRe;
+      }
+    }
+  }
+}
+
+/**
+ * Magnitude of the 2D DFT of a real `size` x `size` signal stored row by
+ * row; `size` must be a power of two. Bin (row k, column l) holds vertical
+ * frequency k / size and horizontal frequency l / size cycles per sample.
+ */
+export function fftMagnitude2d(signal: Float64Array, size: number): Float64Array {
+  const re = new Float64Array(signal);
+  const im = new Float64Array(size * size);
+  const rowRe = new Float64Array(size);
+  const rowIm = new Float64Array(size);
+
+  for (let pass = 0; pass < 2; pass++) {
+    // Rows on the first pass, columns on the second
+    const stride = pass === 0 ? 1 : size;
+    const step = pass === 0 ? size : 1;
+    for (let line = 0; line < size; line++) {
+      const base = line * step;
+      for (let i = 0; i < size; i++) {
+        rowRe[i] = re[base + i * stride];
+        rowIm[i] = im[base + i * stride];
+      }
+      fft(rowRe, rowIm);
+      for (let i = 0; i < size; i++) {
+        re[base + i * stride] = rowRe[i];
+        im[base + i * stride] = rowIm[i];
+      }
+    }
+  }
+
+  const magnitude = new Float64Array(size * size);
+  for (let i = 0; i < magnitude.length; i++) {
+    magnitude[i] = Math.hypot(re[i], im[i]);
+  }
+  return magnitude;
+}
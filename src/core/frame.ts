@@ -0,0 +1,45 @@
+import { crc16Bits } from '../utils/checksum';
+import { CHECKSUM_BITS, MAX_PAYLOAD_BITS, MIN_PAYLOAD_BITS } from './constants';
+
+export function assertPayloadBits(bitCount: number): void {
+  if (
+    !Number.isInteger(bitCount / 8) ||
+    bitCount < MIN_PAYLOAD_BITS ||
+    bitCount > MAX_PAYLOAD_BITS
+  ) {
+    throw new Error(
+      `payloadBits must be a multiple of 8 between ${MIN_PAYLOAD_BITS} and ` +
+        `${MAX_PAYLOAD_BITS}, got ${bitCount}`
+    );
+  }
+}
+
+/**
+ * Append a CRC to the message bits so a blindly extracted frame can be
+ * validated without knowing what was embedded.
+ */
+export function buildFrame(messageBits: Uint8Array): Uint8Array {
+  const frame = new Uint8Array(messageBits.length + CHECKSUM_BITS);
+  frame.set(messageBits);
+  frame.set(crc16Bits(messageBits), messageBits.length);
+  return frame;
+}
+
+/**
+ * Split a decoded frame into its message bits and check the CRC.
+ */
+export function parseFrame(frameBits: Uint8Array): { messageBits: Uint8Array; valid: boolean } {
+  const messageLength = frameBits.length - CHECKSUM_BITS;
+  const messageBits = frameBits.slice(0, messageLength);
+  const expected = crc16Bits(messageBits);
+
+  let valid = true;
+  for (let i = 0; i < CHECKSUM_BITS; i++) {
+    if (frameBits[messageLength + i] !== expected[i]) {
+      valid = false;
+      break;
+    }
+  }
+
+  return { messageBits, valid };
+}
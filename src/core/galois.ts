@@ -0,0 +1,109 @@
+/**
+ * GF(2^8) arithmetic with the primitive polynomial x^8 + x^4 + x^3 + x^2 + 1,
+ * shared by the BCH and Reed-Solomon codecs.
+ */
+const PRIMITIVE_POLY = 0x11d;
+export const GF_ORDER = 255;
+
+const EXP_TABLE = new Uint8Array(GF_ORDER * 2);
+const LOG_TABLE = new Uint8Array(256);
+
+(() => {
+  let x = 1;
+  for (let i = 0; i < GF_ORDER; i++) {
+    EXP_TABLE[i] = x;
+    LOG_TABLE[x] = i;
+    x <<= 1;
+    if (x & 0x100) {
+      x ^= PRIMITIVE_POLY;
+    }
+  }
+  for (let i = GF_ORDER; i < GF_ORDER * 2; i++) {
+    EXP_TABLE[i] = EXP_TABLE[i - GF_ORDER];
+  }
+})();
+
+export function gfMul(a: number, b: number): number {
+  if (a === 0 || b === 0) return 0;
+  return EXP_TABLE[LOG_TABLE[a] + LOG_TABLE[b]];
+}
+
+export function gfDiv(a: number, b: number): number {
+  if (b === 0) throw new Error('Division by zero in GF(256)');
+  if (a === 0) return 0;
+  return EXP_TABLE[(LOG_TABLE[a] + GF_ORDER - LOG_TABLE[b]) % GF_ORDER];
+}
+
+export function gfInverse(a: number): number {
+  return gfDiv(1, a);
+}
+
+/**
+ * α^power for any integer power (negative powers wrap around).
+ */
+export function gfAlphaPow(power: number): number {
+  return EXP_TABLE[((power % GF_ORDER) + GF_ORDER) % GF_ORDER];
+}
+
+export function gfPow(a: number, power: number): number {
+  if (a === 0) return power === 0 ? 1 : 0;
+  return gfAlphaPow(LOG_TABLE[a] * power);
+}
+
+// Polynomials are arrays of coefficients, highest degree first.
+
+export function polyScale(p: number[], x: number): number[] {
+  return p.map((c) => gfMul(c, x));
+}
+
+export function polyAdd(p: number[], q: number[]): number[] {
+  const r = new Array<number>(Math.max(p.length, q.length)).fill(0);
+  for (let i = 0; i < p.length; i++) {
+    r[i + r.length - p.length] = p[i];
+  }
+  for (let i = 0; i < q.length; i++) {
+    r[i + r.length - q.length] ^= q[i];
+  }
+  return r;
+}
+
+export function polyMul(p: number[], q: number[]): number[] {
+  const r = new Array<number>(p.length + q.length - 1).fill(0);
+  for (let j = 0; j < q.length; j++) {
+    for (let i = 0; i < p.length; i++) {
+      r[i + j] ^= gfMul(p[i], q[j]);
+    }
+  }
+  return r;
+}
+
+export function polyEval(p: number[], x: number): number {
+  let y = p[0];
+  for (let i = 1; i < p.length; i++) {
+    y = gfMul(y, x) ^ p[i];
+  }
+  return y;
+}
+
+/**
+ * Synthetic division by a monic divisor; returns quotient and remainder.
+ */
+export function polyDivMonic(
+  dividend: number[],
+  divisor: number[]
+): { quotient: number[]; remainder: number[] } {
+  const out = dividend.slice();
+  const steps = dividend.length - (divisor.length - 1);
+  for (let i = 0; i < steps; i++) {
+    const coef = out[i];
+    if (coef !== 0) {
+      for (let j = 1; j < divisor.length; j++) {
+        if (divisor[j] !== 0) {
+          out[i + j] ^= gfMul(divisor[j], coef);
+        }
+      }
+    }
+  }
+  const separator = out.length - (divisor.length - 1);
+  return { quotient: out.slice(0, separator), remainder: out.slice(separator) };
+}
@@ -0,0 +1,152 @@
+import {
+  HEADER_BITS,
+  HEADER_EXTENSION_BITS,
+  HEADER_EXTENSION_PARTS,
+  MAX_PAYLOAD_BITS,
+  MIN_PAYLOAD_BITS,
+  PAYLOAD_BITS,
+} from './constants';
+import { DEFAULT_ECC_SCHEME, ECC_SCHEMES, type EccScheme } from './ecc';
+import { assertPayloadBits } from './frame';
+import { assertQimStep, QIM_STEP_UNIT } from './qim';
+
+/**
+ * Fields embedded in the clear (unkeyed placement) alongside the message.
+ */
+export type WatermarkHeader = {
+  /** Identifier of the key the body was embedded with (0-255) */
+  keyId: number;
+  /** Error-correcting code the body was encoded with */
+  ecc: EccScheme;
+  /** Lattice step of a body embedded with QIM rather than sign modulation */
+  qimStep?: number;
+  /** Whether the body is also embedded in the image's chroma */
+  chroma?: boolean;
+  /** Length of the message in bits, when not `PAYLOAD_BITS` */
+  payloadBits?: number;
+};
+
+/**
+ * ECC field value announcing a header extension, which then holds the ECC
+ * scheme along with the fields that did not fit. Luminance-only,
+ * sign-modulated marks never set it, so their headers read as they always
+ * have. The first part of the extension uses the same code in its own ECC
+ * field to announce the second part.
+ */
+const EXTENDED_CODE = 3;
+
+function hasCustomPayloadLength(header: WatermarkHeader): boolean {
+  return header.payloadBits !== undefined && header.payloadBits !== PAYLOAD_BITS;
+}
+
+/**
+ * Whether a header needs an extension for its fields.
+ */
+function needsExtension(header: WatermarkHeader): boolean {
+  return header.qimStep !== undefined || header.chroma === true || hasCustomPayloadLength(header);
+}
+
+function writeField(bits: Uint8Array, offset: number, width: number, value: number): void {
+  for (let i = 0; i < width; i++) {
+    bits[offset + i] = (value >> (width - 1 - i)) & 1;
+  }
+}
+
+function readField(bits: Uint8Array, offset: number, width: number): number {
+  let value = 0;
+  for (let i = 0; i < width; i++) {
+    value = (value << 1) | (bits[offset + i] & 1);
+  }
+  return value;
+}
+
+export function encodeHeader(header: WatermarkHeader): Uint8Array {
+  const { keyId, ecc } = header;
+  if (!Number.isInteger(keyId) || keyId < 0 || keyId > 255) {
+    throw new Error(`keyId must be an integer between 0 and 255, got ${keyId}`);
+  }
+  const eccIndex = ECC_SCHEMES.indexOf(ecc);
+  if (eccIndex < 0) {
+    throw new Error(`Unknown ECC scheme: ${ecc}`);
+  }
+
+  const bits = new Uint8Array(HEADER_BITS);
+  writeField(bits, 0, 8, keyId);
+  writeField(bits, 8, 2, needsExtension(header) ? EXTENDED_CODE : eccIndex);
+  return bits;
+}
+
+/**
+ * The extension of a header, or null when it needs none. Its first part
+ * holds the ECC scheme (2 bits), a chroma flag, a QIM flag and the QIM
+ * step (4 bits). A message of other than `PAYLOAD_BITS` bits adds a second
+ * part with the ECC scheme (2 bits) and the message length in bytes, less
+ * one (6 bits).
+ */
+export function encodeHeaderExtension(header: WatermarkHeader): Uint8Array | null {
+  if (!needsExtension(header)) {
+    return null;
+  }
+  if (header.qimStep !== undefined) {
+    assertQimStep(header.qimStep);
+  }
+  const eccIndex = ECC_SCHEMES.indexOf(header.ecc);
+  const custom = hasCustomPayloadLength(header);
+
+  const bits = new Uint8Array(HEADER_EXTENSION_BITS * (custom ? HEADER_EXTENSION_PARTS : 1));
+  writeField(bits, 0, 2, custom ? EXTENDED_CODE : eccIndex);
+  writeField(bits, 2, 1, header.chroma ? 1 : 0);
+  writeField(bits, 3, 1, header.qimStep === undefined ? 0 : 1);
+  writeField(bits, 4, 4, header.qimStep === undefined ? 0 : header.qimStep / QIM_STEP_UNIT - 1);
+  if (custom) {
+    assertPayloadBits(header.payloadBits!);
+    writeField(bits, HEADER_EXTENSION_BITS, 2, eccIndex);
+    writeField(bits, HEADER_EXTENSION_BITS + 2, 6, header.payloadBits! / 8 - 1);
+  }
+  return bits;
+}
+
+/**
+ * Whether a header announces an extension, to be read before decoding it.
+ */
+export function hasHeaderExtension(bits: Uint8Array): boolean {
+  return readField(bits, 8, 2) === EXTENDED_CODE;
+}
+
+/**
+ * Message length in the second part of an extension, or undefined when it
+ * is out of range.
+ */
+function decodePayloadBits(extension: Uint8Array): number | undefined {
+  const bitCount = (readField(extension, HEADER_EXTENSION_BITS + 2, 6) + 1) * 8;
+  return bitCount >= MIN_PAYLOAD_BITS && bitCount <= MAX_PAYLOAD_BITS ? bitCount : undefined;
+}
+
+/**
+ * Decode a header and, when it announces one, its extension: the first
+ * part, or both parts when the first announces the second.
+ */
+export function decodeHeader(bits: Uint8Array, extension?: Uint8Array): WatermarkHeader {
+  const keyId = readField(bits, 0, 8);
+  if (hasHeaderExtension(bits) && extension) {
+    const eccCode = readField(extension, 0, 2);
+    const secondPart =
+      eccCode === EXTENDED_CODE &&
+      extension.length >= HEADER_EXTENSION_BITS * HEADER_EXTENSION_PARTS;
+    const eccIndex = secondPart ? readField(extension, HEADER_EXTENSION_BITS, 2) : eccCode;
+    return {
+      keyId,
+      ecc: ECC_SCHEMES[eccIndex] ?? DEFAULT_ECC_SCHEME,
+      qimStep: readField(extension, 3, 1)
+        ? (readField(extension, 4, 4) + 1) * QIM_STEP_UNIT
+        : undefined,
+      chroma: readField(extension, 2, 1) ? true : undefined,
+      payloadBits: secondPart ? decodePayloadBits(extension) : undefined,
+    };
+  }
+  return {
+    keyId,
+    // The extension code without an extension reads as the default scheme
+    ecc: ECC_SCHEMES[readField(bits, 8, 2)] ?? DEFAULT_ECC_SCHEME,
+  };
+}
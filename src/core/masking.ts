@@ -0,0 +1,83 @@
+import { BLOCK_SIZE, EMBEDDING_STRENGTH } from './constants';
+
+/**
+ * Perceptual masking after Watson's DCT model: how far each coefficient of
+ * a block can move before the change becomes visible. The frequency
+ * sensitivity table gives the threshold on a mid-grey flat block; brighter
+ * blocks raise it (luminance masking) and so does energy already present
+ * in the coefficient (contrast masking), which is why flat paper shows
+ * ringing that a textured photo hides.
+ */
+
+/** Visibility thresholds of an orthonormal 8x8 DCT, row-major (Watson 1993) */
+const FREQUENCY_THRESHOLDS = Float32Array.from([
+  1.4, 1.01, 1.16, 1.66, 2.4, 3.43, 4.79, 6.56,
+  1.01, 1.45, 1.32, 1.52, 2.0, 2.71, 3.67, 4.93,
+  1.16, 1.32, 2.24, 2.59, 2.98, 3.64, 4.6, 5.88,
+  1.66, 1.52, 2.59, 3.77, 4.55, 5.3, 6.28, 7.6,
+  2.4, 2.0, 2.98, 4.55, 6.15, 7.46, 8.71, 10.17,
+  3.43, 2.71, 3.64, 5.3, 7.46, 9.62, 11.58, 13.51,
+  4.79, 3.67, 4.6, 6.28, 8.71, 11.58, 14.5, 17.29,
+  6.56, 4.93, 5.88, 7.6, 10.17, 13.51, 17.29, 21.15,
+]);
+
+/** Exponents of the luminance and contrast masking terms */
+const LUMINANCE_EXPONENT = 0.649;
+const CONTRAST_EXPONENT = 0.7;
+
+/**
+ * Masking (slack over the flat-block threshold) at which a coefficient
+ * takes the full EMBEDDING_STRENGTH; weaker or stronger masking scales the
+ * strength in proportion, within bounds. Flat mid-grey blocks get half.
+ */
+const REFERENCE_MASKING = 2;
+const MIN_MASKING = 0.4;
+const MAX_MASKING = 2.5;
+
+/**
+ * Just-noticeable change of one coefficient of a transformed block.
+ * `meanDc` is the average DC coefficient over the image, which sets the
+ * adaptation level luminance masking is measured against.
+ */
+export function coefficientSlack(dctBlock: Float32Array, coeffIdx: number, meanDc: number): number {
+  const luminance = meanDc > 0 ? Math.max(dctBlock[0], 1) / meanDc : 1;
+  const threshold = FREQUENCY_THRESHOLDS[coeffIdx] * Math.pow(luminance, LUMINANCE_EXPONENT);
+  const contrast =
+    Math.pow(Math.abs(dctBlock[coeffIdx]), CONTRAST_EXPONENT) *
+    Math.pow(threshold, 1 - CONTRAST_EXPONENT);
+  return Math.max(threshold, contrast);
+}
+
+/**
+ * Embedding strength for one coefficient: EMBEDDING_STRENGTH scaled by
+ * `strength`, and by how far the block's content masks the coefficient when
+ * `perceptual` is set. Frequency sensitivity is left out: the embedding
+ * band is fixed, and weighting by it would push the higher coefficients of
+ * flat blocks above the unmasked strength.
+ */
+export function coefficientStrength(
+  dctBlock: Float32Array,
+  coeffIdx: number,
+  meanDc: number,
+  strength: number,
+  perceptual: boolean
+): number {
+  if (!perceptual) {
+    return EMBEDDING_STRENGTH * strength;
+  }
+  const masking =
+    coefficientSlack(dctBlock, coeffIdx, meanDc) /
+    (FREQUENCY_THRESHOLDS[coeffIdx] * REFERENCE_MASKING);
+  return EMBEDDING_STRENGTH * strength * Math.max(MIN_MASKING, Math.min(MAX_MASKING, masking));
+}
+
+/**
+ * Average DC coefficient of the image's blocks, from its mean luminance.
+ */
+export function meanDcCoefficient(y: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < y.length; i++) {
+    sum += y[i];
+  }
+  return y.length > 0 ? (sum / y.length) * BLOCK_SIZE : 0;
+}
@@ -0,0 +1,101 @@
+/**
+ * The eight orientations an image can be given without resampling: a
+ * quarter-turn rotation, optionally after mirroring left to right. They are
+ * the same eight an EXIF orientation tag can describe.
+ */
+export type ImageOrientation = {
+  /** Clockwise rotation in degrees */
+  rotation: 0 | 90 | 180 | 270;
+  /** Mirrored left to right before rotating */
+  mirrored: boolean;
+};
+
+export const IDENTITY_ORIENTATION: ImageOrientation = { rotation: 0, mirrored: false };
+
+/** All eight orientations, identity first */
+export const ORIENTATIONS: readonly ImageOrientation[] = [false, true].flatMap((mirrored) =>
+  ([0, 90, 180, 270] as const).map((rotation) => ({ rotation, mirrored }))
+);
+
+/** EXIF orientation tag values 1-8, in the same terms */
+const EXIF_ORIENTATIONS: readonly ImageOrientation[] = [
+  { rotation: 0, mirrored: false },
+  { rotation: 0, mirrored: true },
+  { rotation: 180, mirrored: false },
+  { rotation: 180, mirrored: true },
+  { rotation: 270, mirrored: true },
+  { rotation: 90, mirrored: false },
+  { rotation: 90, mirrored: true },
+  { rotation: 270, mirrored: false },
+];
+
+/**
+ * How the stored pixels are turned for display under an EXIF orientation
+ * tag. Missing or out-of-range tags mean no change.
+ */
+export function exifOrientation(tag: number | undefined): ImageOrientation {
+  return (tag && EXIF_ORIENTATIONS[tag - 1]) || IDENTITY_ORIENTATION;
+}
+
+export function isIdentityOrientation({ rotation, mirrored }: ImageOrientation): boolean {
+  return rotation === 0 && !mirrored;
+}
+
+export function sameOrientation(a: ImageOrientation, b: ImageOrientation): boolean {
+  return a.rotation === b.rotation && a.mirrored === b.mirrored;
+}
+
+/**
+ * Undo an orientation: rotating back is enough, except that a mirrored
+ * orientation is its own inverse.
+ */
+export function inverseOrientation(orientation: ImageOrientation): ImageOrientation {
+  if (orientation.mirrored) {
+    return orientation;
+  }
+  const rotation = (360 - orientation.rotation) % 360;
+  return { rotation: rotation as ImageOrientation['rotation'], mirrored: false };
+}
+
+/**
+ * Copy of the image turned to the given orientation.
+ */
+export function orientImageData(imageData: ImageData, orientation: ImageOrientation): ImageData {
+  const { width, height, data } = imageData;
+  if (isIdentityOrientation(orientation)) {
+    return imageData;
+  }
+  const sideways = orientation.rotation === 90 || orientation.rotation === 270;
+  const outWidth = sideways ? height : width;
+  const outHeight = sideways ? width : height;
+
+  // Where pixel (x, y) lands; the map is affine, so it is found from three
+  // pixels and then stepped through
+  const target = (x: number, y: number) => {
+    const mx = orientation.mirrored ? width - 1 - x : x;
+    switch (orientation.rotation) {
+      case 90:
+        return mx * outWidth + (height - 1 - y);
+      case 180:
+        return (height - 1 - y) * outWidth + (width - 1 - mx);
+      case 270:
+        return (width - 1 - mx) * outWidth + y;
+      default:
+        return y * outWidth + mx;
+    }
+  };
+  const origin = target(0, 0);
+  const stepX = target(1, 0) - origin;
+  const stepY = target(0, 1) - origin;
+
+  // Pixels move whole, as 32-bit words
+  const source = new Uint32Array(data.slice().buffer);
+  const out = new Uint32Array(source.length);
+  for (let y = 0; y < height; y++) {
+    let to = origin + y * stepY;
+    for (let x = 0; x < width; x++, to += stepX) {
+      out[to] = source[y * width + x];
+    }
+  }
+  return new ImageData(new Uint8ClampedArray(out.buffer), outWidth, outHeight);
+}
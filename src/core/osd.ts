@@ -0,0 +1,124 @@
+import { logBinomialTail } from '../utils/statistics';
+
+/**
+ * Ordered statistics decoding for binary linear codes: the most reliable
+ * independent positions are taken at face value and re-encoded, then each
+ * of them is flipped in turn (order 1). Unlike algebraic decoders it keeps
+ * working when many bits are near-erasures.
+ */
+
+/** Bits with a smaller |LLR| count as erasures when judging a candidate */
+export const OSD_RELIABLE_LLR = 1;
+
+/**
+ * Largest accepted probability that noise fits the reliable bits as well as
+ * the decoded candidate does.
+ */
+export const OSD_MAX_CHANCE_FIT = 1e-6;
+
+export type OsdCandidate = {
+  codeword: Uint8Array;
+  /** Correlation with the LLRs; higher is more likely */
+  metric: number;
+};
+
+/**
+ * Generator matrix rows: the codeword of each unit data vector.
+ */
+export function generatorRows(
+  dataLength: number,
+  encode: (bits: Uint8Array) => Uint8Array
+): Uint8Array[] {
+  return Array.from({ length: dataLength }, (_, i) => {
+    const unit = new Uint8Array(dataLength);
+    unit[i] = 1;
+    return encode(unit);
+  });
+}
+
+function correlate(llrs: Float32Array, codeword: Uint8Array): number {
+  let total = 0;
+  for (let i = 0; i < codeword.length; i++) {
+    total += codeword[i] ? llrs[i] : -llrs[i];
+  }
+  return total;
+}
+
+/**
+ * Decode `llrs` against the code spanned by `rows`. Returns null when the
+ * reliable bits outside the basis are too few, or agree too poorly with the
+ * candidate, to rule out a chance fit.
+ */
+export function osdDecode(llrs: Float32Array, rows: Uint8Array[]): OsdCandidate | null {
+  const n = llrs.length;
+  const k = rows.length;
+  const matrix = rows.map((row) => row.slice());
+  const order = Array.from({ length: n }, (_, i) => i).sort(
+    (a, b) => Math.abs(llrs[b]) - Math.abs(llrs[a])
+  );
+
+  // Gaussian elimination over GF(2), pivoting on the most reliable columns
+  const pivots: number[] = [];
+  for (const col of order) {
+    if (pivots.length === k) break;
+    const rank = pivots.length;
+    let pivot = -1;
+    for (let r = rank; r < k; r++) {
+      if (matrix[r][col]) {
+        pivot = r;
+        break;
+      }
+    }
+    if (pivot < 0) continue;
+
+    [matrix[rank], matrix[pivot]] = [matrix[pivot], matrix[rank]];
+    for (let r = 0; r < k; r++) {
+      if (r !== rank && matrix[r][col]) {
+        const row = matrix[r];
+        const pivotRow = matrix[rank];
+        for (let c = 0; c < n; c++) {
+          row[c] ^= pivotRow[c];
+        }
+      }
+    }
+    pivots.push(col);
+  }
+
+  // Order 0: hard decisions on the most reliable basis
+  const base = new Uint8Array(n);
+  for (let r = 0; r < pivots.length; r++) {
+    if (llrs[pivots[r]] > 0) {
+      for (let c = 0; c < n; c++) {
+        base[c] ^= matrix[r][c];
+      }
+    }
+  }
+
+  let best: OsdCandidate = { codeword: base, metric: correlate(llrs, base) };
+  for (let r = 0; r < pivots.length; r++) {
+    const candidate = base.slice();
+    for (let c = 0; c < n; c++) {
+      candidate[c] ^= matrix[r][c];
+    }
+    const metric = correlate(llrs, candidate);
+    if (metric > best.metric) {
+      best = { codeword: candidate, metric };
+    }
+  }
+
+  // Reliable bits outside the basis act as parity checks on the candidate;
+  // each of the k + 1 candidates tried gets a chance to fit noise
+  const basis = new Set(pivots);
+  let checks = 0;
+  let errors = 0;
+  for (let i = 0; i < n; i++) {
+    if (!basis.has(i) && Math.abs(llrs[i]) >= OSD_RELIABLE_LLR) {
+      checks++;
+      if ((llrs[i] > 0 ? 1 : 0) !== best.codeword[i]) {
+        errors++;
+      }
+    }
+  }
+  const logChance = logBinomialTail(checks, checks - errors) + Math.log(pivots.length + 1);
+  return logChance <= Math.log(OSD_MAX_CHANCE_FIT) ? best : null;
+}
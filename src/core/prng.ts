@@ -1,4 +1,87 @@
-export class SeededPRNG {
+/**
+ * Minimal interface shared by the current and legacy generators.
+ */
+export interface RandomSource {
+  next(): number;
+  nextInt(max: number): number;
+}
+
+function rotl(x: number, k: number): number {
+  return (x << k) | (x >>> (32 - k));
+}
+
+function splitMix32(x: number): number {
+  x = (x + 0x9e3779b9) | 0;
+  x = Math.imul(x ^ (x >>> 16), 0x85ebca6b);
+  x = Math.imul(x ^ (x >>> 13), 0xc2b2ae35);
+  return (x ^ (x >>> 16)) >>> 0;
+}
+
+/**
+ * xoshiro128** seeded from arbitrary bytes. Every seed byte influences the
+ * 128-bit state, so keyed seeds keep their full strength.
+ */
+export class SeededPRNG implements RandomSource {
+  private state0: number;
+  private state1: number;
+  private state2: number;
+  private state3: number;
+
+  constructor(seed: Uint8Array) {
+    // FNV-1a over four interleaved lanes, then scrambled
+    const lanes = [0x811c9dc5, 0x01000193, 0x9e3779b9, 0x6a09e667];
+    for (let i = 0; i < seed.length; i++) {
+      const lane = i % 4;
+      lanes[lane] = Math.imul(lanes[lane] ^ seed[i], 0x01000193);
+    }
+    lanes[0] ^= seed.length;
+
+    let s0 = splitMix32(lanes[0]);
+    let s1 = splitMix32(lanes[1] ^ s0);
+    let s2 = splitMix32(lanes[2] ^ s1);
+    let s3 = splitMix32(lanes[3] ^ s2);
+
+    if (s0 === 0 && s1 === 0 && s2 === 0 && s3 === 0) {
+      s0 = 0x12345678;
+      s1 = 0x9abcdef0;
+      s2 = 0xfedcba98;
+      s3 = 0x76543210;
+    }
+
+    this.state0 = s0;
+    this.state1 = s1;
+    this.state2 = s2;
+    this.state3 = s3;
+  }
+
+  next(): number {
+    const result = Math.imul(rotl(Math.imul(this.state1, 5), 7), 9);
+    const t = this.state1 << 9;
+
+    this.state2 ^= this.state0;
+    this.state3 ^= this.state1;
+    this.state1 ^= this.state2;
+    this.state0 ^= this.state3;
+    this.state2 ^= t;
+    this.state3 = rotl(this.state3, 11);
+
+    return (result >>> 0) / 0x100000000;
+  }
+
+  nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  nextIntRange(min: number, max: number): number {
+    return min + this.nextInt(max - min);
+  }
+}
+
+/**
+ * The generator used by the first releases. Its sequence repeats after
+ * 192 outputs, so it is only kept to read marks embedded with it.
+ */
+export class LegacySeededPRNG implements RandomSource {
   private state0: number;
   private state1: number;
   private state2: number;
@@ -50,8 +133,4 @@ export class SeededPRNG {
   nextInt(max: number): number {
     return Math.floor(this.next() * max);
   }
-
-  nextIntRange(min: number, max: number): number {
-    return min + this.nextInt(max - min);
-  }
 }
@@ -0,0 +1,80 @@
+import { SeededPRNG } from './prng';
+
+/**
+ * Dither-modulated quantization index modulation: a coefficient carries a
+ * bit by sitting on one of two interleaved lattices of spacing `step`, the
+ * one for bit 1 offset by half a step from the one for bit 0, and both
+ * shifted by a secret dither. Embedding moves a coefficient to the nearest
+ * point of its lattice, never more than half a step away, so unlike sign
+ * modulation the distortion is bounded whatever the coefficient's value. A
+ * read survives any later change smaller than a quarter step.
+ */
+
+/**
+ * How the body's coefficients carry their bits.
+ * - 'sign': pushed to a positive or negative value, the original scheme
+ * - 'qim': quantized onto one of two dithered lattices
+ */
+export type Modulation = 'sign' | 'qim';
+
+/** Lattice step used unless told otherwise, in DCT coefficient units */
+export const DEFAULT_QIM_STEP = 24;
+
+/** Steps are recorded in the header as multiples of this, up to 16 of them */
+export const QIM_STEP_UNIT = 4;
+export const MAX_QIM_STEP = 16 * QIM_STEP_UNIT;
+
+/** Seed byte appended to the body seed for the dither stream */
+const DITHER_TAG = 0x51;
+
+export function assertQimStep(step: number): void {
+  if (!Number.isInteger(step / QIM_STEP_UNIT) || step < QIM_STEP_UNIT || step > MAX_QIM_STEP) {
+    throw new Error(
+      `qimStep must be a multiple of ${QIM_STEP_UNIT} between ${QIM_STEP_UNIT} and ` +
+        `${MAX_QIM_STEP}, got ${step}`
+    );
+  }
+}
+
+/**
+ * One dither in [0, step) per encoded bit, drawn from the (possibly keyed)
+ * body seed, so the lattices cannot be found without the key.
+ */
+export function qimDithers(
+  bodySeed: Uint8Array,
+  encodedLength: number,
+  step: number
+): Float32Array {
+  const prng = new SeededPRNG(Uint8Array.of(...bodySeed, DITHER_TAG));
+  return Float32Array.from({ length: encodedLength }, () => prng.next() * step);
+}
+
+/**
+ * The point of the lattice for `bit` nearest to `value`.
+ */
+export function quantizeToLattice(
+  value: number,
+  bit: number,
+  step: number,
+  dither: number
+): number {
+  const offset = dither + (bit ? step / 2 : 0);
+  return Math.round((value - offset) / step) * step + offset;
+}
+
+/**
+ * Soft reading of a coefficient in [-1, 1]: +1 on the lattice for bit 1,
+ * -1 on the lattice for bit 0, 0 halfway between them.
+ */
+export function latticeReading(value: number, step: number, dither: number): number {
+  return -Math.cos((2 * Math.PI * (value - dither)) / step);
+}
+
+/**
+ * How far `value` could move before it reads as the other bit: a quarter
+ * step on the lattice, less the distance from it, and negative once it
+ * already reads wrong.
+ */
+export function latticeMargin(value: number, bit: number, step: number, dither: number): number {
+  return step / 4 - Math.abs(value - quantizeToLattice(value, bit, step, dither));
+}
@@ -0,0 +1,196 @@
+import {
+  GF_ORDER,
+  gfAlphaPow,
+  gfDiv,
+  gfInverse,
+  gfMul,
+  polyAdd,
+  polyDivMonic,
+  polyEval,
+  polyMul,
+  polyScale,
+} from './galois';
+
+/**
+ * Reed-Solomon over GF(2^8) with generator roots α^0..α^(nsym-1).
+ * Corrects e symbol errors and f erasures as long as 2e + f <= nsym.
+ */
+
+const generatorCache = new Map<number, number[]>();
+
+function generatorPoly(nsym: number): number[] {
+  let g = generatorCache.get(nsym);
+  if (!g) {
+    g = [1];
+    for (let i = 0; i < nsym; i++) {
+      g = polyMul(g, [1, gfAlphaPow(i)]);
+    }
+    generatorCache.set(nsym, g);
+  }
+  return g;
+}
+
+export function rsEncode(data: Uint8Array, nsym: number): Uint8Array {
+  if (data.length + nsym > GF_ORDER) {
+    throw new Error(`Reed-Solomon codeword too long: ${data.length + nsym} > ${GF_ORDER}`);
+  }
+  const gen = generatorPoly(nsym);
+  const padded = [...data, ...new Array<number>(nsym).fill(0)];
+  const { remainder } = polyDivMonic(padded, gen);
+
+  const out = new Uint8Array(data.length + nsym);
+  out.set(data);
+  out.set(remainder, data.length);
+  return out;
+}
+
+export type RsDecodeResult = {
+  data: Uint8Array;
+  /** Symbols corrected at unflagged positions */
+  correctedErrors: number;
+  ok: boolean;
+};
+
+function syndromes(codeword: number[], nsym: number): number[] {
+  const synd = new Array<number>(nsym);
+  for (let i = 0; i < nsym; i++) {
+    synd[i] = polyEval(codeword, gfAlphaPow(i));
+  }
+  return synd;
+}
+
+function errataLocator(coefPositions: number[]): number[] {
+  let loc = [1];
+  for (const p of coefPositions) {
+    loc = polyMul(loc, polyAdd([1], [gfAlphaPow(p), 0]));
+  }
+  return loc;
+}
+
+function forneySyndromes(synd: number[], erasures: number[], length: number): number[] {
+  const fsynd = synd.slice();
+  for (const pos of erasures) {
+    const x = gfAlphaPow(length - 1 - pos);
+    for (let j = 0; j < fsynd.length - 1; j++) {
+      fsynd[j] = gfMul(fsynd[j], x) ^ fsynd[j + 1];
+    }
+  }
+  return fsynd;
+}
+
+function errorLocator(synd: number[], nsym: number, erasureCount: number): number[] | null {
+  let errLoc = [1];
+  let oldLoc = [1];
+  for (let i = 0; i < nsym - erasureCount; i++) {
+    let delta = synd[i];
+    for (let j = 1; j < errLoc.length && j <= i; j++) {
+      delta ^= gfMul(errLoc[errLoc.length - 1 - j], synd[i - j]);
+    }
+    oldLoc = [...oldLoc, 0];
+    if (delta !== 0) {
+      if (oldLoc.length > errLoc.length) {
+        const newLoc = polyScale(oldLoc, delta);
+        oldLoc = polyScale(errLoc, gfInverse(delta));
+        errLoc = newLoc;
+      }
+      errLoc = polyAdd(errLoc, polyScale(oldLoc, delta));
+    }
+  }
+  while (errLoc.length > 0 && errLoc[0] === 0) {
+    errLoc.shift();
+  }
+  const errs = errLoc.length - 1;
+  if (errs * 2 + erasureCount > nsym) {
+    return null;
+  }
+  return errLoc;
+}
+
+function findErrors(errLocReversed: number[], length: number): number[] | null {
+  const errs = errLocReversed.length - 1;
+  const positions: number[] = [];
+  for (let i = 0; i < length; i++) {
+    if (polyEval(errLocReversed, gfAlphaPow(i)) === 0) {
+      positions.push(length - 1 - i);
+    }
+  }
+  return positions.length === errs ? positions : null;
+}
+
+function correctErrata(codeword: number[], synd: number[], positions: number[]): number[] {
+  const coefPositions = positions.map((p) => codeword.length - 1 - p);
+  const loc = errataLocator(coefPositions);
+
+  // Error evaluator Ω(x) = S(x)·Λ(x) mod x^(deg Λ + 1), with S(x) shifted
+  // by one to account for the first generator root being α^0
+  const product = polyMul([0, ...synd].reverse(), loc);
+  const { remainder } = polyDivMonic(product, [1, ...new Array<number>(loc.length).fill(0)]);
+  const evaluator = remainder.slice().reverse();
+
+  const xs = coefPositions.map((p) => gfAlphaPow(p));
+  const corrected = codeword.slice();
+  for (let i = 0; i < xs.length; i++) {
+    const xiInv = gfInverse(xs[i]);
+    let locPrime = 1;
+    for (let j = 0; j < xs.length; j++) {
+      if (j !== i) {
+        locPrime = gfMul(locPrime, 1 ^ gfMul(xiInv, xs[j]));
+      }
+    }
+    const y = gfMul(xs[i], polyEval(evaluator.slice().reverse(), xiInv));
+    corrected[positions[i]] ^= gfDiv(y, locPrime);
+  }
+  return corrected;
+}
+
+/**
+ * Decode a (possibly corrupted) codeword. `erasures` lists symbol indices
+ * known to be unreliable.
+ */
+export function rsDecode(
+  codeword: Uint8Array,
+  nsym: number,
+  erasures: number[] = []
+): RsDecodeResult {
+  const dataLength = codeword.length - nsym;
+  const received = Array.from(codeword);
+  const fail = (): RsDecodeResult => ({
+    data: codeword.slice(0, dataLength),
+    correctedErrors: 0,
+    ok: false,
+  });
+
+  if (erasures.length > nsym) {
+    return fail();
+  }
+  for (const pos of erasures) {
+    received[pos] = 0;
+  }
+
+  const synd = syndromes(received, nsym);
+  if (synd.every((s) => s === 0)) {
+    return { data: Uint8Array.from(received.slice(0, dataLength)), correctedErrors: 0, ok: true };
+  }
+
+  const fsynd = forneySyndromes(synd, erasures, received.length);
+  const errLoc = errorLocator(fsynd, nsym, erasures.length);
+  if (!errLoc) {
+    return fail();
+  }
+  const errorPositions = findErrors(errLoc.slice().reverse(), received.length);
+  // An error located on an erased symbol means the locator is inconsistent
+  if (!errorPositions || errorPositions.some((pos) => erasures.includes(pos))) {
+    return fail();
+  }
+
+  const corrected = correctErrata(received, synd, [...erasures, ...errorPositions]);
+  if (syndromes(corrected, nsym).some((s) => s !== 0)) {
+    return fail();
+  }
+
+  return {
+    data: Uint8Array.from(corrected.slice(0, dataLength)),
+    correctedErrors: errorPositions.length,
+    ok: true,
+  };
+}
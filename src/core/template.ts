@@ -0,0 +1,356 @@
+import { fftMagnitude2d } from './fft';
+
+/**
+ * Synchronization template: a few faint sinusoids added to the luminance,
+ * each showing up as a pair of peaks in the magnitude of the image's DFT.
+ * Scaling an image by s moves the peaks s times closer to the origin and
+ * rotating it rotates them by the same angle, while translation leaves the
+ * magnitude alone, so matching the observed peaks against the known ones
+ * recovers scale and rotation even after cropping.
+ */
+
+/**
+ * Template peaks as (cycles per pixel, degrees), irregular so that no
+ * rotation maps them onto themselves
+ */
+const TEMPLATE_PEAKS: ReadonlyArray<[number, number]> = [
+  [0.11, 12],
+  [0.145, 33],
+  [0.18, 58],
+  [0.12, 79],
+  [0.165, 101],
+  [0.095, 124],
+  [0.19, 147],
+  [0.135, 166],
+];
+
+/** Amplitude of each sinusoid in luminance levels */
+const TEMPLATE_AMPLITUDE = 0.75;
+
+/** Bounds of the DFT window: smaller images are not searched */
+const MIN_WINDOW = 128;
+const MAX_WINDOW = 1024;
+
+/** Half-width of the neighbourhood peaks are measured against */
+const WHITENING_RADIUS = 4;
+
+/** Searched scales and rotations (degrees), with the coarse grid steps */
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 2;
+const SCALE_STEP = 0.01;
+const ROTATION_STEP = 0.5;
+
+/** Neighbourhood searched for each peak once the coarse transform is known */
+const PEAK_SEARCH_RADIUS = 1;
+
+/** Located peaks must rise this far (log magnitude) above their surroundings */
+const MIN_PEAK_HEIGHT = 1;
+
+/** Peaks needed to refine the coarse estimate */
+const MIN_LOCATED_PEAKS = 3;
+
+/** How far the best coarse score must stand out from the rest, in standard deviations */
+const MIN_TEMPLATE_Z = 7;
+
+/** Departures from the identity smaller than these are measurement noise */
+const SCALE_TOLERANCE = 0.004;
+const ROTATION_TOLERANCE = 0.25;
+
+export type GeometricTransform = {
+  /** Size of the image relative to the original, e.g. 0.5 after halving */
+  scale: number;
+  /** Clockwise rotation in degrees, in (-90, 90] */
+  rotation: number;
+};
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Add the template to a luminance plane in place.
+ */
+export function addTemplate(y: Float32Array, width: number, height: number): void {
+  for (const [radius, angle] of TEMPLATE_PEAKS) {
+    // cos(a + b) = cos a cos b - sin a sin b, with a along x and b along y
+    const fx = 2 * Math.PI * radius * Math.cos(toRadians(angle));
+    const fy = 2 * Math.PI * radius * Math.sin(toRadians(angle));
+    const cosX = Float32Array.from({ length: width }, (_, x) => Math.cos(fx * x));
+    const sinX = Float32Array.from({ length: width }, (_, x) => Math.sin(fx * x));
+    for (let row = 0; row < height; row++) {
+      const cosY = TEMPLATE_AMPLITUDE * Math.cos(fy * row);
+      const sinY = TEMPLATE_AMPLITUDE * Math.sin(fy * row);
+      const offset = row * width;
+      for (let x = 0; x < width; x++) {
+        y[offset + x] += cosX[x] * cosY - sinX[x] * sinY;
+      }
+    }
+  }
+}
+
+/**
+ * Log-magnitude spectrum of the centre of the image, minus its local mean
+ * so peaks read as their height above the surrounding spectrum.
+ */
+function whitenedSpectrum(y: Float32Array, width: number, height: number, size: number) {
+  const left = Math.floor((width - size) / 2);
+  const top = Math.floor((height - size) / 2);
+
+  let mean = 0;
+  for (let row = 0; row < size; row++) {
+    for (let x = 0; x < size; x++) {
+      mean += y[(top + row) * width + left + x];
+    }
+  }
+  mean /= size * size;
+
+  // Hann window keeps the crop edges from smearing energy across the spectrum
+  const hann = Float64Array.from(
+    { length: size },
+    (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size)
+  );
+  const signal = new Float64Array(size * size);
+  for (let row = 0; row < size; row++) {
+    for (let x = 0; x < size; x++) {
+      signal[row * size + x] = (y[(top + row) * width + left + x] - mean) * hann[row] * hann[x];
+    }
+  }
+
+  const spectrum = fftMagnitude2d(signal, size);
+  for (let i = 0; i < spectrum.length; i++) {
+    spectrum[i] = Math.log1p(spectrum[i]);
+  }
+
+  // Separable circular box filter for the local mean
+  const span = 2 * WHITENING_RADIUS + 1;
+  const horizontal = new Float64Array(size * size);
+  for (let row = 0; row < size; row++) {
+    for (let x = 0; x < size; x++) {
+      let sum = 0;
+      for (let d = -WHITENING_RADIUS; d <= WHITENING_RADIUS; d++) {
+        sum += spectrum[row * size + ((x + d + size) % size)];
+      }
+      horizontal[row * size + x] = sum / span;
+    }
+  }
+  const whitened = new Float64Array(size * size);
+  for (let row = 0; row < size; row++) {
+    for (let x = 0; x < size; x++) {
+      let sum = 0;
+      for (let d = -WHITENING_RADIUS; d <= WHITENING_RADIUS; d++) {
+        sum += horizontal[((row + d + size) % size) * size + x];
+      }
+      whitened[row * size + x] = spectrum[row * size + x] - sum / span;
+    }
+  }
+  return whitened;
+}
+
+function spectrumAt(spectrum: Float64Array, size: number, row: number, x: number): number {
+  return spectrum[(((row % size) + size) % size) * size + (((x % size) + size) % size)];
+}
+
+/**
+ * Position, in bins, of each template peak moved by the transform.
+ */
+function predictPeaks(size: number, scale: number, rotation: number): Array<[number, number]> {
+  const cosR = Math.cos(toRadians(rotation));
+  const sinR = Math.sin(toRadians(rotation));
+  return TEMPLATE_PEAKS.map(([radius, angle]) => {
+    const fx = (radius * Math.cos(toRadians(angle))) / scale;
+    const fy = (radius * Math.sin(toRadians(angle))) / scale;
+    return [(fx * cosR - fy * sinR) * size, (fx * sinR + fy * cosR) * size];
+  });
+}
+
+/**
+ * Sum over the template peaks, moved by the transform, of the strongest
+ * bin within one bin of each; the slack lets a coarse grid find them.
+ */
+function templateScore(spectrum: Float64Array, size: number, scale: number, rotation: number) {
+  let score = 0;
+  for (const [x, row] of predictPeaks(size, scale, rotation)) {
+    const cx = Math.round(x);
+    const cy = Math.round(row);
+    let best = -Infinity;
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        best = Math.max(best, spectrumAt(spectrum, size, cy + dy, cx + dx));
+      }
+    }
+    score += best;
+  }
+  return score;
+}
+
+/**
+ * Sub-bin position of the peak nearest `x`, `row`: the strongest bin
+ * within PEAK_SEARCH_RADIUS, refined by fitting a parabola to the log
+ * magnitude on each axis (exact for a Gaussian-shaped peak). Null when
+ * that bin does not stand out from its surroundings.
+ */
+function locatePeak(
+  spectrum: Float64Array,
+  size: number,
+  x: number,
+  row: number
+): [number, number] | null {
+  let bestX = Math.round(x);
+  let bestY = Math.round(row);
+  let best = -Infinity;
+  for (let dy = -PEAK_SEARCH_RADIUS; dy <= PEAK_SEARCH_RADIUS; dy++) {
+    for (let dx = -PEAK_SEARCH_RADIUS; dx <= PEAK_SEARCH_RADIUS; dx++) {
+      const value = spectrumAt(spectrum, size, Math.round(row) + dy, Math.round(x) + dx);
+      if (value > best) {
+        best = value;
+        bestX = Math.round(x) + dx;
+        bestY = Math.round(row) + dy;
+      }
+    }
+  }
+  if (best < MIN_PEAK_HEIGHT) {
+    return null;
+  }
+
+  const vertex = (before: number, after: number) => {
+    const curvature = before - 2 * best + after;
+    return curvature < 0 ? (0.5 * (before - after)) / curvature : 0;
+  };
+  return [
+    bestX +
+      vertex(
+        spectrumAt(spectrum, size, bestY, bestX - 1),
+        spectrumAt(spectrum, size, bestY, bestX + 1)
+      ),
+    bestY +
+      vertex(
+        spectrumAt(spectrum, size, bestY - 1, bestX),
+        spectrumAt(spectrum, size, bestY + 1, bestX)
+      ),
+  ];
+}
+
+/**
+ * Least-squares scale and rotation mapping the template peaks onto the
+ * located ones: observed = R(rotation) · template / scale.
+ */
+function fitTransform(
+  matches: Array<{ template: [number, number]; observed: [number, number] }>
+): { scale: number; rotation: number } {
+  let dot = 0;
+  let cross = 0;
+  let norm = 0;
+  for (const { template, observed } of matches) {
+    dot += template[0] * observed[0] + template[1] * observed[1];
+    cross += template[0] * observed[1] - template[1] * observed[0];
+    norm += template[0] * template[0] + template[1] * template[1];
+  }
+  return {
+    scale: norm / Math.hypot(dot, cross),
+    rotation: (Math.atan2(cross, dot) * 180) / Math.PI,
+  };
+}
+
+/**
+ * Estimate how the image was scaled and rotated since the template was
+ * embedded. Returns null when no template stands out, or when the image is
+ * too small to search or already at its original geometry.
+ */
+export function estimateTransform(
+  y: Float32Array,
+  width: number,
+  height: number
+): GeometricTransform | null {
+  let size = MIN_WINDOW;
+  if (Math.min(width, height) < size) {
+    return null;
+  }
+  while (size * 2 <= Math.min(width, height, MAX_WINDOW)) {
+    size *= 2;
+  }
+  const spectrum = whitenedSpectrum(y, width, height, size);
+
+  // Coarse grid: scale steps are relative, rotations cover half a turn
+  // because the magnitude of a real image's DFT is point-symmetric
+  let best = { scale: 1, rotation: 0, score: -Infinity };
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let scale = MIN_SCALE; scale <= MAX_SCALE; scale *= 1 + SCALE_STEP) {
+    for (let rotation = -90 + ROTATION_STEP; rotation <= 90; rotation += ROTATION_STEP) {
+      const score = templateScore(spectrum, size, scale, rotation);
+      sum += score;
+      sumSquares += score * score;
+      count++;
+      if (score > best.score) {
+        best = { scale, rotation, score };
+      }
+    }
+  }
+  const mean = sum / count;
+  const deviation = Math.sqrt(Math.max(sumSquares / count - mean * mean, 1e-12));
+  if ((best.score - mean) / deviation < MIN_TEMPLATE_Z) {
+    return null;
+  }
+
+  // Refine from the located peaks, which the coarse grid only pins down
+  // to about a bin
+  const identity = predictPeaks(size, 1, 0);
+  const matches = predictPeaks(size, best.scale, best.rotation).flatMap(([x, row], i) => {
+    const observed = locatePeak(spectrum, size, x, row);
+    return observed ? [{ template: identity[i], observed }] : [];
+  });
+  const refined = matches.length >= MIN_LOCATED_PEAKS ? fitTransform(matches) : best;
+
+  // Components within tolerance of the identity are measurement noise
+  let rotation = refined.rotation > 90 ? refined.rotation - 180 : refined.rotation;
+  rotation = Math.abs(rotation) < ROTATION_TOLERANCE ? 0 : rotation;
+  const scale = Math.abs(refined.scale - 1) < SCALE_TOLERANCE ? 1 : refined.scale;
+  return scale === 1 && rotation === 0 ? null : { scale, rotation };
+}
+
+/**
+ * Undo a transform by resampling the luminance plane (bilinear) back to
+ * the original geometry, about the image centre. Without rotation the
+ * output size is snapped to whole pixels and the scale taken from it, which
+ * is exact when the whole image was resized. Pixels that fall outside the
+ * input are left black, which the reader skips as clipped.
+ */
+export function resampleLuminance(
+  y: Float32Array,
+  width: number,
+  height: number,
+  transform: GeometricTransform
+): { y: Float32Array; width: number; height: number } {
+  const outWidth = Math.max(1, Math.round(width / transform.scale));
+  const outHeight = Math.max(1, Math.round(height / transform.scale));
+  const rotated = transform.rotation !== 0;
+  const scaleX = rotated ? transform.scale : width / outWidth;
+  const scaleY = rotated ? transform.scale : height / outHeight;
+  const cosR = Math.cos(toRadians(transform.rotation));
+  const sinR = Math.sin(toRadians(transform.rotation));
+
+  const out = new Float32Array(outWidth * outHeight);
+  for (let row = 0; row < outHeight; row++) {
+    const dy = (row + 0.5 - outHeight / 2) * scaleY;
+    for (let x = 0; x < outWidth; x++) {
+      const dx = (x + 0.5 - outWidth / 2) * scaleX;
+      const srcX = width / 2 + dx * cosR - dy * sinR - 0.5;
+      const srcY = height / 2 + dx * sinR + dy * cosR - 0.5;
+      const x0 = Math.floor(srcX);
+      const y0 = Math.floor(srcY);
+      if (x0 < 0 || y0 < 0 || x0 + 1 >= width || y0 + 1 >= height) {
+        continue;
+      }
+      const tx = srcX - x0;
+      const ty = srcY - y0;
+      const i = y0 * width + x0;
+      out[row * outWidth + x] =
+        y[i] * (1 - tx) * (1 - ty) +
+        y[i + 1] * tx * (1 - ty) +
+        y[i + width] * (1 - tx) * ty +
+        y[i + width + 1] * tx * ty;
+    }
+  }
+  return { y: out, width: outWidth, height: outHeight };
+}
@@ -0,0 +1,316 @@
+import { SeededPRNG } from './prng';
+import { dctBasisVector } from './dct';
+import { assignExtensionParts, assignSlots, type Slot } from './block-selection';
+import {
+  BLOCK_SIZE,
+  EMBEDDING_STRENGTH,
+  HEADER_BLOCK_SHARE,
+  TILE_BLOCKS,
+  TILE_SYNC_SHARE,
+} from './constants';
+import { binomialTail } from '../utils/statistics';
+
+/**
+ * Tiled layout: the block grid is covered by square tiles of TILE_BLOCKS
+ * blocks a side, all carrying the same sync pattern, header and body at
+ * the same tile-local positions. Any crop at least one tile wide holds
+ * every slot, and the sync pattern tells the reader where the block grid
+ * and the tiles start without knowing where the crop was taken.
+ */
+
+/**
+ * How the watermark is laid out over the image.
+ * - 'full': header and body spread once over the whole image
+ * - 'tiled': repeated in self-contained tiles, recoverable from crops
+ */
+export type WatermarkLayout = 'full' | 'tiled';
+
+/** Coefficient carrying the sync pattern; low enough to survive recompression */
+export const SYNC_COEFF: [number, number] = [1, 2];
+
+/** Largest accepted chance that an unmarked image fits the sync pattern as well */
+const SYNC_MAX_CHANCE = 1e-3;
+
+/** Sync coefficients beyond this are no more telling than at it */
+const MAX_SYNC_COEFF = 2 * EMBEDDING_STRENGTH;
+
+/** Tiles per axis searched for the sync pattern; larger images are searched at the centre */
+const SYNC_SEARCH_TILES = 4;
+
+export type TileAlignment = {
+  /** Pixel offset of the block grid within the image, 0-7 on each axis */
+  offsetX: number;
+  offsetY: number;
+  /** Tile-local coordinates of the first whole block of the image */
+  phaseX: number;
+  phaseY: number;
+};
+
+export type TilePlan = {
+  /** One slot per sync bit */
+  syncSlots: Slot[][];
+  syncBits: Uint8Array;
+  headerSlots: Slot[][];
+  extensionSlots: Slot[][];
+  /** Tile-local blocks left over for the body */
+  bodyBlocks: number[];
+};
+
+function wrap(value: number): number {
+  return ((value % TILE_BLOCKS) + TILE_BLOCKS) % TILE_BLOCKS;
+}
+
+/**
+ * Split a tile into sync, header and body blocks and place the sync
+ * pattern and header in it. Like `planHeader`, this depends only on the
+ * unkeyed header seed.
+ */
+export function planTile(headerSeed: Uint8Array, headerLength: number): TilePlan {
+  const prng = new SeededPRNG(headerSeed);
+  const totalBlocks = TILE_BLOCKS * TILE_BLOCKS;
+  const indices = Array.from({ length: totalBlocks }, (_, i) => i);
+  for (let i = indices.length - 1; i > 0; i--) {
+    const swapIndex = Math.floor(prng.next() * (i + 1));
+    [indices[i], indices[swapIndex]] = [indices[swapIndex], indices[i]];
+  }
+
+  const syncCount = Math.round(totalBlocks * TILE_SYNC_SHARE);
+  const headerEnd = syncCount + Math.round(totalBlocks * HEADER_BLOCK_SHARE);
+  const syncBlocks = indices.slice(0, syncCount).sort((a, b) => a - b);
+  const headerBlocks = indices.slice(syncCount, headerEnd).sort((a, b) => a - b);
+  const syncBits = Uint8Array.from(syncBlocks, () => (prng.next() < 0.5 ? 1 : 0));
+  const headerSlots = assignSlots(prng, headerBlocks, headerLength);
+
+  return {
+    syncSlots: syncBlocks.map((blockIdx) => [{ blockIdx, coeff: SYNC_COEFF }]),
+    syncBits,
+    headerSlots,
+    extensionSlots: assignExtensionParts(prng, headerSlots),
+    bodyBlocks: indices.slice(headerEnd).sort((a, b) => a - b),
+  };
+}
+
+/**
+ * Map tile-local slots onto every tile overlapping a grid of `blocksX` by
+ * `blocksY` blocks whose first block sits at the given tile phase. Tiles
+ * cut by the grid edge contribute the slots that remain.
+ */
+export function repeatTile(
+  slots: Slot[][],
+  blocksX: number,
+  blocksY: number,
+  phase: Pick<TileAlignment, 'phaseX' | 'phaseY'>
+): Slot[][] {
+  return slots.map((bitSlots) =>
+    bitSlots.flatMap(({ blockIdx, coeff }) => {
+      const tileX = blockIdx % TILE_BLOCKS;
+      const tileY = Math.floor(blockIdx / TILE_BLOCKS);
+      const copies: Slot[] = [];
+      for (let by = wrap(tileY - phase.phaseY); by < blocksY; by += TILE_BLOCKS) {
+        for (let bx = wrap(tileX - phase.phaseX); bx < blocksX; bx += TILE_BLOCKS) {
+          copies.push({ blockIdx: by * blocksX + bx, coeff });
+        }
+      }
+      return copies;
+    })
+  );
+}
+
+/** A luminance plane searched for the sync pattern */
+export type SyncPlane = { y: Float32Array; width: number; height: number };
+
+/** Best sync fit of a plane over some grid offsets */
+type SyncFit = { alignment: TileAlignment; balance: number; votes: number; z: number };
+
+/** Pixel offsets of the block grid tried on each axis */
+type SyncOffsets = { x: number[]; y: number[] };
+
+/**
+ * Grid offsets of the coarse search. Every offset is within an eighth of a
+ * period of the sync coefficient's basis on each axis of one of them, or
+ * of the next block, where the sync signs still mostly agree.
+ */
+const COARSE_OFFSETS: SyncOffsets = { x: [0, 2, 4, 6], y: [0, 4] };
+
+const ALL_OFFSETS: SyncOffsets = {
+  x: Array.from({ length: BLOCK_SIZE }, (_, offset) => offset),
+  y: Array.from({ length: BLOCK_SIZE }, (_, offset) => offset),
+};
+
+/** Largest coarse chance for which the full search is run */
+const SYNC_SCREEN_CHANCE = 0.05;
+
+/**
+ * Correlate the sync pattern against the given pixel offsets and every one
+ * of the TILE_BLOCKS² tile phases. Block values are folded onto a single
+ * tile first, so each phase costs one pass over the sync blocks.
+ *
+ * The best alignment is picked on clamped coefficient values, which peak
+ * at the exact pixel offset where neighbouring offsets still share the
+ * signs. Undefined when the plane has no block at any offset.
+ */
+function fitSync(
+  { y, width, height }: SyncPlane,
+  plan: Pick<TilePlan, 'syncSlots' | 'syncBits'>,
+  offsets: SyncOffsets
+): SyncFit | undefined {
+  const columnBasis = dctBasisVector(SYNC_COEFF[0]);
+  const rowBasis = dctBasisVector(SYNC_COEFF[1]);
+  // Folded values are kept on a 2x2 repeat of the tile, so a sync block
+  // moved back by any phase lands in it without wrapping around
+  const span = 2 * TILE_BLOCKS;
+  const syncCells = Int32Array.from(plan.syncSlots, ([{ blockIdx }]) => {
+    const x = blockIdx % TILE_BLOCKS;
+    const y = Math.floor(blockIdx / TILE_BLOCKS);
+    return (y + TILE_BLOCKS) * span + x + TILE_BLOCKS;
+  });
+  const syncSigns = Int8Array.from(plan.syncBits, (bit) => (bit ? 1 : -1));
+
+  const cells = TILE_BLOCKS * TILE_BLOCKS;
+  const folded = new Float64Array(cells);
+  const foldedSigns = new Int32Array(cells);
+  const counts = new Int32Array(cells);
+  const repeated = new Float64Array(span * span);
+  const repeatedSigns = new Int32Array(span * span);
+  const repeatedCounts = new Int32Array(span * span);
+  let best: SyncFit | undefined;
+
+  for (const offsetX of offsets.x) {
+    // The basis is separable, so every row is projected once per horizontal
+    // offset and each vertical offset only combines eight row sums per block
+    const blocksX = Math.floor((width - offsetX) / BLOCK_SIZE);
+    const spanX = Math.min(blocksX, SYNC_SEARCH_TILES * TILE_BLOCKS);
+    const startX = Math.floor((blocksX - spanX) / 2);
+    const rowSums = new Float32Array(height * spanX);
+    for (let row = 0; row < height; row++) {
+      for (let bx = 0; bx < spanX; bx++) {
+        const origin = row * width + offsetX + (startX + bx) * BLOCK_SIZE;
+        let sum = 0;
+        for (let j = 0; j < BLOCK_SIZE; j++) {
+          sum += y[origin + j] * rowBasis[j];
+        }
+        rowSums[row * spanX + bx] = sum;
+      }
+    }
+
+    for (const offsetY of offsets.y) {
+      const blocksY = Math.floor((height - offsetY) / BLOCK_SIZE);
+      const spanY = Math.min(blocksY, SYNC_SEARCH_TILES * TILE_BLOCKS);
+      const startY = Math.floor((blocksY - spanY) / 2);
+
+      // Sync coefficient of every block, folded onto one tile
+      folded.fill(0);
+      foldedSigns.fill(0);
+      counts.fill(0);
+      for (let by = startY; by < startY + spanY; by++) {
+        for (let bx = startX; bx < startX + spanX; bx++) {
+          const originY = offsetY + by * BLOCK_SIZE;
+          let coeff = 0;
+          for (let i = 0; i < BLOCK_SIZE; i++) {
+            coeff += rowSums[(originY + i) * spanX + bx - startX] * columnBasis[i];
+          }
+          if (Math.abs(coeff) < 1e-3) continue;
+
+          const cell = (by % TILE_BLOCKS) * TILE_BLOCKS + (bx % TILE_BLOCKS);
+          folded[cell] += Math.max(-MAX_SYNC_COEFF, Math.min(MAX_SYNC_COEFF, coeff));
+          foldedSigns[cell] += coeff > 0 ? 1 : -1;
+          counts[cell]++;
+        }
+      }
+
+      for (let cell = 0; cell < span * span; cell++) {
+        const tileY = Math.floor(cell / span) % TILE_BLOCKS;
+        const tileCell = tileY * TILE_BLOCKS + (cell % TILE_BLOCKS);
+        repeated[cell] = folded[tileCell];
+        repeatedSigns[cell] = foldedSigns[tileCell];
+        repeatedCounts[cell] = counts[tileCell];
+      }
+
+      for (let phaseY = 0; phaseY < TILE_BLOCKS; phaseY++) {
+        for (let phaseX = 0; phaseX < TILE_BLOCKS; phaseX++) {
+          const shift = phaseY * span + phaseX;
+          let correlation = 0;
+          let balance = 0;
+          let votes = 0;
+          for (let k = 0; k < syncCells.length; k++) {
+            const cell = syncCells[k] - shift;
+            correlation += syncSigns[k] * repeated[cell];
+            balance += syncSigns[k] * repeatedSigns[cell];
+            votes += repeatedCounts[cell];
+          }
+          if (votes === 0) continue;
+
+          const z = correlation / Math.sqrt(votes);
+          if (!best || z > best.z) {
+            best = { alignment: { offsetX, offsetY, phaseX, phaseY }, balance, votes, z };
+          }
+        }
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Chance that an unmarked plane agrees with the sync pattern as well as
+ * `fit` does at any of the grid offsets tried, in any of `planes` planes.
+ * Sign agreements are fair coins for an unmarked image.
+ */
+function syncChance(fit: SyncFit | undefined, offsets: SyncOffsets, planes: number): number {
+  if (!fit) {
+    return 1;
+  }
+  const alignments = offsets.x.length * offsets.y.length * TILE_BLOCKS * TILE_BLOCKS * planes;
+  return binomialTail(fit.votes, (fit.votes + fit.balance) / 2) * alignments;
+}
+
+/**
+ * Coarse search of each plane for the sync pattern. Returns the plane that
+ * shows it most clearly, and the chance that an unmarked image shows it as
+ * clearly in any of them.
+ */
+function screenSync(
+  planes: SyncPlane[],
+  plan: Pick<TilePlan, 'syncSlots' | 'syncBits'>
+): { plane: number; chance: number } {
+  return planes
+    .map((plane, i) => ({
+      plane: i,
+      chance: syncChance(fitSync(plane, plan, COARSE_OFFSETS), COARSE_OFFSETS, planes.length),
+    }))
+    .reduce((best, screened) => (screened.chance < best.chance ? screened : best));
+}
+
+/**
+ * Chance that an unmarked image shows the sync pattern as clearly as the
+ * given planes do at the few grid offsets of a coarse search. A fraction of
+ * the cost of `locateTiles`.
+ */
+export function screenTiles(
+  planes: SyncPlane[],
+  plan: Pick<TilePlan, 'syncSlots' | 'syncBits'>
+): number {
+  return screenSync(planes, plan).chance;
+}
+
+/**
+ * Find the block grid offset and tile phase of a tiled watermark in one of
+ * several planes, such as an image and its wavelet LL bands. Every plane is
+ * searched coarsely first, and only the one that shows the sync pattern
+ * most clearly is searched at all 64 pixel offsets, so an unmarked image is
+ * given up after a fraction of the work. Returns null when no alignment
+ * fits better than chance.
+ */
+export function locateTiles(
+  planes: SyncPlane[],
+  plan: Pick<TilePlan, 'syncSlots' | 'syncBits'>
+): { plane: number; alignment: TileAlignment } | null {
+  const screened = screenSync(planes, plan);
+  if (screened.chance > SYNC_SCREEN_CHANCE) {
+    return null;
+  }
+  const fit = fitSync(planes[screened.plane], plan, ALL_OFFSETS);
+  return fit && syncChance(fit, ALL_OFFSETS, planes.length) <= SYNC_MAX_CHANCE
+    ? { plane: screened.plane, alignment: fit.alignment }
+    : null;
+}
@@ -1,8 +1,10 @@
 import { decodeImage } from './io/decode';
-import { extractWatermark } from './core/extract';
-import { derivePayloadDigest, digestToBits } from './utils/hash';
-import { PAYLOAD_BITS } from './core/constants';
-import type { ImageInput, ExtractResult } from './types';
+import { readStoredJpeg } from './io/jpeg';
+import { extractWatermark, readLayouts, transformImage } from './core/extract';
+import { orderEccSchemes } from './core/ecc';
+import { derivePlacementSeeds, bitsToDigest } from './utils/hash';
+import { resolveKeyCandidates, orderKeyCandidates } from './utils/keyring';
+import type { ImageInput, ExtractOptions, ExtractResult } from './types';
 
 function arrayBufferToHex(buffer: Uint8Array): string {
   return Array.from(buffer)
@@ -10,25 +12,60 @@ function arrayBufferToHex(buffer: Uint8Array): string {
     .join('');
 }
 
-export async function extract(image: ImageInput): Promise<ExtractResult> {
+/**
+ * Blindly recover the embedded message from an image without knowing the
+ * payload. Check `valid` before trusting `message`.
+ */
+export async function extract(
+  image: ImageInput,
+  options?: ExtractOptions
+): Promise<ExtractResult> {
   const imageData = await decodeImage(image);
-  
-  const dummyDigest = await derivePayloadDigest('dummy');
-  const dummyBits = digestToBits(dummyDigest, PAYLOAD_BITS);
+  const transformed = transformImage(imageData, (await readStoredJpeg(image))?.luminance);
 
-  const { recoveredBits, confidence } = extractWatermark(imageData, dummyBits);
+  const { header } = await derivePlacementSeeds();
+  const candidates = resolveKeyCandidates(options);
 
-  const recoveredDigest = new Uint8Array(Math.ceil(PAYLOAD_BITS / 8));
-  for (let i = 0; i < PAYLOAD_BITS; i++) {
-    const byteIndex = Math.floor(i / 8);
-    const bitIndex = 7 - (i % 8);
-    if (recoveredBits[i]) {
-      recoveredDigest[byteIndex] |= 1 << bitIndex;
+  // The whole-image layout first, then tiles found in a possible crop, then
+  // both from the wavelet LL band and on the image restored to its original
+  // scale and rotation
+  let first: ExtractResult | undefined;
+  const layouts = readLayouts(transformed, header);
+  for (const { image: layoutImage, alignment, header: embedded } of layouts) {
+    const attempts = candidates.length > 0
+      ? orderKeyCandidates(candidates, embedded.keyId)
+      : [{ keyId: undefined, key: undefined }];
+
+    for (const { keyId, key } of attempts) {
+      const seeds = await derivePlacementSeeds(key);
+      for (const ecc of orderEccSchemes(embedded.ecc)) {
+        const { messageBits, valid, confidence, correctedErrors } = extractWatermark(
+          layoutImage,
+          seeds,
+          {
+            ecc,
+            alignment,
+            qimStep: embedded.qimStep,
+            chroma: embedded.chroma,
+            messageBitCount: embedded.payloadBits,
+          }
+        );
+        const message = bitsToDigest(messageBits);
+        const result = {
+          message,
+          digestHex: arrayBufferToHex(message),
+          valid,
+          confidence,
+          correctedErrors,
+          keyId: valid && keyId !== undefined ? keyId : embedded.keyId,
+        };
+        if (valid) {
+          return result;
+        }
+        first ??= result;
+      }
     }
   }
 
-  return {
-    digestHex: arrayBufferToHex(recoveredDigest),
-    confidence,
-  };
+  return first!;
 }
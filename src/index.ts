@@ -1,5 +1,8 @@
-import { decodeImage } from './io/decode';
+import { decodeImage, readJpegQuality } from './io/decode';
+import { readInputOrientation } from './io/exif';
 import { encodeImage, detectMimeType } from './io/encode';
+import { registerCodec, toImageData, type ImageCodec } from './io/codecs';
+import { readInputTiff, readTiff, writeTiff, type TiffPage } from './io/tiff';
 import {
   isPdfInput,
   inputToUint8Array,
@@ -7,24 +10,111 @@ import {
   encodeImageDataToPng,
   decodePngToImageData,
   extractCarrierFromPdf,
+  resolvePageSelection,
 } from './io/pdf';
-import { embedWatermark } from './core/embed';
-import { extractWatermark } from './core/extract';
-import { derivePayloadDigest, digestToBits } from './utils/hash';
+import {
+  filterJpegSegments,
+  hasMetadata,
+  readInputMetadata,
+  selectMetadata,
+  writeMetadata,
+  METADATA_KINDS,
+  type ImageMetadata,
+  type MetadataKind,
+} from './io/metadata';
+import {
+  isDoubleQuantized,
+  jpegLuminance,
+  luminancePlane,
+  readInputJpeg,
+  readStoredJpeg,
+  withLuminance,
+  writeJpeg,
+  type JpegImage,
+} from './io/jpeg';
+import {
+  embedQuantizedWatermark,
+  embedWatermark,
+  findWeakBlocks,
+  measureCapacity,
+  planChromaVotes,
+  planVotes,
+  type EmbedOptions,
+} from './core/embed';
+import {
+  extractWatermark,
+  extractLegacyWatermark,
+  lowpassImage,
+  readLayouts,
+  screenImage,
+  MARKED_HEADER_CHANCE,
+  READ_LAYOUT_COUNT,
+  scoreWatermark,
+  scoreWatermarks,
+  scoreLegacyWatermark,
+  transformImage,
+  type ExtractedWatermark,
+  type ExtractWatermarkOptions,
+  type TransformedImage,
+  type WatermarkScore,
+} from './core/extract';
+import { DEFAULT_ECC_SCHEME, ECC_SCHEMES, orderEccSchemes } from './core/ecc';
+import { DEFAULT_QIM_STEP } from './core/qim';
+import { embeddingPlaneSize } from './core/dwt';
+import { chromaPlaneSize, isGrayscale } from './core/color';
+import type { TileAlignment } from './core/tiling';
+import type { GeometricTransform } from './core/template';
+import {
+  exifOrientation,
+  inverseOrientation,
+  isIdentityOrientation,
+  orientImageData,
+  sameOrientation,
+  IDENTITY_ORIENTATION,
+  ORIENTATIONS,
+  type ImageOrientation,
+} from './core/orientation';
+import type { WatermarkHeader } from './core/header';
+import type { PlacementSeeds } from './core/block-selection';
+import { derivePayloadBits, derivePlacementSeeds, bitsToDigest } from './utils/hash';
+import { resolveKeyCandidates, orderKeyCandidates } from './utils/keyring';
+import {
+  hasQuantizationFootprint,
+  measureBlockContent,
+  measureQuality,
+} from './utils/quality';
 import { renderVisibleWatermark } from './visible/render';
 import { applyVisibleWatermarkToPdf } from './visible/pdf-render';
 import {
   MATCH_THRESHOLD,
+  FALSE_POSITIVE_RATE,
   PAYLOAD_BITS,
   JPEG_QUALITY,
   BLOCK_SIZE,
+  EMBEDDING_STRENGTH,
+  GUARANTEE_MAX_ITERATIONS,
 } from './core/constants';
 import type {
   ImageInput,
+  WatermarkPayload,
   WatermarkResult,
   VerifyResult,
   WatermarkOptions,
   VerifyOptions,
+  IdentifyOptions,
+  IdentifyCandidate,
+  IdentifyResult,
+  AnalyzeOptions,
+  AnalyzeResult,
+  AnalysisVerdict,
+  WatermarkKey,
+  KeyRingEntry,
+  EccScheme,
+  Modulation,
+  EmbeddingDomain,
+  WatermarkLayout,
+  GuaranteeOptions,
+  WatermarkCapacity,
   VisibleWatermarkOptions,
   VisibleWatermarkPosition,
 } from './types';
@@ -33,24 +123,49 @@ import type {
 // Re-export types for library consumers
 export type {
   ImageInput,
+  WatermarkPayload,
   WatermarkResult,
   VerifyResult,
   WatermarkOptions,
   VerifyOptions,
+  IdentifyOptions,
+  IdentifyCandidate,
+  IdentifyResult,
+  AnalyzeOptions,
+  AnalyzeResult,
+  AnalysisVerdict,
+  WatermarkKey,
+  KeyRingEntry,
+  EccScheme,
+  Modulation,
+  EmbeddingDomain,
+  WatermarkLayout,
+  GuaranteeOptions,
+  ImageOrientation,
+  MetadataKind,
+  ImageCodec,
+  WatermarkCapacity,
   VisibleWatermarkOptions,
   VisibleWatermarkPosition,
 };
 
+// Formats decoded and encoded in script, beyond the browser's
+export { registerCodec };
+
 // Export default constants so users can reference them
 export const defaults = {
-  /** Minimum confidence for isMatch to be true */
+  /** Minimum confidence for isMatch to be true when a raw threshold is used */
   MATCH_THRESHOLD,
+  /** Largest false-positive probability accepted as a match */
+  FALSE_POSITIVE_RATE,
   /** Quality setting for JPEG/WebP output (0-1) */
   JPEG_QUALITY,
   /** Number of bits used from payload hash */
   PAYLOAD_BITS,
   /** DCT block size in pixels */
   BLOCK_SIZE,
+  /** Encodes the guarantee mode makes at most */
+  GUARANTEE_MAX_ITERATIONS,
 } as const;
 
 function arrayBufferToHex(buffer: Uint8Array): string {
@@ -59,18 +174,116 @@ function arrayBufferToHex(buffer: Uint8Array): string {
     .join('');
 }
 
+/** Coefficients read back with less than this to spare mark their block as weak */
+const WEAK_COEFFICIENT_MARGIN = EMBEDDING_STRENGTH / 2;
+
+/** Strength multiplier applied to weak blocks per guarantee iteration, and its cap */
+const BLOCK_BOOST = 1.5;
+const MAX_BLOCK_BOOST = 4;
+
+/** Smallest confidence gain worth another round of reinforcement alone */
+const MIN_CONFIDENCE_GAIN = 0.05;
+
+/** Output quality added per guarantee iteration once reinforcement stalls */
+const QUALITY_STEP = 0.02;
+
+/** Payload analyze() embeds to predict how a mark survives recompression */
+const ANALYSIS_PAYLOAD = 'analyze';
+
+/** JPEG quality analyze() recompresses at unless told otherwise */
+const RECOMPRESSION_QUALITY = 0.75;
+
+/** Shares of flat and saturated blocks from which analyze() calls an image marginal */
+const FLAT_BLOCK_LIMIT = 0.5;
+const SATURATED_BLOCK_LIMIT = 0.25;
+
+/** Score of a payload that cannot be what the image holds */
+const NO_SCORE: WatermarkScore = { agreeingVotes: 0, totalVotes: 0, pValue: 1 };
+
+/** Readout of a message not worth decoding */
+const UNREAD_MESSAGE: ExtractedWatermark = {
+  messageBits: new Uint8Array(0),
+  valid: false,
+  confidence: 0,
+  correctedErrors: 0,
+};
+
+function embedOptions(options?: WatermarkOptions): EmbedOptions {
+  return {
+    layout: options?.layout,
+    template: options?.syncTemplate,
+    strength: options?.strength,
+    perceptual: options?.perceptualMasking,
+    domain: options?.domain,
+  };
+}
+
+function headerFromOptions(options?: WatermarkOptions): WatermarkHeader {
+  return {
+    keyId: options?.keyId ?? 0,
+    ecc: options?.ecc ?? DEFAULT_ECC_SCHEME,
+    qimStep: options?.modulation === 'qim' ? options.qimStep ?? DEFAULT_QIM_STEP : undefined,
+    chroma: options?.chroma ? true : undefined,
+    payloadBits: options?.payloadBits,
+  };
+}
+
+/**
+ * How much of the watermark an image of `width` x `height` pixels holds,
+ * measured over the plane its embedding domain takes blocks from.
+ */
+function measureImageCapacity(
+  width: number,
+  height: number,
+  seeds: PlacementSeeds,
+  options?: WatermarkOptions
+): WatermarkCapacity {
+  const plane = embeddingPlaneSize(width, height, options?.domain);
+  return measureCapacity(
+    plane.width,
+    plane.height,
+    headerFromOptions(options),
+    seeds,
+    options?.layout
+  );
+}
+
+/**
+ * Throw if an image of this size cannot give every header and body bit a
+ * slot of its own.
+ */
+function assertCapacity(
+  width: number,
+  height: number,
+  seeds: PlacementSeeds,
+  options?: WatermarkOptions
+): void {
+  const room = measureImageCapacity(width, height, seeds, options);
+  if (!room.fits) {
+    throw new Error(
+      `Image too small to hold the watermark: ${width}x${height} has room for ` +
+        `${room.placedHeaderBits} of ${room.headerBits} header bits and ` +
+        `${room.placedBodyBits} of ${room.bodyBits} body bits`
+    );
+  }
+}
+
+function payloadToText(payload: WatermarkPayload): string {
+  return typeof payload === 'string' ? payload : arrayBufferToHex(payload);
+}
+
 /**
  * Embed an invisible watermark into an image or PDF.
  * Optionally applies a visible text overlay if options.visible.enabled is true.
  *
  * @param image - The source image or PDF (File, Blob, HTMLImageElement, etc.)
- * @param payload - The payload string to embed (will be hashed)
+ * @param payload - The payload to embed (strings are hashed, bytes are embedded verbatim)
  * @param options - Optional configuration
  * @returns The watermarked image/PDF as a Blob with metadata
  */
 export async function watermark(
   image: ImageInput,
-  payload: string,
+  payload: WatermarkPayload,
   options?: WatermarkOptions
 ): Promise<WatermarkResult> {
   // Check if input is a PDF
@@ -80,42 +293,426 @@ export async function watermark(
     return watermarkPdf(image, payload, options);
   }
 
-  // Existing image watermarking logic
-  const imageData = await decodeImage(image);
+  const tiffPages = await readInputTiff(image);
+  if (tiffPages) {
+    return watermarkTiff(tiffPages, payload, options);
+  }
+
+  if (options?.jpegNative) {
+    assertJpegNativeOptions(options);
+    let jpeg: JpegImage | null = null;
+    try {
+      jpeg = await readInputJpeg(image);
+    } catch {
+      // A JPEG the parser cannot read may still decode to pixels
+    }
+    if (jpeg) {
+      return watermarkJpeg(image, jpeg, payload, options);
+    }
+  }
+
+  // Existing image watermarking logic. Pixels stay in the input's colour
+  // space when its profile goes along to the output.
+  const metadata = selectMetadata(await readInputMetadata(image), metadataKinds(options));
+  const imageData = await decodeImage(image, metadata.icc ? 'none' : 'default');
   const originalMimeType =
     image instanceof Blob || image instanceof File
       ? await detectMimeType(image)
       : undefined;
 
-  const digest = await derivePayloadDigest(payload);
-  const payloadBits = digestToBits(digest, PAYLOAD_BITS);
+  const payloadBits = await derivePayloadBits(payload, options?.key, options?.payloadBits);
+  const seeds = await derivePlacementSeeds(options?.key);
+  assertCapacity(imageData.width, imageData.height, seeds, options);
+  // A JPEG source keeps its own quality when asked to
+  const baseQuality =
+    (options?.outputQuality === 'match-source' ? await readJpegQuality(image) : undefined) ??
+    options?.jpegQuality;
+
+  // Embed, overlay and encode; the guarantee loop repeats this with
+  // reinforced blocks or a higher output quality
+  const render = async (strengths?: BlockStrengths, jpegQuality = baseQuality) => {
+    const watermarkedData = markImage(imageData, payload, payloadBits, seeds, options, strengths);
+    return encodeImage(watermarkedData, originalMimeType, jpegQuality);
+  };
+
+  let { blob, mimeType } = await render();
+  let output: ImageData | undefined;
+  let guarantee: WatermarkResult['guarantee'];
+
+  if (options?.guarantee) {
+    const { minConfidence = MATCH_THRESHOLD, maxIterations = GUARANTEE_MAX_ITERATIONS } =
+      options.guarantee === true ? {} : options.guarantee;
+    const lossy = mimeType !== 'image/png';
+    const header = headerFromOptions(options);
+    const plane = embeddingPlaneSize(imageData.width, imageData.height, options.domain);
+    const plan = planVotes(plane.width, plane.height, payloadBits, header, seeds, options.layout);
+    // The body's copy in chroma is reinforced alongside, on its own block grid
+    const chroma = chromaPlaneSize(imageData.width, imageData.height, options.domain);
+    const chromaPlan =
+      header.chroma && !isGrayscale(imageData.data)
+        ? planChromaVotes(chroma.width, chroma.height, payloadBits, header, seeds)
+        : undefined;
+    const strengths: BlockStrengths = {
+      blockStrength: unitBlockStrengths(plane),
+      chromaBlockStrength: chromaPlan ? unitBlockStrengths(chroma) : undefined,
+    };
+    let jpegQuality = baseQuality ?? JPEG_QUALITY;
+    let previousConfidence = -Infinity;
+
+    output = await decodeImage(blob);
+    let check = selfCheck(output, payloadBits, seeds, options);
+    let iterations = 1;
+    while (!(check.valid && check.confidence >= minConfidence) && iterations < maxIterations) {
+      // Reinforce the blocks that did not survive encoding; once that stops
+      // paying off, spend file size instead
+      const weak = findWeakBlocks(
+        output,
+        plan,
+        WEAK_COEFFICIENT_MARGIN,
+        options.domain,
+        chromaPlan
+      );
+      boostBlocks(strengths.blockStrength, weak.luminance);
+      boostBlocks(strengths.chromaBlockStrength, weak.chroma);
+      if (lossy && check.confidence - previousConfidence < MIN_CONFIDENCE_GAIN) {
+        jpegQuality = Math.min(1, jpegQuality + QUALITY_STEP);
+      }
+      previousConfidence = check.confidence;
+
+      ({ blob, mimeType } = await render(strengths, jpegQuality));
+      output = await decodeImage(blob);
+      check = selfCheck(output, payloadBits, seeds, options);
+      iterations++;
+    }
+
+    guarantee = {
+      met: check.valid && check.confidence >= minConfidence,
+      iterations,
+      confidence: check.confidence,
+      jpegQuality: lossy ? jpegQuality : undefined,
+    };
+  }
+
+  return {
+    blob: await withMetadata(blob, metadata),
+    width: imageData.width,
+    height: imageData.height,
+    mimeType,
+    diagnostics: options?.diagnostics
+      ? diagnoseOutput(imageData, output ?? (await decodeImage(blob)), payloadBits, seeds, options)
+      : undefined,
+    guarantee,
+  };
+}
+
+/** Per-block strength multipliers of the luminance and chroma planes */
+type BlockStrengths = Pick<EmbedOptions, 'blockStrength' | 'chromaBlockStrength'>;
+
+/**
+ * A multiplier of 1 for every block of a plane.
+ */
+function unitBlockStrengths(plane: { width: number; height: number }): Float32Array {
+  return new Float32Array(
+    Math.floor(plane.width / BLOCK_SIZE) * Math.floor(plane.height / BLOCK_SIZE)
+  ).fill(1);
+}
+
+/**
+ * Embed weak blocks more strongly next time, up to MAX_BLOCK_BOOST.
+ */
+function boostBlocks(blockStrength: Float32Array | undefined, weak: number[]): void {
+  if (!blockStrength) {
+    return;
+  }
+  for (const blockIdx of weak) {
+    blockStrength[blockIdx] = Math.min(MAX_BLOCK_BOOST, blockStrength[blockIdx] * BLOCK_BOOST);
+  }
+}
 
-  // Apply invisible watermark
-  let watermarkedData = embedWatermark(imageData, payloadBits);
+/**
+ * Embed the invisible watermark in pixels, then the visible one if enabled.
+ */
+function markImage(
+  imageData: ImageData,
+  payload: WatermarkPayload,
+  payloadBits: Uint8Array,
+  seeds: PlacementSeeds,
+  options?: WatermarkOptions,
+  strengths?: BlockStrengths
+): ImageData {
+  const watermarkedData = embedWatermark(
+    imageData,
+    payloadBits,
+    headerFromOptions(options),
+    seeds,
+    { ...embedOptions(options), ...strengths }
+  );
 
   // Apply visible watermark if enabled
   if (options?.visible?.enabled) {
-    const visibleResult = renderVisibleWatermark(watermarkedData, payload, options.visible);
-    watermarkedData = visibleResult.imageData;
+    return renderVisibleWatermark(watermarkedData, payloadToText(payload), options.visible)
+      .imageData;
+  }
+  return watermarkedData;
+}
+
+/**
+ * Kinds of the input's metadata to carry over to the output.
+ */
+function metadataKinds(options?: WatermarkOptions): MetadataKind[] {
+  const strip = options?.stripMetadata ?? false;
+  if (strip === true) {
+    return [];
   }
+  const keep = options?.keepMetadata ?? METADATA_KINDS;
+  return keep.filter((kind) => !(strip || []).includes(kind));
+}
 
-  const { blob, mimeType } = await encodeImage(
-    watermarkedData,
-    originalMimeType,
-    options?.jpegQuality
+/**
+ * An encoded output with metadata written in.
+ */
+async function withMetadata(blob: Blob, metadata: ImageMetadata): Promise<Blob> {
+  if (!hasMetadata(metadata)) {
+    return blob;
+  }
+  const bytes = await writeMetadata(new Uint8Array(await blob.arrayBuffer()), metadata);
+  return new Blob([bytes], { type: blob.type });
+}
+
+/**
+ * Throw for options the JPEG-native path cannot honour: it marks the
+ * luminance coefficients of the stored blocks and nothing else.
+ */
+function assertJpegNativeOptions(options: WatermarkOptions): void {
+  const unsupported = [
+    options.syncTemplate && 'syncTemplate',
+    options.domain === 'dwt-dct' && "domain: 'dwt-dct'",
+    options.chroma && 'chroma',
+    options.visible?.enabled && 'visible',
+    options.guarantee && 'guarantee',
+  ].filter(Boolean);
+  if (unsupported.length > 0) {
+    throw new Error(`jpegNative does not support ${unsupported.join(', ')}`);
+  }
+}
+
+/**
+ * Mark a JPEG in its quantized luminance coefficients and write it back
+ * without decoding its pixels. The self-check reads the coefficients of
+ * the output, as verify() does.
+ */
+async function watermarkJpeg(
+  image: ImageInput,
+  jpeg: JpegImage,
+  payload: WatermarkPayload,
+  options: WatermarkOptions
+): Promise<WatermarkResult> {
+  const payloadBits = await derivePayloadBits(payload, options.key, options.payloadBits);
+  const seeds = await derivePlacementSeeds(options.key);
+  assertCapacity(jpeg.width, jpeg.height, seeds, options);
+
+  const coefficients = embedQuantizedWatermark(
+    luminancePlane(jpeg),
+    payloadBits,
+    headerFromOptions(options),
+    seeds,
+    embedOptions(options)
   );
+  const marked = withLuminance(jpeg, coefficients);
+  const segments = filterJpegSegments(marked.segments, metadataKinds(options));
+  const blob = new Blob([writeJpeg({ ...marked, segments })], { type: 'image/jpeg' });
+
+  // Width and height as displayed, like the decoded images of the pixel path
+  const orientation = exifOrientation(await readInputOrientation(image));
+  const sideways = orientation.rotation === 90 || orientation.rotation === 270;
+  let diagnostics: WatermarkResult['diagnostics'];
+  if (options.diagnostics) {
+    const output = await decodeImage(blob);
+    const stored = orientImageData(output, inverseOrientation(orientation));
+    diagnostics = diagnoseOutput(
+      await decodeImage(image),
+      output,
+      payloadBits,
+      seeds,
+      options,
+      transformImage(stored, jpegLuminance(marked))
+    );
+  }
 
   return {
     blob,
-    width: imageData.width,
-    height: imageData.height,
-    mimeType,
+    width: sideways ? jpeg.height : jpeg.width,
+    height: sideways ? jpeg.width : jpeg.height,
+    mimeType: 'image/jpeg',
+    diagnostics,
+  };
+}
+
+/**
+ * Report how much of the watermark an image of `width` x `height` pixels
+ * can hold with the layout, error-correcting code and key of `options`.
+ * watermark() refuses images that do not fit.
+ *
+ * @param width - Image width in pixels
+ * @param height - Image height in pixels
+ * @param options - The options watermark() would be called with
+ * @returns Encoded header and body bits, how many of them have a slot, and
+ *   whether all of them do
+ */
+export async function capacity(
+  width: number,
+  height: number,
+  options?: WatermarkOptions
+): Promise<WatermarkCapacity> {
+  const seeds = await derivePlacementSeeds(options?.key);
+  return measureImageCapacity(width, height, seeds, options);
+}
+
+function percent(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
+
+/**
+ * Check before watermarking whether an image is large and textured enough
+ * to carry a reliable mark. The mark is embedded with the given options
+ * and read back after JPEG recompression to predict its confidence.
+ * Images only.
+ *
+ * @param image - The image to analyze
+ * @param options - The options watermark() would be called with
+ * @returns Block statistics, capacity, predicted confidence and a verdict
+ */
+export async function analyze(
+  image: ImageInput,
+  options?: AnalyzeOptions
+): Promise<AnalyzeResult> {
+  const imageData = await decodeImage(image);
+  const { width, height } = imageData;
+  const seeds = await derivePlacementSeeds(options?.key);
+  const room = measureImageCapacity(width, height, seeds, options);
+  const content = measureBlockContent(imageData);
+  const flatBlockShare = content.blocks > 0 ? content.flatBlocks / content.blocks : 0;
+  const saturatedBlockShare = content.blocks > 0 ? content.saturatedBlocks / content.blocks : 0;
+  const result: AnalyzeResult = {
+    verdict: 'ok',
+    reasons: [],
+    width,
+    height,
+    blocks: content.blocks,
+    blocksPerBit: room.bodyBlocks / room.bodyBits,
+    capacity: room,
+    flatBlockShare,
+    saturatedBlockShare,
+  };
+
+  if (!room.fits) {
+    result.verdict = 'too small';
+    result.reasons.push(
+      `${width}x${height} has room for ${room.placedBodyBits} of the ${room.bodyBits} ` +
+        'encoded message bits'
+    );
+    return result;
+  }
+
+  const quality = options?.recompressionQuality ?? RECOMPRESSION_QUALITY;
+  const payloadBits = await derivePayloadBits(
+    ANALYSIS_PAYLOAD,
+    options?.key,
+    options?.payloadBits
+  );
+  const marked = embedWatermark(
+    imageData,
+    payloadBits,
+    headerFromOptions(options),
+    seeds,
+    embedOptions(options)
+  );
+  const { blob } = await encodeImage(marked, 'image/jpeg', quality);
+  const prediction = selfCheck(await decodeImage(blob), payloadBits, seeds, options);
+  result.prediction = prediction;
+
+  if (!prediction.valid) {
+    result.reasons.push(`The mark does not read back after JPEG recompression at ${quality}`);
+  } else if (prediction.confidence < MATCH_THRESHOLD) {
+    result.reasons.push(
+      `The mark reads back with confidence ${prediction.confidence.toFixed(2)} after JPEG ` +
+        `recompression at ${quality}, below ${MATCH_THRESHOLD}`
+    );
+  }
+  if (room.minSlotsPerBit < 2) {
+    result.reasons.push('Each encoded bit has a single coefficient, with no copy to fall back on');
+  }
+  if (flatBlockShare > FLAT_BLOCK_LIMIT) {
+    result.reasons.push(
+      `${percent(flatBlockShare)} of the blocks are flat, where the mark is most visible`
+    );
+  }
+  if (saturatedBlockShare > SATURATED_BLOCK_LIMIT) {
+    result.reasons.push(
+      `${percent(saturatedBlockShare)} of the blocks are clipped to black or white and must ` +
+        'be shifted to carry the mark'
+    );
+  }
+  if (result.reasons.length > 0) {
+    result.verdict = 'marginal';
+  }
+  return result;
+}
+
+/**
+ * Read the mark back from an encoded output the way verify() would, with
+ * the layout, code and domain it was embedded with.
+ */
+function selfCheck(
+  output: ImageData | TransformedImage,
+  payloadBits: Uint8Array,
+  seeds: PlacementSeeds,
+  options?: WatermarkOptions
+): NonNullable<WatermarkResult['diagnostics']>['selfCheck'] {
+  const alignment: TileAlignment | undefined =
+    options?.layout === 'tiled' ? { offsetX: 0, offsetY: 0, phaseX: 0, phaseY: 0 } : undefined;
+  const { ecc, qimStep, chroma } = headerFromOptions(options);
+  const { levels } = embeddingPlaneSize(output.width, output.height, options?.domain);
+  const image = levels > 0 ? lowpassImage(output, levels) : output;
+  const { messageBits, valid, confidence, correctedErrors } = extractWatermark(image, seeds, {
+    ecc,
+    alignment,
+    qimStep,
+    chroma,
+    messageBitCount: payloadBits.length,
+  });
+  return {
+    valid: valid && messageBits.every((bit, i) => bit === payloadBits[i]),
+    confidence,
+    correctedErrors,
+  };
+}
+
+/**
+ * Quality of the output against the source and how well the mark reads
+ * back from it, or from `readBack` when the mark is better read from
+ * something other than the decoded output.
+ */
+function diagnoseOutput(
+  source: ImageData,
+  output: ImageData,
+  payloadBits: Uint8Array,
+  seeds: PlacementSeeds,
+  options?: WatermarkOptions,
+  readBack: ImageData | TransformedImage = output
+): WatermarkResult['diagnostics'] {
+  const check = selfCheck(readBack, payloadBits, seeds, options);
+  return {
+    embedScore: check.confidence,
+    payloadDigestHex: arrayBufferToHex(bitsToDigest(payloadBits)),
+    ...measureQuality(source, output),
+    selfCheck: check,
   };
 }
 
 async function watermarkPdf(
   image: ImageInput,
-  payload: string,
+  payload: WatermarkPayload,
   options?: WatermarkOptions
 ): Promise<WatermarkResult> {
   const { PDFDocument } = await import('pdf-lib');
@@ -125,10 +722,16 @@ async function watermarkPdf(
   const pdfDoc = await PDFDocument.load(inputBytes);
   
   // Create and watermark the carrier image
-  const digest = await derivePayloadDigest(payload);
-  const payloadBits = digestToBits(digest, PAYLOAD_BITS);
+  const payloadBits = await derivePayloadBits(payload, options?.key, options?.payloadBits);
+  const seeds = await derivePlacementSeeds(options?.key);
   const carrierImage = createCarrierImage();
-  const watermarkedCarrier = embedWatermark(carrierImage, payloadBits);
+  const watermarkedCarrier = embedWatermark(
+    carrierImage,
+    payloadBits,
+    headerFromOptions(options),
+    seeds,
+    embedOptions(options)
+  );
   const carrierPngBytes = await encodeImageDataToPng(watermarkedCarrier);
   
   // Attach carrier as embedded file
@@ -139,9 +742,19 @@ async function watermarkPdf(
   
   // Apply visible watermark if enabled
   if (options?.visible?.enabled) {
-    await applyVisibleWatermarkToPdf(pdfDoc, payload, options.visible);
+    await applyVisibleWatermarkToPdf(pdfDoc, payloadToText(payload), options.visible);
   }
   
+  const diagnostics = options?.diagnostics
+    ? diagnoseOutput(
+        carrierImage,
+        await decodePngToImageData(carrierPngBytes),
+        payloadBits,
+        seeds,
+        options
+      )
+    : undefined;
+
   // Save and return
   const outputBytes = await pdfDoc.save();
   const pages = pdfDoc.getPages();
@@ -161,6 +774,54 @@ async function watermarkPdf(
     width: firstPage.getWidth(),
     height: firstPage.getHeight(),
     mimeType: 'application/pdf',
+    diagnostics,
+    pageCount: pages.length,
+  };
+}
+
+/**
+ * Watermark the selected pages of a TIFF and write every page back in
+ * order, each with its own compression and resolution. The output is
+ * lossless, so there is no recompression for `guarantee` to make up for.
+ */
+async function watermarkTiff(
+  pages: TiffPage[],
+  payload: WatermarkPayload,
+  options?: WatermarkOptions
+): Promise<WatermarkResult> {
+  const payloadBits = await derivePayloadBits(payload, options?.key, options?.payloadBits);
+  const seeds = await derivePlacementSeeds(options?.key);
+  const selected = resolvePageSelection(options?.tiff?.pageSelection ?? 'all', pages.length);
+  for (const index of selected) {
+    assertCapacity(pages[index].width, pages[index].height, seeds, options);
+  }
+
+  const marked = pages.map((page, index) =>
+    selected.includes(index)
+      ? { ...page, data: markImage(toImageData(page), payload, payloadBits, seeds, options).data }
+      : page
+  );
+  const outputBytes = await writeTiff(marked);
+
+  // Diagnostics describe the first marked page
+  const [first] = selected;
+  const diagnostics =
+    options?.diagnostics && first !== undefined
+      ? diagnoseOutput(
+          toImageData(pages[first]),
+          toImageData((await readTiff(outputBytes))[first]),
+          payloadBits,
+          seeds,
+          options
+        )
+      : undefined;
+
+  return {
+    blob: new Blob([outputBytes], { type: 'image/tiff' }),
+    width: pages[0].width,
+    height: pages[0].height,
+    mimeType: 'image/tiff',
+    diagnostics,
     pageCount: pages.length,
   };
 }
@@ -169,13 +830,13 @@ async function watermarkPdf(
  * Verify if an image or PDF contains a watermark matching the given payload.
  *
  * @param image - The image or PDF to verify
- * @param payload - The expected payload string
+ * @param payload - The expected payload (string or raw bytes, as passed to watermark())
  * @param options - Optional configuration
  * @returns Verification result with isMatch and confidence score
  */
 export async function verify(
   image: ImageInput,
-  payload: string,
+  payload: WatermarkPayload,
   options?: VerifyOptions
 ): Promise<VerifyResult> {
   // Check if input is a PDF
@@ -185,42 +846,73 @@ export async function verify(
     return verifyPdf(image, payload, options);
   }
 
-  // Existing image verification logic
-  const threshold = options?.threshold ?? MATCH_THRESHOLD;
+  const tiffPages = await readInputTiff(image);
+  if (tiffPages) {
+    return verifyTiff(tiffPages, payload, options);
+  }
 
+  // Existing image verification logic
   const imageData = await decodeImage(image);
-  const expectedDigest = await derivePayloadDigest(payload);
-  const expectedBits = digestToBits(expectedDigest, PAYLOAD_BITS);
-
-  const { recoveredBits, confidence } = extractWatermark(imageData, expectedBits);
+  const orientations = orientationsToTry(
+    await readInputOrientation(image),
+    options?.searchOrientations
+  );
+  const stored = await readStoredJpeg(image);
+  const recompressed = stored
+    ? isDoubleQuantized(stored.jpeg)
+    : hasQuantizationFootprint(imageData);
+  const result = await verifyImageData(
+    imageData,
+    payload,
+    options,
+    orientations,
+    stored?.luminance
+  );
+  return withRecompressionHint(result, recompressed);
+}
 
-  const recoveredDigest = new Uint8Array(Math.ceil(PAYLOAD_BITS / 8));
-  for (let i = 0; i < PAYLOAD_BITS; i++) {
-    const byteIndex = Math.floor(i / 8);
-    const bitIndex = 7 - (i % 8);
-    if (recoveredBits[i]) {
-      recoveredDigest[byteIndex] |= 1 << bitIndex;
-    }
+/**
+ * Add to a verification what the image's own coefficients tell of it
+ * having been compressed again, whether or not the mark was found.
+ */
+function withRecompressionHint(result: VerifyResult, recompressed: boolean): VerifyResult {
+  if (!recompressed && !result.transformHints) {
+    return result;
   }
-
-  const expectedDigestPrefix = expectedDigest.slice(0, Math.ceil(PAYLOAD_BITS / 8));
-  const expectedDigestHex = arrayBufferToHex(expectedDigestPrefix);
-  const recoveredDigestHex = arrayBufferToHex(recoveredDigest);
-
-  const isMatch = confidence >= threshold && expectedDigestHex === recoveredDigestHex;
-
   return {
-    isMatch,
-    confidence,
+    ...result,
+    transformHints: { ...result.transformHints, likelyRecompressed: recompressed },
   };
 }
 
+/**
+ * Orientations to undo: the `likely` ones are verified in full, and of the
+ * `searched` ones only the one that shows a mark most clearly.
+ */
+type OrientationSearch = { likely: ImageOrientation[]; searched: ImageOrientation[] };
+
+/**
+ * Orientations to undo, identity first. An EXIF orientation tag is what a
+ * viewer turned the stored pixels by, which may be how the mark came to be
+ * sideways, so it is tried next even without a full search.
+ */
+function orientationsToTry(exifTag: number | undefined, search?: boolean): OrientationSearch {
+  const unique = (orientations: ImageOrientation[]) =>
+    orientations.filter(
+      (orientation, i) => orientations.findIndex((o) => sameOrientation(o, orientation)) === i
+    );
+  const likely = unique([IDENTITY_ORIENTATION, exifOrientation(exifTag)]);
+  const searched = search
+    ? ORIENTATIONS.filter((orientation) => !likely.some((o) => sameOrientation(o, orientation)))
+    : [];
+  return { likely, searched };
+}
+
 async function verifyPdf(
   image: ImageInput,
-  payload: string,
+  payload: WatermarkPayload,
   options?: VerifyOptions
 ): Promise<VerifyResult> {
-  const threshold = options?.threshold ?? MATCH_THRESHOLD;
   const inputBytes = await inputToUint8Array(image);
   
   // Extract the carrier image
@@ -231,28 +923,429 @@ async function verifyPdf(
   
   // Decode and verify
   const carrierImageData = await decodePngToImageData(carrierPngBytes);
-  const expectedDigest = await derivePayloadDigest(payload);
-  const expectedBits = digestToBits(expectedDigest, PAYLOAD_BITS);
-  
-  const { recoveredBits, confidence } = extractWatermark(carrierImageData, expectedBits);
-  
-  const recoveredDigest = new Uint8Array(Math.ceil(PAYLOAD_BITS / 8));
-  for (let i = 0; i < PAYLOAD_BITS; i++) {
-    const byteIndex = Math.floor(i / 8);
-    const bitIndex = 7 - (i % 8);
-    if (recoveredBits[i]) {
-      recoveredDigest[byteIndex] |= 1 << bitIndex;
+  return verifyImageData(carrierImageData, payload, options);
+}
+
+/**
+ * Verify the selected pages of a TIFF one by one. Every page checked is
+ * another chance for an unmarked document to match, so the aggregate, the
+ * strongest page, is charged for all of them.
+ */
+async function verifyTiff(
+  pages: TiffPage[],
+  payload: WatermarkPayload,
+  options?: VerifyOptions
+): Promise<VerifyResult> {
+  const selected = resolvePageSelection(options?.tiff?.pageSelection ?? 'all', pages.length);
+  if (selected.length === 0) {
+    return { isMatch: false, confidence: 0, pages: [], error: 'No pages selected' };
+  }
+
+  const orientations = orientationsToTry(undefined, options?.searchOrientations);
+  const results: VerifyResult[] = [];
+  for (const page of selected) {
+    const imageData = toImageData(pages[page]);
+    const result = await verifyImageData(imageData, payload, options, orientations);
+    results.push(withRecompressionHint(result, hasQuantizationFootprint(imageData)));
+  }
+
+  const [best] = [...results].sort(
+    (a, b) =>
+      Number(b.isMatch) - Number(a.isMatch) ||
+      (a.falsePositiveProbability ?? 1) - (b.falsePositiveProbability ?? 1) ||
+      b.confidence - a.confidence
+  );
+  const useThreshold =
+    options?.threshold !== undefined && options?.falsePositiveRate === undefined;
+  const falsePositiveProbability = Math.min(
+    1,
+    (best.falsePositiveProbability ?? 1) * results.length
+  );
+  return {
+    ...best,
+    isMatch:
+      best.isMatch &&
+      (useThreshold ||
+        falsePositiveProbability <= (options?.falsePositiveRate ?? FALSE_POSITIVE_RATE)),
+    falsePositiveProbability,
+    pages: results.map((result, i) => ({ ...result, page: selected[i] })),
+  };
+}
+
+type MessageCheck = {
+  valid: boolean;
+  confidence: number;
+  correctedErrors: number;
+  recoveredDigestHex?: string;
+  expectedDigestHex: string;
+  /** Chance that an unmarked image agrees with the expected message as well */
+  pValue: number;
+};
+
+/**
+ * The message bits a payload would have been embedded as in a message of
+ * `bitCount` bits, or null for raw bytes too long to fit in one.
+ */
+async function expectedMessage(
+  payload: WatermarkPayload,
+  key: WatermarkKey | undefined,
+  bitCount = PAYLOAD_BITS
+): Promise<Uint8Array | null> {
+  if (typeof payload !== 'string' && payload.length * 8 > bitCount) {
+    return null;
+  }
+  return derivePayloadBits(payload, key, bitCount);
+}
+
+/**
+ * Score the image against the message the payload would have produced with
+ * one key, ECC scheme, modulation, layout, set of channels and message
+ * length, and read back the message embedded that way. Decoding costs far
+ * more than scoring, so unless `decode` says otherwise the message is only
+ * read when the score shows a mark.
+ */
+async function checkMessage(
+  image: TransformedImage,
+  payload: WatermarkPayload,
+  key: WatermarkKey | undefined,
+  read: ExtractWatermarkOptions,
+  decode?: boolean
+): Promise<MessageCheck> {
+  const expectedBits = await expectedMessage(payload, key, read.messageBitCount);
+  const seeds = await derivePlacementSeeds(key);
+
+  // A raw payload longer than the embedded message cannot be what it holds
+  const { pValue } = expectedBits ? scoreWatermark(image, seeds, expectedBits, read) : NO_SCORE;
+  const { messageBits, valid, confidence, correctedErrors } =
+    (decode ?? pValue <= MARKED_HEADER_CHANCE)
+      ? extractWatermark(image, seeds, read)
+      : UNREAD_MESSAGE;
+
+  return {
+    valid,
+    confidence,
+    correctedErrors,
+    recoveredDigestHex: valid ? arrayBufferToHex(bitsToDigest(messageBits)) : undefined,
+    expectedDigestHex: expectedBits ? arrayBufferToHex(bitsToDigest(expectedBits)) : '',
+    pValue,
+  };
+}
+
+/**
+ * What the synchronization template revealed about the image's geometry.
+ */
+function transformHints(transform?: GeometricTransform): VerifyResult['transformHints'] {
+  if (!transform) {
+    return undefined;
+  }
+  return {
+    likelyResized: transform.scale !== 1,
+    scale: transform.scale,
+    rotation: transform.rotation,
+  };
+}
+
+/**
+ * Verify the image as if turned back from each likely orientation in turn,
+ * then from the searched orientation that shows a mark most clearly in the
+ * reads that need no search; the other searched orientations are never
+ * read in full. Every orientation tried is another chance for an unmarked
+ * image to match, so each attempt is charged for all of them. `luminance`
+ * is the image's luminance as stored, when known more precisely than its
+ * pixels give it.
+ */
+async function verifyImageData(
+  imageData: ImageData,
+  payload: WatermarkPayload,
+  options?: VerifyOptions,
+  { likely, searched }: OrientationSearch = { likely: [IDENTITY_ORIENTATION], searched: [] },
+  luminance?: Float32Array
+): Promise<VerifyResult> {
+  const orientationCount = likely.length + searched.length;
+  const turned = likely.map((orientation) => ({
+    orientation,
+    image: transformImage(
+      orientImageData(imageData, inverseOrientation(orientation)),
+      isIdentityOrientation(orientation) ? luminance : undefined
+    ),
+  }));
+  if (searched.length > 0) {
+    const { header } = await derivePlacementSeeds();
+    let clearest:
+      | { orientation: ImageOrientation; image: TransformedImage; chance: number }
+      | undefined;
+    for (const orientation of searched) {
+      const image = transformImage(orientImageData(imageData, inverseOrientation(orientation)));
+      const chance = screenImage(image, header);
+      if (!clearest || chance < clearest.chance) {
+        clearest = { orientation, image, chance };
+      }
     }
+    turned.push(clearest!);
   }
-  
-  const expectedDigestPrefix = expectedDigest.slice(0, Math.ceil(PAYLOAD_BITS / 8));
-  const expectedDigestHex = arrayBufferToHex(expectedDigestPrefix);
-  const recoveredDigestHex = arrayBufferToHex(recoveredDigest);
-  
-  const isMatch = confidence >= threshold && expectedDigestHex === recoveredDigestHex;
-  
+
+  let best: VerifyResult | undefined;
+  for (const { orientation, image } of turned) {
+    const result = await verifyOrientedImageData(image, payload, options, orientationCount);
+    if (result.isMatch) {
+      return orientationCount > 1 ? { ...result, orientation } : result;
+    }
+    if (
+      !best ||
+      (result.falsePositiveProbability ?? 1) < (best.falsePositiveProbability ?? 1)
+    ) {
+      best = result;
+    }
+  }
+  return best!;
+}
+
+async function verifyOrientedImageData(
+  image: TransformedImage,
+  payload: WatermarkPayload,
+  options: VerifyOptions | undefined,
+  orientationCount: number
+): Promise<VerifyResult> {
+  // An explicit raw threshold without a target rate keeps the original rule
+  const useThreshold =
+    options?.threshold !== undefined && options?.falsePositiveRate === undefined;
+  const threshold = options?.threshold ?? MATCH_THRESHOLD;
+  const targetRate = options?.falsePositiveRate ?? FALSE_POSITIVE_RATE;
+
+  const candidates = resolveKeyCandidates(options);
+  const keyed = candidates.length > 0;
+
+  const { header } = await derivePlacementSeeds();
+
+  // Every orientation, layout, key and scheme tried, and the legacy layout,
+  // is another chance for an unmarked image to match; the reported
+  // probability covers all of them
+  const hypotheses =
+    orientationCount *
+    (READ_LAYOUT_COUNT * Math.max(1, candidates.length) * ECC_SCHEMES.length + (keyed ? 0 : 1));
+  const falsePositiveProbability = (pValue: number) => Math.min(1, pValue * hypotheses);
+
+  let best: { check: MessageCheck; keyId?: number; transform?: GeometricTransform } | undefined;
+  const layouts = readLayouts(image, header);
+  for (const { image: layoutImage, alignment, transform, header: embedded } of layouts) {
+    const attempts: Array<{ keyId?: number; key?: WatermarkKey }> = keyed
+      ? orderKeyCandidates(candidates, embedded.keyId)
+      : [{}];
+    // A header that shows a mark names the only scheme worth decoding
+    const marked = embedded.pValue <= MARKED_HEADER_CHANCE;
+    for (const { keyId, key } of attempts) {
+      for (const ecc of orderEccSchemes(embedded.ecc)) {
+        const read = {
+          ecc,
+          alignment,
+          qimStep: embedded.qimStep,
+          chroma: embedded.chroma,
+          messageBitCount: embedded.payloadBits,
+        };
+        const check = await checkMessage(
+          layoutImage,
+          payload,
+          key,
+          read,
+          marked ? ecc === embedded.ecc : undefined
+        );
+
+        // A wrong key scatters the reads over unmarked coefficients, so the
+        // checksum fails and the next key is tried. A valid frame is what the
+        // image carries: it either is the expected message or it is not.
+        if (check.valid) {
+          const probability = falsePositiveProbability(check.pValue);
+          const significant = useThreshold
+            ? check.confidence >= threshold
+            : probability <= targetRate;
+          return {
+            isMatch: significant && check.recoveredDigestHex === check.expectedDigestHex,
+            confidence: check.confidence,
+            falsePositiveProbability: probability,
+            recoveredDigestHex: check.recoveredDigestHex,
+            correctedErrors: check.correctedErrors,
+            keyId,
+            transformHints: transformHints(transform),
+          };
+        }
+        if (!best || check.pValue < best.check.pValue) {
+          best = { check, keyId, transform };
+        }
+      }
+    }
+  }
+
+  // Marks embedded before placement became payload-independent carry no
+  // checksum and can only be read with the payload-seeded layout.
+  // Legacy marks are unkeyed and hold `PAYLOAD_BITS` bits.
+  const expectedBits = keyed ? null : await expectedMessage(payload, undefined);
+  if (expectedBits) {
+    const legacy = extractLegacyWatermark(image, expectedBits);
+    const legacyDigestHex = arrayBufferToHex(bitsToDigest(legacy.recoveredBits));
+    const expectedDigestHex = arrayBufferToHex(bitsToDigest(expectedBits));
+    const probability = falsePositiveProbability(
+      scoreLegacyWatermark(image, expectedBits).pValue
+    );
+    const isMatch = useThreshold
+      ? legacy.confidence >= threshold && legacyDigestHex === expectedDigestHex
+      : probability <= targetRate;
+    if (isMatch) {
+      return {
+        isMatch,
+        confidence: legacy.confidence,
+        falsePositiveProbability: probability,
+        recoveredDigestHex: legacyDigestHex === expectedDigestHex ? legacyDigestHex : undefined,
+      };
+    }
+  }
+
+  // Nothing decoded, but a damaged mark may still stand out from noise
+  const { check, keyId, transform } = best!;
+  const probability = falsePositiveProbability(check.pValue);
+  const isMatch = !useThreshold && probability <= targetRate;
   return {
     isMatch,
-    confidence,
+    confidence: check.confidence,
+    falsePositiveProbability: probability,
+    keyId: isMatch ? keyId : undefined,
+    transformHints: isMatch ? transformHints(transform) : undefined,
+  };
+}
+
+/**
+ * Find which of many candidate payloads (e.g. one per recipient of a
+ * leaked document) an image or PDF was watermarked with. The image is
+ * decoded and transformed once and every candidate is scored against it,
+ * which is far cheaper than calling verify() per candidate. Marks made
+ * before placement became payload-independent are not searched.
+ *
+ * @param image - The image or PDF to examine
+ * @param candidates - The payloads to rank, as passed to watermark()
+ * @param options - Optional configuration
+ * @returns Candidates ranked by likelihood, with the winner if exactly one matches
+ */
+export async function identify(
+  image: ImageInput,
+  candidates: WatermarkPayload[],
+  options?: IdentifyOptions
+): Promise<IdentifyResult> {
+  const isPdf = await isPdfInput(image);
+
+  if (isPdf) {
+    const carrierPngBytes = await extractCarrierFromPdf(await inputToUint8Array(image));
+    if (!carrierPngBytes) {
+      return { ranked: [], ambiguous: false, error: 'No watermark carrier found' };
+    }
+    return identifyImageData(await decodePngToImageData(carrierPngBytes), candidates, options);
+  }
+
+  const imageData = await decodeImage(image);
+  const stored = await readStoredJpeg(image);
+  return identifyImageData(imageData, candidates, options, stored?.luminance);
+}
+
+/**
+ * Sign correlation of a score mapped to [0, 1]: chance agreement reads 0.
+ */
+function scoreCorrelation({ agreeingVotes, totalVotes }: WatermarkScore): number {
+  return totalVotes > 0 ? Math.max(0, (2 * agreeingVotes) / totalVotes - 1) : 0;
+}
+
+async function identifyImageData(
+  imageData: ImageData,
+  candidates: WatermarkPayload[],
+  options?: IdentifyOptions,
+  luminance?: Float32Array
+): Promise<IdentifyResult> {
+  const targetRate = options?.falsePositiveRate ?? FALSE_POSITIVE_RATE;
+  const image = transformImage(imageData, luminance);
+  const keys = resolveKeyCandidates(options);
+
+  const { header } = await derivePlacementSeeds();
+  const hypotheses =
+    candidates.length * READ_LAYOUT_COUNT * Math.max(1, keys.length) * ECC_SCHEMES.length;
+
+  // Best score per candidate over every layout, key and scheme, unless a
+  // valid frame pins down how the image was marked
+  let best: Array<{ score: WatermarkScore; keyId?: number }> = [];
+  let recovered: { digestHex: string; messages: Array<Uint8Array | null> } | undefined;
+  const layouts = readLayouts(image, header);
+  search: for (const { image: layoutImage, alignment, header: embedded } of layouts) {
+    const attempts: Array<{ keyId?: number; key?: WatermarkKey }> =
+      keys.length > 0 ? orderKeyCandidates(keys, embedded.keyId) : [{}];
+    // As in verify(), a body is decoded with the scheme named by a header
+    // that shows a mark, or else when some candidate's score does, counted
+    // over all candidates
+    const marked = embedded.pValue <= MARKED_HEADER_CHANCE;
+    for (const { keyId, key } of attempts) {
+      const seeds = await derivePlacementSeeds(key);
+      const messages = await Promise.all(
+        candidates.map((payload) => expectedMessage(payload, key, embedded.payloadBits))
+      );
+      const fitting = messages.filter((bits): bits is Uint8Array => bits !== null);
+      for (const ecc of orderEccSchemes(embedded.ecc)) {
+        const read = {
+          ecc,
+          alignment,
+          qimStep: embedded.qimStep,
+          chroma: embedded.chroma,
+          messageBitCount: embedded.payloadBits,
+        };
+        // Raw payloads too long for the embedded message are not scored
+        const fittingScores = scoreWatermarks(layoutImage, seeds, fitting, read);
+        const scores = messages.map((bits) =>
+          bits ? fittingScores[fitting.indexOf(bits)] : NO_SCORE
+        );
+        const decode = marked
+          ? ecc === embedded.ecc
+          : fittingScores.some(
+              (score) => score.pValue * candidates.length <= MARKED_HEADER_CHANCE
+            );
+        const { messageBits, valid } = decode
+          ? extractWatermark(layoutImage, seeds, read)
+          : UNREAD_MESSAGE;
+        if (valid) {
+          best = scores.map((score) => ({ score, keyId }));
+          recovered = { digestHex: arrayBufferToHex(bitsToDigest(messageBits)), messages };
+          break search;
+        }
+        best = scores.map((score, i) =>
+          best[i] && best[i].score.pValue <= score.pValue ? best[i] : { score, keyId }
+        );
+      }
+    }
+  }
+
+  const ranked: IdentifyCandidate[] = best
+    .map(({ score, keyId }, index) => {
+      const falsePositiveProbability = Math.min(1, score.pValue * hypotheses);
+      // A valid frame is what the image carries: correlated neighbours of
+      // the decoded message are not matches
+      const message = recovered?.messages[index];
+      const carried =
+        !recovered ||
+        (!!message && arrayBufferToHex(bitsToDigest(message)) === recovered.digestHex);
+      return {
+        index,
+        payload: candidates[index],
+        isMatch: carried && falsePositiveProbability <= targetRate,
+        confidence: scoreCorrelation(score),
+        falsePositiveProbability,
+        keyId,
+      };
+    })
+    .sort(
+      (a, b) =>
+        Number(b.isMatch) - Number(a.isMatch) ||
+        a.falsePositiveProbability - b.falsePositiveProbability ||
+        b.confidence - a.confidence
+    );
+
+  const matches = ranked.filter((candidate) => candidate.isMatch);
+  return {
+    ranked,
+    winner: matches.length === 1 ? matches[0] : undefined,
+    ambiguous: matches.length > 1,
+    recoveredDigestHex: recovered?.digestHex,
   };
 }
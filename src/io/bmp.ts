@@ -0,0 +1,159 @@
+import type { PixelBuffer } from '../utils/quality';
+
+/** Size of the BITMAPFILEHEADER */
+const FILE_HEADER_SIZE = 14;
+
+/** Sizes of the BITMAPINFOHEADER and BITMAPV4HEADER */
+const INFO_HEADER_SIZE = 40;
+const V4_HEADER_SIZE = 108;
+
+/** Compression methods: none, and masks giving each channel's bits */
+const BI_RGB = 0;
+const BI_BITFIELDS = 3;
+
+/** Colour space of a V4 header: sRGB, 'sRGB' read as a big-endian word */
+const LCS_SRGB = 0x73524742;
+
+/** Masks of the 16-bit layout assumed without BI_BITFIELDS (5-5-5) */
+const RGB555_MASKS = [0x7c00, 0x03e0, 0x001f, 0];
+
+/** Masks of the 32-bit layout assumed without BI_BITFIELDS (no alpha) */
+const RGB888_MASKS = [0x00ff0000, 0x0000ff00, 0x000000ff, 0];
+
+/** Masks written for 32-bit pixels with alpha */
+const RGBA8888_MASKS = [0x00ff0000, 0x0000ff00, 0x000000ff, 0xff000000];
+
+/** Whether data is a Windows bitmap */
+export function isBmp(bytes: Uint8Array): boolean {
+  return bytes.length >= FILE_HEADER_SIZE + 4 && bytes[0] === 0x42 && bytes[1] === 0x4d;
+}
+
+/**
+ * A channel from a pixel word by its mask, scaled to 0-255.
+ */
+function channel(word: number, mask: number): number {
+  if (mask === 0) {
+    return 255;
+  }
+  const shift = 31 - Math.clz32(mask & -mask);
+  const max = mask >>> shift;
+  return Math.round((((word & mask) >>> shift) * 255) / max);
+}
+
+/**
+ * Decode an uncompressed Windows bitmap: 1, 4 and 8 bits per pixel through
+ * a palette, or 16, 24 and 32 bits per pixel, with channel masks when
+ * given. Throws for run-length encoded and embedded JPEG or PNG bitmaps.
+ */
+export function readBmp(bytes: Uint8Array): PixelBuffer {
+  if (!isBmp(bytes)) {
+    throw new Error('Not a BMP image');
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const pixelOffset = view.getUint32(10, true);
+  const headerSize = view.getUint32(FILE_HEADER_SIZE, true);
+  // The OS/2 BITMAPCOREHEADER has 16-bit dimensions and no compression
+  const core = headerSize === 12;
+  const width = core ? view.getUint16(18, true) : view.getInt32(18, true);
+  const storedHeight = core ? view.getUint16(20, true) : view.getInt32(22, true);
+  const bitCount = view.getUint16(core ? 24 : 28, true);
+  const compression = core ? BI_RGB : view.getUint32(30, true);
+  const height = Math.abs(storedHeight);
+  const topDown = storedHeight < 0;
+
+  if (compression !== BI_RGB && compression !== BI_BITFIELDS) {
+    throw new Error(`Unsupported BMP compression: ${compression}`);
+  }
+  if (width <= 0 || height === 0) {
+    throw new Error('Invalid BMP dimensions');
+  }
+
+  let masks = bitCount === 16 ? RGB555_MASKS : RGB888_MASKS;
+  if (compression === BI_BITFIELDS) {
+    // Masks follow a BITMAPINFOHEADER, or sit inside the larger headers,
+    // which from the V3 header on include one for alpha
+    const at = FILE_HEADER_SIZE + INFO_HEADER_SIZE;
+    masks = [0, 1, 2, 3].map((i) =>
+      i < 3 || headerSize >= INFO_HEADER_SIZE + 16 ? view.getUint32(at + i * 4, true) : 0
+    );
+  }
+
+  const paletteEntry = core ? 3 : 4;
+  const paletteOffset = FILE_HEADER_SIZE + headerSize;
+  const palette = (index: number) => {
+    const at = paletteOffset + index * paletteEntry;
+    return [bytes[at + 2], bytes[at + 1], bytes[at]];
+  };
+
+  const stride = Math.ceil((width * bitCount) / 32) * 4;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const row = pixelOffset + (topDown ? y : height - 1 - y) * stride;
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      let rgba: number[];
+      if (bitCount <= 8) {
+        const bit = x * bitCount;
+        const shift = 8 - bitCount - (bit & 7);
+        const index = (bytes[row + (bit >> 3)] >> shift) & ((1 << bitCount) - 1);
+        rgba = [...palette(index), 255];
+      } else if (bitCount === 24) {
+        const at = row + x * 3;
+        rgba = [bytes[at + 2], bytes[at + 1], bytes[at], 255];
+      } else if (bitCount === 16 || bitCount === 32) {
+        const word =
+          bitCount === 16 ? view.getUint16(row + x * 2, true) : view.getUint32(row + x * 4, true);
+        rgba = masks.map((mask) => channel(word, mask));
+      } else {
+        throw new Error(`Unsupported BMP bit depth: ${bitCount}`);
+      }
+      data.set(rgba, out);
+    }
+  }
+  return { data, width, height };
+}
+
+/**
+ * Encode pixels as a Windows bitmap: 24 bits per pixel when every pixel is
+ * opaque, else 32 with an alpha mask in a V4 header.
+ */
+export function writeBmp({ data, width, height }: PixelBuffer): Uint8Array<ArrayBuffer> {
+  let opaque = true;
+  for (let i = 3; i < data.length; i += 4) {
+    opaque &&= data[i] === 255;
+  }
+  const bitCount = opaque ? 24 : 32;
+  const headerSize = opaque ? INFO_HEADER_SIZE : V4_HEADER_SIZE;
+  const pixelOffset = FILE_HEADER_SIZE + headerSize;
+  const stride = Math.ceil((width * bitCount) / 32) * 4;
+  const bytes = new Uint8Array(pixelOffset + stride * height);
+  const view = new DataView(bytes.buffer);
+
+  bytes.set([0x42, 0x4d]);
+  view.setUint32(2, bytes.length, true);
+  view.setUint32(10, pixelOffset, true);
+  view.setUint32(14, headerSize, true);
+  view.setInt32(18, width, true);
+  // Negative: rows stored top-down, as in the pixels
+  view.setInt32(22, -height, true);
+  view.setUint16(26, 1, true);
+  view.setUint16(28, bitCount, true);
+  view.setUint32(30, opaque ? BI_RGB : BI_BITFIELDS, true);
+  view.setUint32(34, stride * height, true);
+  if (!opaque) {
+    RGBA8888_MASKS.forEach((mask, i) => view.setUint32(54 + i * 4, mask, true));
+    view.setUint32(70, LCS_SRGB, true);
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const source = (y * width + x) * 4;
+      const at = pixelOffset + y * stride + x * (bitCount / 8);
+      bytes.set([data[source + 2], data[source + 1], data[source]], at);
+      if (!opaque) {
+        bytes[at + 3] = data[source + 3];
+      }
+    }
+  }
+  return bytes;
+}
@@ -0,0 +1,61 @@
+import { isBmp, readBmp, writeBmp } from './bmp';
+import { isTiff, readTiff, writeTiff } from './tiff';
+import type { PixelBuffer } from '../utils/quality';
+
+/**
+ * An image format decoded and encoded in script rather than by the browser.
+ * `mimeTypes` are the types it handles, the first being the one its output
+ * is labelled with; without `encode`, its images are written as PNG.
+ */
+export type ImageCodec = {
+  mimeTypes: string[];
+  /** Whether encoded data is in this format, from its leading bytes */
+  sniff(bytes: Uint8Array): boolean;
+  decode(bytes: Uint8Array): ImageData | Promise<ImageData>;
+  /** `quality` is the 0-1 quality asked of lossy output */
+  encode?(imageData: ImageData, options: { quality: number }): Uint8Array | Promise<Uint8Array>;
+};
+
+/** Pixels decoded in script as the browser's ImageData */
+export function toImageData({ data, width, height }: PixelBuffer): ImageData {
+  return new ImageData(new Uint8ClampedArray(data), width, height);
+}
+
+/** Uncompressed Windows bitmaps */
+const BMP_CODEC: ImageCodec = {
+  mimeTypes: ['image/bmp', 'image/x-ms-bmp'],
+  sniff: isBmp,
+  decode: (bytes) => toImageData(readBmp(bytes)),
+  encode: (imageData) => writeBmp(imageData),
+};
+
+/** Baseline TIFF: the first page is read, and written LZW compressed */
+const TIFF_CODEC: ImageCodec = {
+  mimeTypes: ['image/tiff', 'image/tiff-fx'],
+  sniff: isTiff,
+  decode: async (bytes) => toImageData((await readTiff(bytes))[0]),
+  encode: (imageData) => writeTiff([{ ...imageData, compression: 'lzw' }]),
+};
+
+/** Registered codecs, the latest first so that it overrides the others */
+const codecs: ImageCodec[] = [BMP_CODEC, TIFF_CODEC];
+
+/**
+ * Add a codec for decodeImage, encodeImage and detectMimeType to consult
+ * before the browser's own. A codec registered later takes precedence over
+ * earlier and built-in ones for the same format.
+ */
+export function registerCodec(codec: ImageCodec): void {
+  codecs.unshift(codec);
+}
+
+/** The codec for encoded data, by its leading bytes */
+export function findCodec(bytes: Uint8Array): ImageCodec | undefined {
+  return codecs.find((codec) => codec.sniff(bytes));
+}
+
+/** The codec that writes a MIME type */
+export function findEncoder(mimeType: string): ImageCodec | undefined {
+  const type = mimeType.toLowerCase();
+  return codecs.find((codec) => codec.encode && codec.mimeTypes.includes(type));
+}
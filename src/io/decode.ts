@@ -1,3 +1,8 @@
+import { findCodec } from './codecs';
+import { standardQuantTable } from './encode';
+import { readQuantization, type JpegQuantization } from './jpeg';
+import { inputToUint8Array } from './pdf';
+
 export type ImageInput =
   | File
   | Blob
@@ -9,7 +14,16 @@ export type ImageInput =
 
 type Canvas2DContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
 
-async function createImageBitmapFromInput(input: ImageInput): Promise<ImageBitmap> {
+/**
+ * Encoded inputs are decoded as displayed, with any EXIF orientation
+ * applied, whatever the browser's default.
+ */
+const BITMAP_OPTIONS: ImageBitmapOptions = { imageOrientation: 'from-image' };
+
+async function createImageBitmapFromInput(
+  input: ImageInput,
+  colorSpaceConversion: ColorSpaceConversion
+): Promise<ImageBitmap> {
   if (input instanceof ImageData) {
     const canvas = typeof OffscreenCanvas !== 'undefined'
       ? new OffscreenCanvas(input.width, input.height)
@@ -39,22 +53,40 @@ async function createImageBitmapFromInput(input: ImageInput): Promise<ImageBitma
       ? new Uint8Array(input)
       : input;
     const blob = new Blob([blobPart]);
-    return createImageBitmap(blob);
+    return createImageBitmap(blob, { ...BITMAP_OPTIONS, colorSpaceConversion });
   }
 
   if (input instanceof File || input instanceof Blob) {
-    return createImageBitmap(input);
+    return createImageBitmap(input, { ...BITMAP_OPTIONS, colorSpaceConversion });
   }
 
   throw new Error(`Unsupported image input type: ${typeof input}`);
 }
 
-export async function decodeImage(input: ImageInput): Promise<ImageData> {
+/**
+ * Decode an input to RGBA pixels. Encoded inputs in a format with a
+ * registered codec are decoded by it, others by the browser, converted from
+ * their colour profile to sRGB unless `colorSpaceConversion` is 'none',
+ * which keeps the values as stored, for output that carries the profile
+ * along.
+ */
+export async function decodeImage(
+  input: ImageInput,
+  colorSpaceConversion: ColorSpaceConversion = 'default'
+): Promise<ImageData> {
   if (input instanceof ImageData) {
     return input;
   }
 
-  const bitmap = await createImageBitmapFromInput(input);
+  if (input instanceof Blob || input instanceof ArrayBuffer || input instanceof Uint8Array) {
+    const bytes = await inputToUint8Array(input);
+    const codec = findCodec(bytes);
+    if (codec) {
+      return codec.decode(bytes);
+    }
+  }
+
+  const bitmap = await createImageBitmapFromInput(input, colorSpaceConversion);
   const canvas = typeof OffscreenCanvas !== 'undefined'
     ? new OffscreenCanvas(bitmap.width, bitmap.height)
     : document.createElement('canvas');
@@ -68,3 +100,42 @@ export async function decodeImage(input: ImageInput): Promise<ImageData> {
   bitmap.close();
   return ctx.getImageData(0, 0, canvas.width, canvas.height);
 }
+
+/**
+ * The libjpeg quality (0.01-1, as canvas encoders take it) whose standard
+ * tables come closest to a JPEG's, the higher on a tie. Encoders with
+ * tables of their own get the nearest standard quality.
+ */
+export function estimateJpegQuality({ luminance, chrominance }: JpegQuantization): number {
+  const distance = (table: Uint16Array, standard: Uint16Array) =>
+    table.reduce((sum, value, i) => sum + Math.abs(value - standard[i]), 0);
+
+  let best = { percent: 100, distance: Infinity };
+  for (let percent = 100; percent >= 1; percent--) {
+    const quality = percent / 100;
+    let total = distance(luminance, standardQuantTable(quality));
+    if (chrominance) {
+      total += distance(chrominance, standardQuantTable(quality, true));
+    }
+    if (total < best.distance) {
+      best = { percent, distance: total };
+    }
+  }
+  return best.percent / 100;
+}
+
+/**
+ * The quality a JPEG input was encoded at, estimated from its quantization
+ * tables, or undefined for inputs that are not encoded JPEGs.
+ */
+export async function readJpegQuality(input: ImageInput): Promise<number | undefined> {
+  if (
+    !(input instanceof Blob) &&
+    !(input instanceof ArrayBuffer) &&
+    !(input instanceof Uint8Array)
+  ) {
+    return undefined;
+  }
+  const quantization = readQuantization(await inputToUint8Array(input));
+  return quantization ? estimateJpegQuality(quantization) : undefined;
+}
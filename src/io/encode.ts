@@ -1,12 +1,61 @@
 import { JPEG_QUALITY } from '../core/constants';
+import { findCodec, findEncoder } from './codecs';
+import { inputToUint8Array } from './pdf';
 
 type Canvas2DContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
 
+/**
+ * Quantization tables of ITU T.81 Annex K, in natural order, that libjpeg
+ * scales by quality; browsers' canvas encoders are built on it.
+ */
+const STANDARD_LUMINANCE_TABLE = Uint16Array.of(
+  16, 11, 10, 16, 24, 40, 51, 61,
+  12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56,
+  14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77,
+  24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101,
+  72, 92, 95, 98, 112, 100, 103, 99
+);
+const STANDARD_CHROMINANCE_TABLE = Uint16Array.of(
+  17, 18, 24, 47, 99, 99, 99, 99,
+  18, 21, 26, 66, 99, 99, 99, 99,
+  24, 26, 56, 99, 99, 99, 99, 99,
+  47, 66, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99
+);
+
+/**
+ * The quantization table libjpeg writes at a quality of 1-100 (`quality`
+ * 0.01-1 here, as canvas encoders take it), for luminance or chrominance.
+ */
+export function standardQuantTable(quality: number, chrominance = false): Uint16Array {
+  const percent = Math.min(100, Math.max(1, Math.round(quality * 100)));
+  const scale = percent < 50 ? 5000 / percent : 200 - 2 * percent;
+  const base = chrominance ? STANDARD_CHROMINANCE_TABLE : STANDARD_LUMINANCE_TABLE;
+  return base.map((value) => Math.min(255, Math.max(1, Math.floor((value * scale + 50) / 100))));
+}
+
+/**
+ * Encode pixels in the format of the original, through a registered codec
+ * when one writes it, else the canvas: JPEG, WebP, and PNG for the rest.
+ */
 export async function encodeImage(
   imageData: ImageData,
   originalMimeType?: string,
   jpegQuality?: number
 ): Promise<{ blob: Blob; mimeType: string }> {
+  const encoder = originalMimeType ? findEncoder(originalMimeType) : undefined;
+  if (encoder?.encode) {
+    const bytes = await encoder.encode(imageData, { quality: jpegQuality ?? JPEG_QUALITY });
+    const mimeType = encoder.mimeTypes[0];
+    return { blob: new Blob([new Uint8Array(bytes)], { type: mimeType }), mimeType };
+  }
+
   const canvas = typeof OffscreenCanvas !== 'undefined'
     ? new OffscreenCanvas(imageData.width, imageData.height)
     : document.createElement('canvas');
@@ -56,9 +105,13 @@ export async function encodeImage(
   });
 }
 
+/**
+ * The MIME type of an input: its own, or for an untyped Blob in a format
+ * with a registered codec, that codec's.
+ */
 export async function detectMimeType(input: Blob | File): Promise<string | undefined> {
-  if (input instanceof File) {
-    return input.type || undefined;
+  if (input.type) {
+    return input.type;
   }
-  return input.type || undefined;
+  return findCodec(await inputToUint8Array(input))?.mimeTypes[0];
 }
@@ -0,0 +1,163 @@
+import type { ImageInput } from './decode';
+import { inputToUint8Array } from './pdf';
+
+/** Tag number of the orientation entry in an EXIF IFD */
+const ORIENTATION_TAG = 0x0112;
+
+export const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/**
+ * Where the orientation value sits in a TIFF structure, the body of an
+ * EXIF block, from its first IFD: its offset in `bytes` and byte order.
+ */
+function findTiffOrientation(
+  bytes: Uint8Array,
+  start: number,
+  end: number
+): { offset: number; little: boolean } | undefined {
+  if (end - start < 8) {
+    return undefined;
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset + start, end - start);
+  const order = view.getUint16(0);
+  if (order !== 0x4949 && order !== 0x4d4d) {
+    return undefined;
+  }
+  const little = order === 0x4949;
+  const ifd = view.getUint32(4, little);
+  if (ifd + 2 > view.byteLength) {
+    return undefined;
+  }
+  const entries = view.getUint16(ifd, little);
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > view.byteLength) {
+      return undefined;
+    }
+    if (view.getUint16(entry, little) === ORIENTATION_TAG) {
+      return { offset: start + entry + 8, little };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Orientation tag (1-8) of a TIFF structure, the body of an EXIF block,
+ * from its first IFD.
+ */
+export function readTiffOrientation(
+  bytes: Uint8Array,
+  start = 0,
+  end = bytes.length
+): number | undefined {
+  const value = findTiffOrientation(bytes, start, end);
+  if (!value) {
+    return undefined;
+  }
+  return new DataView(bytes.buffer, bytes.byteOffset).getUint16(value.offset, value.little);
+}
+
+/**
+ * A copy of the TIFF structure of an EXIF block with its orientation set
+ * to upright, for pixels that have already been turned as it said.
+ */
+export function uprightExif(tiff: Uint8Array): Uint8Array {
+  const copy = tiff.slice();
+  const value = findTiffOrientation(copy, 0, copy.length);
+  if (value) {
+    new DataView(copy.buffer).setUint16(value.offset, 1, value.little);
+  }
+  return copy;
+}
+
+/**
+ * The TIFF structure of an EXIF block holding nothing but an orientation.
+ */
+export function orientationExif(orientation: number): Uint8Array {
+  const bytes = new Uint8Array(26);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(0, 0x4d4d);
+  view.setUint16(2, 42);
+  view.setUint32(4, 8);
+  view.setUint16(8, 1);
+  view.setUint16(10, ORIENTATION_TAG);
+  // One SHORT, held in the value field; no IFD follows
+  view.setUint16(12, 3);
+  view.setUint32(14, 1);
+  view.setUint16(18, orientation);
+  return bytes;
+}
+
+/**
+ * Orientation tag from the APP1 Exif segment of a JPEG, looking no further
+ * than the start of the image data.
+ */
+function readJpegOrientation(bytes: Uint8Array): number | undefined {
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    // Start of scan: no metadata beyond this point
+    if (marker === 0xda) {
+      return undefined;
+    }
+    const body = offset + 4;
+    const isExif =
+      marker === 0xe1 &&
+      String.fromCharCode(...bytes.subarray(body, body + 6)) === 'Exif\0\0';
+    if (isExif) {
+      return readTiffOrientation(bytes, body + 6, Math.min(bytes.length, offset + 2 + length));
+    }
+    offset += 2 + length;
+  }
+  return undefined;
+}
+
+/**
+ * Orientation tag from the eXIf chunk of a PNG, which must precede the
+ * image data.
+ */
+function readPngOrientation(bytes: Uint8Array): number | undefined {
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= bytes.length) {
+    const length = new DataView(bytes.buffer, bytes.byteOffset + offset, 4).getUint32(0);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    if (type === 'IDAT') {
+      return undefined;
+    }
+    if (type === 'eXIf') {
+      return readTiffOrientation(bytes, offset + 8, Math.min(bytes.length, offset + 8 + length));
+    }
+    offset += 12 + length;
+  }
+  return undefined;
+}
+
+/**
+ * EXIF orientation tag (1-8) of an encoded JPEG or PNG, or undefined when
+ * there is none.
+ */
+export function readExifOrientation(bytes: Uint8Array): number | undefined {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    return readJpegOrientation(bytes);
+  }
+  if (PNG_SIGNATURE.every((byte, i) => bytes[i] === byte)) {
+    return readPngOrientation(bytes);
+  }
+  return undefined;
+}
+
+/**
+ * EXIF orientation tag of an input, for inputs that carry encoded bytes.
+ * Decoded inputs (ImageData, images, canvases) have already been oriented.
+ */
+export async function readInputOrientation(input: ImageInput): Promise<number | undefined> {
+  if (
+    !(input instanceof Blob) &&
+    !(input instanceof ArrayBuffer) &&
+    !(input instanceof Uint8Array)
+  ) {
+    return undefined;
+  }
+  return readExifOrientation(await inputToUint8Array(input));
+}
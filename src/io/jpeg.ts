@@ -0,0 +1,1038 @@
+import { UNMARKED_LOW_FREQ_COEFFS } from '../core/block-selection';
+import { idct2d } from '../core/dct';
+import type { QuantizedPlane } from '../core/embed';
+import { exifOrientation, isIdentityOrientation } from '../core/orientation';
+import type { ImageInput } from './decode';
+import { readInputOrientation } from './exif';
+import { inputToUint8Array } from './pdf';
+
+/** Natural (row by row) index of each coefficient in zigzag order */
+const ZIGZAG = Uint8Array.of(
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63
+);
+
+const SOF_BASELINE = 0xc0;
+const SOF_EXTENDED = 0xc1;
+const SOF_PROGRESSIVE = 0xc2;
+const DHT = 0xc4;
+const SOI = 0xd8;
+const EOI = 0xd9;
+const SOS = 0xda;
+const DQT = 0xdb;
+const DRI = 0xdd;
+const APP0 = 0xe0;
+const APP14 = 0xee;
+const APP15 = 0xef;
+const COM = 0xfe;
+
+/** Frame markers of processes this module cannot decode (lossless, arithmetic) */
+const UNSUPPORTED_FRAMES = [0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf];
+
+/** Largest magnitude of an AC coefficient in an 8-bit JPEG */
+const MAX_AC_COEFFICIENT = 1023;
+
+/** Level shift of 8-bit samples before the DCT */
+const LEVEL_SHIFT = 128;
+
+/** Coefficient levels whose counts are compared for double quantization */
+const HISTOGRAM_LEVELS = 64;
+
+/** Fewest coefficients at a level, or expected there, for it to be judged */
+const MIN_LEVEL_COUNT = 8;
+
+/** Fewest coefficients over the judged levels for a verdict */
+const MIN_HISTOGRAM_MASS = 500;
+
+/**
+ * Share of the judged coefficients out of line with their neighbouring
+ * levels from which a JPEG counts as quantized twice. A single compression
+ * stays below about 0.5; requantizing with a finer table leaves empty or
+ * crowded levels that reach 0.8-1.
+ */
+const DOUBLE_QUANTIZATION_SCORE = 0.75;
+
+export type JpegComponent = {
+  id: number;
+  /** Horizontal and vertical sampling factors */
+  h: number;
+  v: number;
+  quantTableId: number;
+  /** Blocks per row and column, padded to whole MCUs */
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  /** Quantized coefficients, 64 per block in natural order */
+  coefficients: Int16Array;
+};
+
+/**
+ * The quantized DCT coefficients of an 8-bit JPEG with what it takes to
+ * write it back: the quantization tables, and the APPn and COM segments
+ * (EXIF, ICC profiles, comments) in their original order.
+ */
+export type JpegImage = {
+  width: number;
+  height: number;
+  components: JpegComponent[];
+  /** Quantization tables by identifier, in natural order */
+  quantTables: Array<Uint16Array | undefined>;
+  /** Raw APPn and COM segments, marker included */
+  segments: Uint8Array[];
+};
+
+type HuffmanTable = {
+  /** Largest code of each length (1-16), or -1 when there is none */
+  maxCode: Int32Array;
+  /** Index into `symbols` of the first code of each length, less that code */
+  valueOffset: Int32Array;
+  symbols: Uint8Array;
+};
+
+type ScanComponent = {
+  component: JpegComponent;
+  dcTable?: HuffmanTable;
+  acTable?: HuffmanTable;
+  /** DC prediction, reset at every restart */
+  pred: number;
+};
+
+type Scan = {
+  components: ScanComponent[];
+  spectralStart: number;
+  spectralEnd: number;
+  approximationHigh: number;
+  approximationLow: number;
+  restartInterval: number;
+};
+
+function buildHuffmanTable(counts: Uint8Array, symbols: Uint8Array): HuffmanTable {
+  const maxCode = new Int32Array(17).fill(-1);
+  const valueOffset = new Int32Array(17);
+  let code = 0;
+  let index = 0;
+  for (let length = 1; length <= 16; length++) {
+    valueOffset[length] = index - code;
+    code += counts[length - 1];
+    index += counts[length - 1];
+    if (counts[length - 1] > 0) {
+      maxCode[length] = code - 1;
+    }
+    code <<= 1;
+  }
+  return { maxCode, valueOffset, symbols };
+}
+
+/**
+ * Reads the entropy-coded data of a scan bit by bit, skipping stuffed
+ * zero bytes. At a marker it stops advancing and yields zero bits.
+ */
+class BitReader {
+  private buffer = 0;
+  private bitsLeft = 0;
+
+  constructor(
+    private readonly data: Uint8Array,
+    public offset: number
+  ) {}
+
+  readBit(): number {
+    if (this.bitsLeft === 0) {
+      const byte = this.data[this.offset];
+      if (byte === undefined || (byte === 0xff && this.data[this.offset + 1] !== 0)) {
+        return 0;
+      }
+      this.offset += byte === 0xff ? 2 : 1;
+      this.buffer = byte;
+      this.bitsLeft = 8;
+    }
+    this.bitsLeft--;
+    return (this.buffer >> this.bitsLeft) & 1;
+  }
+
+  receive(length: number): number {
+    let value = 0;
+    for (let i = 0; i < length; i++) {
+      value = (value << 1) | this.readBit();
+    }
+    return value;
+  }
+
+  /** Read `length` bits and extend them to the signed value they code */
+  receiveExtend(length: number): number {
+    if (length === 0) {
+      return 0;
+    }
+    const value = this.receive(length);
+    return value < 1 << (length - 1) ? value - (1 << length) + 1 : value;
+  }
+
+  decode(table: HuffmanTable): number {
+    let code = 0;
+    for (let length = 1; length <= 16; length++) {
+      code = (code << 1) | this.readBit();
+      if (code <= table.maxCode[length]) {
+        return table.symbols[table.valueOffset[length] + code];
+      }
+    }
+    throw new Error('Invalid Huffman code in JPEG data');
+  }
+
+  /** Drop the bits left of the current byte and skip a restart marker */
+  restart(): void {
+    this.bitsLeft = 0;
+    const marker = this.data[this.offset + 1];
+    if (this.data[this.offset] === 0xff && marker >= 0xd0 && marker <= 0xd7) {
+      this.offset += 2;
+    }
+  }
+}
+
+function maxSampling(components: JpegComponent[]): { maxH: number; maxV: number } {
+  return {
+    maxH: Math.max(...components.map(({ h }) => h)),
+    maxV: Math.max(...components.map(({ v }) => v)),
+  };
+}
+
+/**
+ * Blocks of a component that cover the image, without the padding to
+ * whole MCUs: what a scan of that component alone codes.
+ */
+function componentBlocks(
+  jpeg: Pick<JpegImage, 'width' | 'height' | 'components'>,
+  component: JpegComponent
+): { cols: number; rows: number } {
+  const { maxH, maxV } = maxSampling(jpeg.components);
+  return {
+    cols: Math.ceil(Math.ceil((jpeg.width * component.h) / maxH) / 8),
+    rows: Math.ceil(Math.ceil((jpeg.height * component.v) / maxV) / 8),
+  };
+}
+
+/**
+ * Visit the blocks of a scan in coding order, as offsets into the
+ * coefficients of their component. A scan of one component codes its
+ * blocks row by row; a scan of several codes them MCU by MCU, padding
+ * included. `restart` runs before every `restartInterval` units.
+ */
+function forEachScanBlock(
+  jpeg: Pick<JpegImage, 'width' | 'height' | 'components'>,
+  components: JpegComponent[],
+  restartInterval: number,
+  visit: (componentIndex: number, offset: number) => void,
+  restart: () => void
+): void {
+  const { maxH, maxV } = maxSampling(jpeg.components);
+  const single = components.length === 1;
+  const { cols, rows } = single
+    ? componentBlocks(jpeg, components[0])
+    : {
+        cols: Math.ceil(jpeg.width / (8 * maxH)),
+        rows: Math.ceil(jpeg.height / (8 * maxV)),
+      };
+
+  for (let unit = 0; unit < cols * rows; unit++) {
+    if (restartInterval > 0 && unit > 0 && unit % restartInterval === 0) {
+      restart();
+    }
+    const unitRow = Math.floor(unit / cols);
+    const unitCol = unit % cols;
+    if (single) {
+      visit(0, (unitRow * components[0].blocksPerLine + unitCol) * 64);
+      continue;
+    }
+    components.forEach((component, index) => {
+      for (let v = 0; v < component.v; v++) {
+        for (let h = 0; h < component.h; h++) {
+          const row = unitRow * component.v + v;
+          const col = unitCol * component.h + h;
+          visit(index, (row * component.blocksPerLine + col) * 64);
+        }
+      }
+    });
+  }
+}
+
+/**
+ * Decode one scan into the coefficients of its components, following
+ * ITU T.81 Annex F (sequential) and G (progressive). Returns the offset
+ * just past the entropy-coded data.
+ */
+function decodeScan(jpeg: JpegImage, data: Uint8Array, offset: number, scan: Scan): number {
+  const { components, spectralStart, spectralEnd, approximationHigh, approximationLow } = scan;
+  const reader = new BitReader(data, offset);
+  let eobRun = 0;
+
+  const decodeSequential = ({ component, dcTable, acTable }: ScanComponent, block: number) => {
+    const scanComponent = components.find((c) => c.component === component)!;
+    scanComponent.pred += reader.receiveExtend(reader.decode(dcTable!));
+    component.coefficients[block] = scanComponent.pred;
+    for (let k = 1; k < 64; k++) {
+      const rs = reader.decode(acTable!);
+      const r = rs >> 4;
+      if ((rs & 15) === 0) {
+        if (r < 15) {
+          break;
+        }
+        k += 15;
+        continue;
+      }
+      k += r;
+      component.coefficients[block + ZIGZAG[k]] = reader.receiveExtend(rs & 15);
+    }
+  };
+
+  const decodeDcFirst = (scanComponent: ScanComponent, block: number) => {
+    scanComponent.pred += reader.receiveExtend(reader.decode(scanComponent.dcTable!));
+    scanComponent.component.coefficients[block] = scanComponent.pred * (1 << approximationLow);
+  };
+
+  const decodeDcRefine = ({ component }: ScanComponent, block: number) => {
+    if (reader.readBit()) {
+      component.coefficients[block] |= 1 << approximationLow;
+    }
+  };
+
+  const decodeAcFirst = ({ component, acTable }: ScanComponent, block: number) => {
+    if (eobRun > 0) {
+      eobRun--;
+      return;
+    }
+    for (let k = spectralStart; k <= spectralEnd; k++) {
+      const rs = reader.decode(acTable!);
+      const r = rs >> 4;
+      if ((rs & 15) === 0) {
+        if (r < 15) {
+          eobRun = (1 << r) - 1 + reader.receive(r);
+          break;
+        }
+        k += 15;
+        continue;
+      }
+      k += r;
+      component.coefficients[block + ZIGZAG[k]] =
+        reader.receiveExtend(rs & 15) * (1 << approximationLow);
+    }
+  };
+
+  const decodeAcRefine = ({ component, acTable }: ScanComponent, block: number) => {
+    const { coefficients } = component;
+    const plus = 1 << approximationLow;
+    const minus = -1 << approximationLow;
+    const refine = (index: number) => {
+      const value = coefficients[index];
+      if (reader.readBit() && (value & plus) === 0) {
+        coefficients[index] = value + (value >= 0 ? plus : minus);
+      }
+    };
+
+    let k = spectralStart;
+    if (eobRun === 0) {
+      for (; k <= spectralEnd; k++) {
+        const rs = reader.decode(acTable!);
+        let r = rs >> 4;
+        let value = 0;
+        if ((rs & 15) !== 0) {
+          value = reader.readBit() ? plus : minus;
+        } else if (r !== 15) {
+          eobRun = (1 << r) + reader.receive(r);
+          break;
+        }
+        // Pass over r zero coefficients, refining the nonzero ones between
+        for (; k <= spectralEnd; k++) {
+          const index = block + ZIGZAG[k];
+          if (coefficients[index] !== 0) {
+            refine(index);
+          } else if (--r < 0) {
+            break;
+          }
+        }
+        if (value !== 0 && k <= spectralEnd) {
+          coefficients[block + ZIGZAG[k]] = value;
+        }
+      }
+    }
+    if (eobRun > 0) {
+      for (; k <= spectralEnd; k++) {
+        const index = block + ZIGZAG[k];
+        if (coefficients[index] !== 0) {
+          refine(index);
+        }
+      }
+      eobRun--;
+    }
+  };
+
+  const sequential =
+    spectralStart === 0 && spectralEnd === 63 && approximationHigh === 0 && approximationLow === 0;
+  let decodeBlock = decodeSequential;
+  if (!sequential && spectralStart === 0) {
+    decodeBlock = approximationHigh === 0 ? decodeDcFirst : decodeDcRefine;
+  } else if (!sequential) {
+    decodeBlock = approximationHigh === 0 ? decodeAcFirst : decodeAcRefine;
+  }
+
+  forEachScanBlock(
+    jpeg,
+    components.map(({ component }) => component),
+    scan.restartInterval,
+    (index, block) => decodeBlock(components[index], block),
+    () => {
+      reader.restart();
+      eobRun = 0;
+      for (const scanComponent of components) {
+        scanComponent.pred = 0;
+      }
+    }
+  );
+  return reader.offset;
+}
+
+/**
+ * Offset of the marker that ends the entropy-coded data of a scan, at or
+ * after `offset`: the first 0xFF that is neither a stuffed byte nor a
+ * restart marker.
+ */
+function findMarker(data: Uint8Array, offset: number): number {
+  while (offset + 1 < data.length) {
+    const next = data[offset + 1];
+    if (data[offset] === 0xff && next !== 0 && !(next >= 0xd0 && next <= 0xd7)) {
+      return offset;
+    }
+    offset++;
+  }
+  return data.length;
+}
+
+/** Whether a marker starts a frame header (SOF0-SOF15, bar DHT, JPG and DAC) */
+function isFrameMarker(marker: number): boolean {
+  return marker >= 0xc0 && marker <= 0xcf && marker !== DHT && marker !== 0xc8 && marker !== 0xcc;
+}
+
+/** Read the tables of a DQT segment into `tables`, by identifier */
+function parseQuantTables(body: Uint8Array, tables: Array<Uint16Array | undefined>): void {
+  for (let i = 0; i < body.length; ) {
+    const sixteenBit = body[i] >> 4;
+    const table = new Uint16Array(64);
+    tables[body[i] & 15] = table;
+    i++;
+    for (let k = 0; k < 64; k++) {
+      table[ZIGZAG[k]] = sixteenBit ? (body[i] << 8) | body[i + 1] : body[i];
+      i += sixteenBit ? 2 : 1;
+    }
+  }
+}
+
+/** The quantization tables of a JPEG's luminance and, if any, chrominance */
+export type JpegQuantization = {
+  luminance: Uint16Array;
+  chrominance?: Uint16Array;
+};
+
+/**
+ * The quantization tables of a JPEG, read from the segments before its
+ * first scan without decoding anything, or null when the data is not a
+ * JPEG or names a table it does not define.
+ */
+export function readQuantization(bytes: Uint8Array): JpegQuantization | null {
+  if (bytes[0] !== 0xff || bytes[1] !== SOI) {
+    return null;
+  }
+  const tables: Array<Uint16Array | undefined> = [];
+  let tableIds: number[] = [];
+  let offset = 2;
+  while (offset + 3 < bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === SOS || marker === EOI) {
+      break;
+    }
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    const body = bytes.subarray(offset + 4, Math.min(end, bytes.length));
+    if (marker === DQT) {
+      parseQuantTables(body, tables);
+    } else if (isFrameMarker(marker)) {
+      tableIds = Array.from({ length: body[5] }, (_, i) => body[8 + i * 3]);
+    }
+    offset = end;
+  }
+
+  const [luminance, chrominance] = tableIds.map((id) => tables[id]);
+  if (!luminance) {
+    return null;
+  }
+  return { luminance, chrominance };
+}
+
+/**
+ * Parse a baseline, extended or progressive Huffman-coded 8-bit JPEG into
+ * its quantized coefficients. Returns null for data that is not a JPEG or
+ * a JPEG this module does not read: lossless or arithmetic-coded, 12-bit,
+ * CMYK or RGB, or with a subsampled luminance. Throws on corrupt data.
+ */
+export function readJpeg(bytes: Uint8Array): JpegImage | null {
+  if (bytes[0] !== 0xff || bytes[1] !== SOI) {
+    return null;
+  }
+  const quantTables: Array<Uint16Array | undefined> = [];
+  const dcTables: HuffmanTable[] = [];
+  const acTables: HuffmanTable[] = [];
+  const segments: Uint8Array[] = [];
+  let jpeg: JpegImage | undefined;
+  let restartInterval = 0;
+  let adobeTransform: number | undefined;
+
+  let offset = 2;
+  while (offset + 1 < bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      throw new Error(`Invalid JPEG marker at offset ${offset}`);
+    }
+    const marker = bytes[offset + 1];
+    // Fill bytes may precede any marker
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === EOI) {
+      break;
+    }
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const start = offset + 4;
+    const end = offset + 2 + length;
+    if (end > bytes.length) {
+      throw new Error('Truncated JPEG segment');
+    }
+    const body = bytes.subarray(start, end);
+    offset = end;
+
+    if (UNSUPPORTED_FRAMES.includes(marker)) {
+      return null;
+    }
+    switch (marker) {
+      case DQT:
+        parseQuantTables(body, quantTables);
+        break;
+      case DHT:
+        for (let i = 0; i < body.length; ) {
+          const counts = body.subarray(i + 1, i + 17);
+          const total = counts.reduce((sum, count) => sum + count, 0);
+          const table = buildHuffmanTable(counts, body.slice(i + 17, i + 17 + total));
+          (body[i] >> 4 === 0 ? dcTables : acTables)[body[i] & 15] = table;
+          i += 17 + total;
+        }
+        break;
+      case SOF_BASELINE:
+      case SOF_EXTENDED:
+      case SOF_PROGRESSIVE: {
+        const height = (body[1] << 8) | body[2];
+        const width = (body[3] << 8) | body[4];
+        // Heights given later in a DNL segment are not supported either
+        if (body[0] !== 8 || height === 0) {
+          return null;
+        }
+        const components: JpegComponent[] = [];
+        for (let i = 0; i < body[5]; i++) {
+          const sampling = body[7 + i * 3];
+          components.push({
+            id: body[6 + i * 3],
+            h: sampling >> 4,
+            v: sampling & 15,
+            quantTableId: body[8 + i * 3],
+            blocksPerLine: 0,
+            blocksPerColumn: 0,
+            coefficients: new Int16Array(0),
+          });
+        }
+        const { maxH, maxV } = maxSampling(components);
+        const mcusPerLine = Math.ceil(width / (8 * maxH));
+        const mcusPerColumn = Math.ceil(height / (8 * maxV));
+        for (const component of components) {
+          component.blocksPerLine = mcusPerLine * component.h;
+          component.blocksPerColumn = mcusPerColumn * component.v;
+          component.coefficients = new Int16Array(
+            component.blocksPerLine * component.blocksPerColumn * 64
+          );
+        }
+        jpeg = { width, height, components, quantTables, segments };
+        break;
+      }
+      case DRI:
+        restartInterval = (body[0] << 8) | body[1];
+        break;
+      case SOS: {
+        if (!jpeg) {
+          throw new Error('JPEG scan before its frame header');
+        }
+        const count = body[0];
+        const components: ScanComponent[] = [];
+        for (let i = 0; i < count; i++) {
+          const component = jpeg.components.find(({ id }) => id === body[1 + i * 2]);
+          if (!component) {
+            throw new Error(`JPEG scan of unknown component ${body[1 + i * 2]}`);
+          }
+          const tables = body[2 + i * 2];
+          components.push({
+            component,
+            dcTable: dcTables[tables >> 4],
+            acTable: acTables[tables & 15],
+            pred: 0,
+          });
+        }
+        const parameters = body.subarray(1 + count * 2);
+        const scanEnd = decodeScan(jpeg, bytes, end, {
+          components,
+          spectralStart: parameters[0],
+          spectralEnd: parameters[1],
+          approximationHigh: parameters[2] >> 4,
+          approximationLow: parameters[2] & 15,
+          restartInterval,
+        });
+        offset = findMarker(bytes, scanEnd);
+        break;
+      }
+      default:
+        if ((marker >= APP0 && marker <= APP15) || marker === COM) {
+          segments.push(bytes.slice(start - 4, end));
+          const adobe = String.fromCharCode(...body.subarray(0, 5)) === 'Adobe';
+          if (marker === APP14 && adobe && body.length >= 12) {
+            adobeTransform = body[11];
+          }
+        }
+    }
+  }
+
+  if (!jpeg) {
+    throw new Error('JPEG without a frame header');
+  }
+  const [luminance, ...chroma] = jpeg.components;
+  const { maxH, maxV } = maxSampling(jpeg.components);
+  const isYCbCr =
+    jpeg.components.length === 1 || (chroma.length === 2 && adobeTransform !== 0);
+  if (!isYCbCr || luminance.h !== maxH || luminance.v !== maxV) {
+    return null;
+  }
+  return jpeg;
+}
+
+/** Number of bits of the magnitude of a value: its Huffman category */
+function category(value: number): number {
+  let magnitude = Math.abs(value);
+  let bits = 0;
+  while (magnitude > 0) {
+    bits++;
+    magnitude >>= 1;
+  }
+  return bits;
+}
+
+/**
+ * Code lengths of an optimal Huffman code for the symbol frequencies, no
+ * longer than 16 bits and never all ones, following ITU T.81 Annex K.2.
+ * Returns the counts per length and the symbols by length, as in DHT.
+ */
+function optimalHuffmanTable(
+  frequencies: Uint32Array
+): { counts: Uint8Array; symbols: Uint8Array } {
+  // Symbol 256 reserves the all-ones code
+  const freq = Float64Array.from({ length: 257 }, (_, i) => (i < 256 ? frequencies[i] : 1));
+  const codeSize = new Int32Array(257);
+  const others = new Int32Array(257).fill(-1);
+
+  for (;;) {
+    let c1 = -1;
+    let c2 = -1;
+    for (let i = 0; i < 257; i++) {
+      if (freq[i] > 0 && (c1 < 0 || freq[i] <= freq[c1])) {
+        c1 = i;
+      }
+    }
+    for (let i = 0; i < 257; i++) {
+      if (freq[i] > 0 && i !== c1 && (c2 < 0 || freq[i] <= freq[c2])) {
+        c2 = i;
+      }
+    }
+    if (c2 < 0) {
+      break;
+    }
+    freq[c1] += freq[c2];
+    freq[c2] = 0;
+    codeSize[c1]++;
+    while (others[c1] >= 0) {
+      c1 = others[c1];
+      codeSize[c1]++;
+    }
+    others[c1] = c2;
+    codeSize[c2]++;
+    while (others[c2] >= 0) {
+      c2 = others[c2];
+      codeSize[c2]++;
+    }
+  }
+
+  const bits = new Int32Array(33);
+  for (let i = 0; i < 257; i++) {
+    if (codeSize[i] > 0) {
+      bits[codeSize[i]]++;
+    }
+  }
+  for (let i = 32; i > 16; i--) {
+    while (bits[i] > 0) {
+      let j = i - 2;
+      while (bits[j] === 0) {
+        j--;
+      }
+      bits[i] -= 2;
+      bits[i - 1]++;
+      bits[j + 1] += 2;
+      bits[j]--;
+    }
+  }
+  let longest = 16;
+  while (bits[longest] === 0) {
+    longest--;
+  }
+  bits[longest]--;
+
+  const symbols: number[] = [];
+  for (let length = 1; length <= 32; length++) {
+    for (let symbol = 0; symbol < 256; symbol++) {
+      if (codeSize[symbol] === length) {
+        symbols.push(symbol);
+      }
+    }
+  }
+  return { counts: Uint8Array.from(bits.subarray(1, 17)), symbols: Uint8Array.from(symbols) };
+}
+
+/** Canonical codes of a DHT table, indexed by symbol */
+function huffmanCodes(
+  counts: Uint8Array,
+  symbols: Uint8Array
+): { codes: Uint16Array; sizes: Uint8Array } {
+  const codes = new Uint16Array(256);
+  const sizes = new Uint8Array(256);
+  let code = 0;
+  let index = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < counts[length - 1]; i++) {
+      codes[symbols[index]] = code++;
+      sizes[symbols[index]] = length;
+      index++;
+    }
+    code <<= 1;
+  }
+  return { codes, sizes };
+}
+
+class ByteWriter {
+  private bytes: Uint8Array<ArrayBuffer> = new Uint8Array(1 << 16);
+  private length = 0;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  private ensure(extra: number): void {
+    if (this.length + extra > this.bytes.length) {
+      const grown = new Uint8Array(Math.max(this.bytes.length * 2, this.length + extra));
+      grown.set(this.bytes.subarray(0, this.length));
+      this.bytes = grown;
+    }
+  }
+
+  write(bytes: ArrayLike<number>): void {
+    this.ensure(bytes.length);
+    this.bytes.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  segment(marker: number, body: number[]): void {
+    const length = body.length + 2;
+    this.write([0xff, marker, length >> 8, length & 0xff, ...body]);
+  }
+
+  /** Append entropy-coded bits, stuffing a zero after every 0xFF */
+  writeBits(value: number, count: number): void {
+    for (let i = count - 1; i >= 0; i--) {
+      this.bitBuffer = (this.bitBuffer << 1) | ((value >> i) & 1);
+      if (++this.bitCount === 8) {
+        this.write(this.bitBuffer === 0xff ? [0xff, 0] : [this.bitBuffer]);
+        this.bitBuffer = 0;
+        this.bitCount = 0;
+      }
+    }
+  }
+
+  /** Pad the last byte of entropy-coded data with one bits */
+  flushBits(): void {
+    if (this.bitCount > 0) {
+      this.writeBits(0x7f, 8 - this.bitCount);
+    }
+  }
+
+  result(): Uint8Array<ArrayBuffer> {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+/**
+ * Visit the Huffman symbols of a single baseline scan of every component,
+ * with the extra bits that follow each.
+ */
+function forEachSymbol(
+  jpeg: JpegImage,
+  visit: (componentIndex: number, ac: boolean, symbol: number, bits: number, size: number) => void
+): void {
+  const preds = jpeg.components.map(() => 0);
+  forEachScanBlock(
+    jpeg,
+    jpeg.components,
+    0,
+    (index, block) => {
+      const { coefficients } = jpeg.components[index];
+      const diff = coefficients[block] - preds[index];
+      preds[index] = coefficients[block];
+      const dcSize = category(diff);
+      visit(index, false, dcSize, diff < 0 ? diff - 1 : diff, dcSize);
+
+      let run = 0;
+      for (let k = 1; k < 64; k++) {
+        const value = Math.max(
+          -MAX_AC_COEFFICIENT,
+          Math.min(MAX_AC_COEFFICIENT, coefficients[block + ZIGZAG[k]])
+        );
+        if (value === 0) {
+          run++;
+          continue;
+        }
+        for (; run > 15; run -= 16) {
+          visit(index, true, 0xf0, 0, 0);
+        }
+        const size = category(value);
+        visit(index, true, (run << 4) | size, value < 0 ? value - 1 : value, size);
+        run = 0;
+      }
+      if (run > 0) {
+        visit(index, true, 0, 0, 0);
+      }
+    },
+    () => {}
+  );
+}
+
+/**
+ * Write a JPEG back as a single baseline scan with Huffman tables
+ * optimized for its coefficients, keeping its quantization tables and
+ * APPn and COM segments. A progressive JPEG comes back sequential, with
+ * the same coefficients, and restart markers are dropped.
+ */
+export function writeJpeg(jpeg: JpegImage): Uint8Array<ArrayBuffer> {
+  const out = new ByteWriter();
+  out.write([0xff, SOI]);
+  for (const segment of jpeg.segments) {
+    out.write(segment);
+  }
+
+  const tableIds = [...new Set(jpeg.components.map(({ quantTableId }) => quantTableId))];
+  let sixteenBit = false;
+  for (const id of tableIds) {
+    const table = jpeg.quantTables[id];
+    if (!table) {
+      throw new Error(`JPEG component uses missing quantization table ${id}`);
+    }
+    const wide = table.some((value) => value > 255);
+    sixteenBit ||= wide;
+    const values = Array.from(ZIGZAG, (index) => table[index]);
+    out.segment(
+      DQT,
+      [(wide ? 1 << 4 : 0) | id, ...(wide ? values.flatMap((v) => [v >> 8, v & 0xff]) : values)]
+    );
+  }
+
+  const { width, height, components } = jpeg;
+  out.segment(sixteenBit ? SOF_EXTENDED : SOF_BASELINE, [
+    8,
+    height >> 8,
+    height & 0xff,
+    width >> 8,
+    width & 0xff,
+    components.length,
+    ...components.flatMap(({ id, h, v, quantTableId }) => [id, (h << 4) | v, quantTableId]),
+  ]);
+
+  // Luminance gets the first pair of tables, chroma the second
+  const tableOf = (componentIndex: number) => (componentIndex === 0 ? 0 : 1);
+  const frequencies = [0, 1, 2, 3].map(() => new Uint32Array(256));
+  forEachSymbol(jpeg, (index, ac, symbol) => {
+    frequencies[tableOf(index) * 2 + (ac ? 1 : 0)][symbol]++;
+  });
+  const tables = frequencies.map((counts) => {
+    // A table no symbol uses still needs one code to be valid
+    if (counts.every((count) => count === 0)) {
+      counts[0] = 1;
+    }
+    return optimalHuffmanTable(counts);
+  });
+  const tableCount = components.length > 1 ? 2 : 1;
+  for (let id = 0; id < tableCount; id++) {
+    for (const ac of [0, 1]) {
+      const { counts, symbols } = tables[id * 2 + ac];
+      out.segment(DHT, [(ac << 4) | id, ...counts, ...symbols]);
+    }
+  }
+
+  out.segment(SOS, [
+    components.length,
+    ...components.flatMap(({ id }, index) => [id, (tableOf(index) << 4) | tableOf(index)]),
+    0,
+    63,
+    0,
+  ]);
+  const codes = tables.map(({ counts, symbols }) => huffmanCodes(counts, symbols));
+  forEachSymbol(jpeg, (index, ac, symbol, bits, size) => {
+    const { codes: table, sizes } = codes[tableOf(index) * 2 + (ac ? 1 : 0)];
+    out.writeBits(table[symbol], sizes[symbol]);
+    out.writeBits(bits, size);
+  });
+  out.flushBits();
+  out.write([0xff, EOI]);
+  return out.result();
+}
+
+/**
+ * The luminance component of a JPEG as the coefficients the embedder
+ * marks, shown at the size of the image.
+ */
+export function luminancePlane(jpeg: JpegImage): QuantizedPlane {
+  const { quantTableId, blocksPerLine, coefficients } = jpeg.components[0];
+  return {
+    width: jpeg.width,
+    height: jpeg.height,
+    blocksPerLine,
+    coefficients,
+    quantTable: jpeg.quantTables[quantTableId]!,
+  };
+}
+
+/**
+ * The same JPEG with other luminance coefficients.
+ */
+export function withLuminance(jpeg: JpegImage, coefficients: Int16Array): JpegImage {
+  const [luminance, ...chroma] = jpeg.components;
+  return { ...jpeg, components: [{ ...luminance, coefficients }, ...chroma] };
+}
+
+/**
+ * The luminance of a JPEG computed from its coefficients, as a decoder
+ * would before rounding and clamping to 8 bits.
+ */
+export function jpegLuminance(jpeg: JpegImage): Float32Array {
+  const { width, height } = jpeg;
+  const { quantTableId, blocksPerLine, coefficients } = jpeg.components[0];
+  const table = jpeg.quantTables[quantTableId]!;
+  const y = new Float32Array(width * height);
+  const block = new Float32Array(64);
+
+  for (let by = 0; by < Math.ceil(height / 8); by++) {
+    for (let bx = 0; bx < Math.ceil(width / 8); bx++) {
+      const offset = (by * blocksPerLine + bx) * 64;
+      for (let i = 0; i < 64; i++) {
+        block[i] = coefficients[offset + i] * table[i];
+      }
+      const samples = idct2d(block);
+      for (let row = 0; row < 8 && by * 8 + row < height; row++) {
+        for (let col = 0; col < 8 && bx * 8 + col < width; col++) {
+          y[(by * 8 + row) * width + bx * 8 + col] = samples[row * 8 + col] + LEVEL_SHIFT;
+        }
+      }
+    }
+  }
+  return y;
+}
+
+/**
+ * Whether the luminance of a JPEG was quantized by an earlier, coarser
+ * table before its own. Compressing once leaves the counts of the
+ * coefficient levels falling smoothly; requantizing an image decoded from
+ * a JPEG with a finer table leaves some levels empty and others crowded.
+ * The low frequencies the mark never moves are looked at, so marking does
+ * not count. A second table as coarse as the first or coarser leaves
+ * too little trace to tell from a single compression and is not detected.
+ */
+export function isDoubleQuantized(jpeg: JpegImage): boolean {
+  const { coefficients } = jpeg.components[0];
+  const histograms = UNMARKED_LOW_FREQ_COEFFS.map(() => new Float64Array(HISTOGRAM_LEVELS));
+  for (let offset = 0; offset < coefficients.length; offset += 64) {
+    UNMARKED_LOW_FREQ_COEFFS.forEach(([u, v], i) => {
+      const level = Math.abs(coefficients[offset + u * 8 + v]);
+      if (level < HISTOGRAM_LEVELS) {
+        histograms[i][level]++;
+      }
+    });
+  }
+
+  // Compare each count with the geometric mean of its neighbours, which a
+  // single quantization of a peaked distribution keeps it close to
+  let deviation = 0;
+  let mass = 0;
+  for (const histogram of histograms) {
+    for (let level = 1; level < HISTOGRAM_LEVELS - 1; level++) {
+      const expected = Math.sqrt(histogram[level - 1] * histogram[level + 1]);
+      const larger = Math.max(histogram[level], expected);
+      if (larger >= MIN_LEVEL_COUNT) {
+        deviation += Math.abs(histogram[level] - expected);
+        mass += larger;
+      }
+    }
+  }
+  return mass >= MIN_HISTOGRAM_MASS && deviation / mass >= DOUBLE_QUANTIZATION_SCORE;
+}
+
+/**
+ * The JPEG an input holds, or null when it holds none that `readJpeg`
+ * reads. Decoded inputs (ImageData, images, canvases) hold none.
+ */
+export async function readInputJpeg(input: ImageInput): Promise<JpegImage | null> {
+  if (
+    !(input instanceof Blob) &&
+    !(input instanceof ArrayBuffer) &&
+    !(input instanceof Uint8Array)
+  ) {
+    return null;
+  }
+  return readJpeg(await inputToUint8Array(input));
+}
+
+/** A JPEG input as stored, for what its pixels no longer tell */
+export type StoredJpeg = {
+  jpeg: JpegImage;
+  /**
+   * Luminance straight from the coefficients, free of the decoder's
+   * rounding; absent when an EXIF orientation shows the image turned, so
+   * its stored pixels are not the decoded ones
+   */
+  luminance?: Float32Array;
+};
+
+/**
+ * The JPEG an input holds as stored, or undefined when there is none to
+ * read. Corrupt data is left to the decoder, which may make more of it.
+ */
+export async function readStoredJpeg(input: ImageInput): Promise<StoredJpeg | undefined> {
+  let jpeg: JpegImage | null;
+  try {
+    jpeg = await readInputJpeg(input);
+  } catch {
+    return undefined;
+  }
+  if (!jpeg) {
+    return undefined;
+  }
+  if (!isIdentityOrientation(exifOrientation(await readInputOrientation(input)))) {
+    return { jpeg };
+  }
+  return { jpeg, luminance: jpegLuminance(jpeg) };
+}
@@ -0,0 +1,659 @@
+import type { ImageInput } from './decode';
+import { orientationExif, PNG_SIGNATURE, readTiffOrientation, uprightExif } from './exif';
+import { inputToUint8Array } from './pdf';
+import { deflate, inflate } from './zlib';
+
+/**
+ * Kinds of metadata watermark() carries from its input to its output:
+ * - `exif`: camera settings, dates, GPS position, copyright
+ * - `xmp`: XMP packet (rights, captions, edit history)
+ * - `icc`: ICC colour profile
+ * - `iptc`: IPTC fields in Photoshop image resources (JPEG only)
+ * - `resolution`: pixel density (DPI) for printing
+ * - `text`: JPEG comments and PNG text chunks
+ */
+export type MetadataKind = 'exif' | 'xmp' | 'icc' | 'iptc' | 'resolution' | 'text';
+
+export const METADATA_KINDS: MetadataKind[] = ['exif', 'xmp', 'icc', 'iptc', 'resolution', 'text'];
+
+/** Pixel density, in the unit the file gave it in */
+type Resolution = { x: number; y: number; unit: 'inch' | 'cm' | 'metre' };
+
+/** A PNG text chunk, or a JPEG comment under the keyword 'Comment' */
+type TextEntry = { keyword: string; text: string };
+
+/** Metadata of an image, whatever format it was read from */
+export type ImageMetadata = {
+  /** TIFF structure of the EXIF block */
+  exif?: Uint8Array;
+  /** XMP packet, UTF-8 */
+  xmp?: Uint8Array;
+  icc?: Uint8Array;
+  /** Photoshop image resources, holding the IPTC record */
+  iptc?: Uint8Array;
+  resolution?: Resolution;
+  text: TextEntry[];
+};
+
+const SOI = 0xd8;
+const EOI = 0xd9;
+const SOS = 0xda;
+const APP0 = 0xe0;
+const APP1 = 0xe1;
+const APP2 = 0xe2;
+const APP13 = 0xed;
+const COM = 0xfe;
+
+/** Identifiers that open the JPEG segments of each kind */
+const JFIF_ID = 'JFIF\0';
+const EXIF_ID = 'Exif\0\0';
+const XMP_ID = 'http://ns.adobe.com/xap/1.0/\0';
+const EXTENDED_XMP_ID = 'http://ns.adobe.com/xmp/extension/\0';
+const ICC_ID = 'ICC_PROFILE\0';
+const IPTC_ID = 'Photoshop 3.0\0';
+
+/** Largest body of a JPEG segment, after its length */
+const MAX_SEGMENT_BODY = 65533;
+
+/** Bytes an ICC_PROFILE segment spends on its identifier and numbering */
+const ICC_CHUNK_HEADER = ICC_ID.length + 2;
+
+/** Keyword of the PNG iTXt chunk holding XMP */
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp';
+
+/** Name given to an ICC profile written to a PNG */
+const PNG_ICC_NAME = 'ICC Profile';
+
+/** PNG chunks that describe colour; an ICC profile replaces them */
+const PNG_COLOUR_CHUNKS = ['iCCP', 'sRGB', 'gAMA', 'cHRM', 'cICP'];
+
+const PNG_TEXT_CHUNKS = ['tEXt', 'zTXt', 'iTXt'];
+
+/** Flags of a WebP VP8X chunk */
+const WEBP_ICC_FLAG = 0x20;
+const WEBP_ALPHA_FLAG = 0x10;
+const WEBP_EXIF_FLAG = 0x08;
+const WEBP_XMP_FLAG = 0x04;
+
+const METRES_PER_INCH = 0.0254;
+
+/** CRC-32 of each byte value, for PNG chunks */
+const CRC_TABLE = Uint32Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function latin1(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => String.fromCharCode(byte)).join('');
+}
+
+/** Bytes of a string, one per character when it fits in Latin-1, else UTF-8 */
+function encodeText(text: string): Uint8Array {
+  return isLatin1(text)
+    ? Uint8Array.from(text, (c) => c.charCodeAt(0))
+    : new TextEncoder().encode(text);
+}
+
+function isLatin1(text: string): boolean {
+  return [...text].every((c) => c.charCodeAt(0) < 256);
+}
+
+function startsWith(bytes: Uint8Array, id: string, offset = 0): boolean {
+  return (
+    bytes.length >= offset + id.length &&
+    latin1(bytes.subarray(offset, offset + id.length)) === id
+  );
+}
+
+/** Bytes up to the next NUL at or after `offset`, and the offset past it */
+function readNulTerminated(bytes: Uint8Array, offset: number): [Uint8Array, number] {
+  const end = bytes.indexOf(0, offset);
+  return end < 0 ? [bytes.subarray(offset), bytes.length] : [bytes.subarray(offset, end), end + 1];
+}
+
+type JpegSegment = { marker: number; body: Uint8Array; bytes: Uint8Array };
+
+/**
+ * The segments of a JPEG before its first scan, and the offset the scan
+ * starts at.
+ */
+function readJpegSegments(bytes: Uint8Array): { segments: JpegSegment[]; end: number } {
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+  while (offset + 3 < bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === SOS || marker === EOI) {
+      break;
+    }
+    const end = Math.min(bytes.length, offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]));
+    segments.push({
+      marker,
+      body: bytes.subarray(offset + 4, end),
+      bytes: bytes.subarray(offset, end),
+    });
+    offset = end;
+  }
+  return { segments, end: offset };
+}
+
+/** The kind of metadata a JPEG segment holds, if any */
+function jpegSegmentKind({ marker, body }: JpegSegment): MetadataKind | undefined {
+  if (marker === APP0 && startsWith(body, JFIF_ID)) {
+    return 'resolution';
+  }
+  if (marker === APP1 && startsWith(body, EXIF_ID)) {
+    return 'exif';
+  }
+  if (marker === APP1 && (startsWith(body, XMP_ID) || startsWith(body, EXTENDED_XMP_ID))) {
+    return 'xmp';
+  }
+  if (marker === APP2 && startsWith(body, ICC_ID)) {
+    return 'icc';
+  }
+  if (marker === APP13 && startsWith(body, IPTC_ID)) {
+    return 'iptc';
+  }
+  return marker === COM ? 'text' : undefined;
+}
+
+function readJpegMetadata(bytes: Uint8Array): ImageMetadata {
+  const metadata: ImageMetadata = { text: [] };
+  const iccChunks: Uint8Array[] = [];
+  let iccChunkCount = 0;
+  for (const segment of readJpegSegments(bytes).segments) {
+    const { body } = segment;
+    switch (jpegSegmentKind(segment)) {
+      case 'resolution': {
+        const unit = body[7] === 1 ? 'inch' : body[7] === 2 ? 'cm' : undefined;
+        if (unit) {
+          metadata.resolution = {
+            x: (body[8] << 8) | body[9],
+            y: (body[10] << 8) | body[11],
+            unit,
+          };
+        }
+        break;
+      }
+      case 'exif':
+        metadata.exif ??= body.slice(EXIF_ID.length);
+        break;
+      case 'xmp':
+        // Extended XMP, past 64 KB, only makes sense next to its segments
+        if (startsWith(body, XMP_ID)) {
+          metadata.xmp ??= body.slice(XMP_ID.length);
+        }
+        break;
+      case 'icc':
+        iccChunks[body[ICC_ID.length] - 1] = body.subarray(ICC_CHUNK_HEADER);
+        iccChunkCount = body[ICC_ID.length + 1];
+        break;
+      case 'iptc':
+        metadata.iptc ??= body.slice(IPTC_ID.length);
+        break;
+      case 'text':
+        metadata.text.push({ keyword: 'Comment', text: latin1(body) });
+        break;
+    }
+  }
+  if (iccChunkCount > 0 && iccChunks.filter(Boolean).length === iccChunkCount) {
+    metadata.icc = concat(iccChunks);
+  }
+  return metadata;
+}
+
+function jpegSegment(marker: number, ...parts: Array<Uint8Array | string>): Uint8Array {
+  const body = concat(parts.map((part) => (typeof part === 'string' ? encodeText(part) : part)));
+  const length = body.length + 2;
+  return concat([Uint8Array.of(0xff, marker, length >> 8, length & 0xff), body]);
+}
+
+/** A JFIF segment giving `resolution`, or only square pixels without one */
+function jfifSegment(resolution?: Resolution): Uint8Array {
+  const [unit, scale] =
+    resolution?.unit === 'inch' ? [1, 1] : resolution?.unit === 'cm' ? [2, 1] : [2, 0.01];
+  const density = (value: number) => Math.min(65535, Math.max(1, Math.round(value * scale)));
+  const [x, y] = resolution ? [density(resolution.x), density(resolution.y)] : [1, 1];
+  return jpegSegment(
+    APP0,
+    JFIF_ID,
+    Uint8Array.of(1, 2, resolution ? unit : 0, x >> 8, x & 0xff, y >> 8, y & 0xff, 0, 0)
+  );
+}
+
+/** The segments holding `metadata` in a JPEG, bar its resolution */
+function jpegMetadataSegments(metadata: ImageMetadata): Uint8Array[] {
+  const segments: Uint8Array[] = [];
+  const fits = (data: Uint8Array, id: string) => data.length + id.length <= MAX_SEGMENT_BODY;
+  if (metadata.exif && fits(metadata.exif, EXIF_ID)) {
+    segments.push(jpegSegment(APP1, EXIF_ID, metadata.exif));
+  }
+  if (metadata.xmp && fits(metadata.xmp, XMP_ID)) {
+    segments.push(jpegSegment(APP1, XMP_ID, metadata.xmp));
+  }
+  if (metadata.icc) {
+    const chunkSize = MAX_SEGMENT_BODY - ICC_CHUNK_HEADER;
+    const count = Math.ceil(metadata.icc.length / chunkSize);
+    for (let i = 0; i < count && count < 256; i++) {
+      const chunk = metadata.icc.subarray(i * chunkSize, (i + 1) * chunkSize);
+      segments.push(jpegSegment(APP2, ICC_ID, Uint8Array.of(i + 1, count), chunk));
+    }
+  }
+  if (metadata.iptc && fits(metadata.iptc, IPTC_ID)) {
+    segments.push(jpegSegment(APP13, IPTC_ID, metadata.iptc));
+  }
+  for (const { keyword, text } of metadata.text) {
+    const comment = keyword === 'Comment' ? text : `${keyword}: ${text}`;
+    segments.push(jpegSegment(COM, comment.slice(0, MAX_SEGMENT_BODY)));
+  }
+  return segments;
+}
+
+function writeJpegMetadata(bytes: Uint8Array, metadata: ImageMetadata): Uint8Array<ArrayBuffer> {
+  const { segments, end } = readJpegSegments(bytes);
+  const replaced = presentKinds(metadata);
+  // JFIF must come first; the encoder's is kept unless a resolution replaces it
+  const jfif = segments.find((segment) => jpegSegmentKind(segment) === 'resolution');
+  const leading =
+    metadata.resolution ? jfifSegment(metadata.resolution) : jfif?.bytes ?? new Uint8Array(0);
+  const kept = segments.filter((segment) => {
+    const kind = jpegSegmentKind(segment);
+    return kind !== 'resolution' && !(kind && replaced.includes(kind));
+  });
+  return concat([
+    Uint8Array.of(0xff, SOI),
+    leading,
+    ...jpegMetadataSegments(metadata),
+    ...kept.map((segment) => segment.bytes),
+    bytes.subarray(end),
+  ]);
+}
+
+/**
+ * The APPn and COM segments of a JPEG without the metadata of kinds not in
+ * `kinds`. A JFIF segment stays, as it says how to read the file, with its
+ * resolution cleared; an EXIF segment that turns the image is replaced by
+ * one that only does that, so the image still shows upright.
+ */
+export function filterJpegSegments(segments: Uint8Array[], kinds: MetadataKind[]): Uint8Array[] {
+  return segments.flatMap((bytes) => {
+    const segment = { marker: bytes[1], body: bytes.subarray(4), bytes };
+    const kind = jpegSegmentKind(segment);
+    if (!kind || kinds.includes(kind)) {
+      return [bytes];
+    }
+    if (kind === 'resolution') {
+      return [jfifSegment()];
+    }
+    if (kind === 'exif') {
+      const orientation = readTiffOrientation(segment.body.subarray(EXIF_ID.length));
+      return orientation && orientation !== 1
+        ? [jpegSegment(APP1, EXIF_ID, orientationExif(orientation))]
+        : [];
+    }
+    return [];
+  });
+}
+
+type PngChunk = { type: string; data: Uint8Array; bytes: Uint8Array };
+
+function readPngChunks(bytes: Uint8Array): PngChunk[] {
+  const chunks: PngChunk[] = [];
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const end = Math.min(bytes.length, offset + 12 + length);
+    chunks.push({
+      type: latin1(bytes.subarray(offset + 4, offset + 8)),
+      data: bytes.subarray(offset + 8, Math.min(end, offset + 8 + length)),
+      bytes: bytes.subarray(offset, end),
+    });
+    offset = end;
+  }
+  return chunks;
+}
+
+function pngChunk(type: string, ...parts: Array<Uint8Array | string>): Uint8Array {
+  const body = concat([
+    encodeText(type),
+    ...parts.map((part) => (typeof part === 'string' ? encodeText(part) : part)),
+  ]);
+  const chunk = new Uint8Array(body.length + 8);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, body.length - 4);
+  chunk.set(body, 4);
+  view.setUint32(body.length + 4, crc32(body));
+  return chunk;
+}
+
+async function readPngMetadata(bytes: Uint8Array): Promise<ImageMetadata> {
+  const metadata: ImageMetadata = { text: [] };
+  for (const { type, data } of readPngChunks(bytes)) {
+    const [keywordBytes, offset] = readNulTerminated(data, 0);
+    const keyword = latin1(keywordBytes);
+    if (type === 'eXIf') {
+      metadata.exif = data.slice();
+    } else if (type === 'iCCP') {
+      metadata.icc = await inflate(data.subarray(offset + 1));
+    } else if (type === 'pHYs' && data[8] === 1) {
+      const view = new DataView(data.buffer, data.byteOffset);
+      metadata.resolution = { x: view.getUint32(0), y: view.getUint32(4), unit: 'metre' };
+    } else if (type === 'tEXt') {
+      metadata.text.push({ keyword, text: latin1(data.subarray(offset)) });
+    } else if (type === 'zTXt') {
+      const text = await inflate(data.subarray(offset + 1));
+      if (text) {
+        metadata.text.push({ keyword, text: latin1(text) });
+      }
+    } else if (type === 'iTXt') {
+      const compressed = data[offset] === 1;
+      const [, afterLanguage] = readNulTerminated(data, offset + 2);
+      const [, start] = readNulTerminated(data, afterLanguage);
+      const raw = compressed ? await inflate(data.subarray(start)) : data.slice(start);
+      if (!raw) {
+        continue;
+      }
+      if (keyword === PNG_XMP_KEYWORD) {
+        metadata.xmp = raw;
+      } else {
+        metadata.text.push({ keyword, text: new TextDecoder().decode(raw) });
+      }
+    }
+  }
+  return metadata;
+}
+
+/** The chunks holding `metadata` in a PNG, which has no place for IPTC */
+async function pngMetadataChunks(metadata: ImageMetadata): Promise<Uint8Array[]> {
+  const chunks: Uint8Array[] = [];
+  if (metadata.icc) {
+    const profile = await deflate(metadata.icc);
+    chunks.push(pngChunk('iCCP', `${PNG_ICC_NAME}\0`, Uint8Array.of(0), profile));
+  }
+  if (metadata.exif) {
+    chunks.push(pngChunk('eXIf', metadata.exif));
+  }
+  if (metadata.resolution) {
+    const { x, y, unit } = metadata.resolution;
+    const scale = unit === 'inch' ? 1 / METRES_PER_INCH : unit === 'cm' ? 100 : 1;
+    const density = new Uint8Array(9);
+    const view = new DataView(density.buffer);
+    view.setUint32(0, Math.round(x * scale));
+    view.setUint32(4, Math.round(y * scale));
+    density[8] = 1;
+    chunks.push(pngChunk('pHYs', density));
+  }
+  if (metadata.xmp) {
+    chunks.push(pngChunk('iTXt', `${PNG_XMP_KEYWORD}\0\0\0\0\0`, metadata.xmp));
+  }
+  for (const { keyword, text } of metadata.text) {
+    chunks.push(
+      isLatin1(text)
+        ? pngChunk('tEXt', `${keyword}\0`, text)
+        : pngChunk('iTXt', `${keyword}\0\0\0\0\0`, new TextEncoder().encode(text))
+    );
+  }
+  return chunks;
+}
+
+async function writePngMetadata(
+  bytes: Uint8Array,
+  metadata: ImageMetadata
+): Promise<Uint8Array<ArrayBuffer>> {
+  const replaced = presentKinds(metadata);
+  const kind = ({ type, data }: PngChunk): MetadataKind | undefined => {
+    if (type === 'iTXt' && startsWith(data, `${PNG_XMP_KEYWORD}\0`)) {
+      return 'xmp';
+    }
+    if (PNG_TEXT_CHUNKS.includes(type)) {
+      return 'text';
+    }
+    if (PNG_COLOUR_CHUNKS.includes(type)) {
+      return 'icc';
+    }
+    return type === 'eXIf' ? 'exif' : type === 'pHYs' ? 'resolution' : undefined;
+  };
+  const [header, ...chunks] = readPngChunks(bytes);
+  const kept = chunks.filter((chunk) => {
+    const chunkKind = kind(chunk);
+    return !(chunkKind && replaced.includes(chunkKind));
+  });
+  return concat([
+    bytes.subarray(0, PNG_SIGNATURE.length),
+    header.bytes,
+    ...(await pngMetadataChunks(metadata)),
+    ...kept.map((chunk) => chunk.bytes),
+  ]);
+}
+
+type RiffChunk = { fourcc: string; data: Uint8Array };
+
+function readRiffChunks(bytes: Uint8Array): RiffChunk[] {
+  const chunks: RiffChunk[] = [];
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({
+      fourcc: latin1(bytes.subarray(offset, offset + 4)),
+      data: bytes.subarray(offset + 8, Math.min(bytes.length, offset + 8 + size)),
+    });
+    offset += 8 + size + (size & 1);
+  }
+  return chunks;
+}
+
+function riffChunk({ fourcc, data }: RiffChunk): Uint8Array {
+  const chunk = new Uint8Array(8 + data.length + (data.length & 1));
+  chunk.set(encodeText(fourcc));
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+}
+
+function readWebpMetadata(bytes: Uint8Array): ImageMetadata {
+  const metadata: ImageMetadata = { text: [] };
+  for (const { fourcc, data } of readRiffChunks(bytes)) {
+    if (fourcc === 'ICCP') {
+      metadata.icc = data.slice();
+    } else if (fourcc === 'EXIF') {
+      // Some writers keep the identifier of the JPEG segment
+      metadata.exif = data.slice(startsWith(data, EXIF_ID) ? EXIF_ID.length : 0);
+    } else if (fourcc === 'XMP ') {
+      metadata.xmp = data.slice();
+    }
+  }
+  return metadata;
+}
+
+/**
+ * Canvas size and alpha of a WebP, from its VP8X chunk or, in a simple
+ * WebP, its bitstream.
+ */
+function webpCanvas(chunks: RiffChunk[]): { width: number; height: number; flags: number } {
+  const extended = chunks.find(({ fourcc }) => fourcc === 'VP8X');
+  if (extended) {
+    const { data } = extended;
+    return {
+      width: (data[4] | (data[5] << 8) | (data[6] << 16)) + 1,
+      height: (data[7] | (data[8] << 8) | (data[9] << 16)) + 1,
+      flags: data[0],
+    };
+  }
+  const lossless = chunks.find(({ fourcc }) => fourcc === 'VP8L');
+  if (lossless) {
+    const { buffer, byteOffset } = lossless.data;
+    const bits = new DataView(buffer, byteOffset + 1).getUint32(0, true);
+    return {
+      width: (bits & 0x3fff) + 1,
+      height: ((bits >>> 14) & 0x3fff) + 1,
+      flags: (bits >>> 28) & 1 ? WEBP_ALPHA_FLAG : 0,
+    };
+  }
+  const { data } = chunks.find(({ fourcc }) => fourcc === 'VP8 ')!;
+  const view = new DataView(data.buffer, data.byteOffset);
+  return {
+    width: view.getUint16(6, true) & 0x3fff,
+    height: view.getUint16(8, true) & 0x3fff,
+    flags: 0,
+  };
+}
+
+/**
+ * The WebP with `metadata` in the chunks of an extended WebP. WebP has no
+ * place for IPTC, resolution or text.
+ */
+function writeWebpMetadata(bytes: Uint8Array, metadata: ImageMetadata): Uint8Array<ArrayBuffer> {
+  const chunks = readRiffChunks(bytes);
+  const { width, height, flags } = webpCanvas(chunks);
+  const { icc, exif, xmp } = metadata;
+
+  const header = new Uint8Array(10);
+  header[0] =
+    (flags & ~(WEBP_ICC_FLAG | WEBP_EXIF_FLAG | WEBP_XMP_FLAG)) |
+    (icc ? WEBP_ICC_FLAG : flags & WEBP_ICC_FLAG) |
+    (exif ? WEBP_EXIF_FLAG : flags & WEBP_EXIF_FLAG) |
+    (xmp ? WEBP_XMP_FLAG : flags & WEBP_XMP_FLAG);
+  [width - 1, height - 1].forEach((value, i) => {
+    header.set([value & 0xff, (value >> 8) & 0xff, value >> 16], 4 + i * 3);
+  });
+
+  const replaced = (fourcc: string) =>
+    fourcc === 'VP8X' ||
+    (fourcc === 'ICCP' && icc) ||
+    (fourcc === 'EXIF' && exif) ||
+    (fourcc === 'XMP ' && xmp);
+  const body = concat([
+    encodeText('WEBP'),
+    riffChunk({ fourcc: 'VP8X', data: header }),
+    ...(icc ? [riffChunk({ fourcc: 'ICCP', data: icc })] : []),
+    ...chunks.filter(({ fourcc }) => !replaced(fourcc)).map(riffChunk),
+    ...(exif ? [riffChunk({ fourcc: 'EXIF', data: exif })] : []),
+    ...(xmp ? [riffChunk({ fourcc: 'XMP ', data: xmp })] : []),
+  ]);
+  return concat([encodeText('RIFF'), Uint8Array.of(...uint32le(body.length)), body]);
+}
+
+function uint32le(value: number): number[] {
+  return [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, value >>> 24];
+}
+
+type ImageFormat = 'jpeg' | 'png' | 'webp';
+
+function sniffFormat(bytes: Uint8Array): ImageFormat | undefined {
+  if (bytes[0] === 0xff && bytes[1] === SOI) {
+    return 'jpeg';
+  }
+  if (PNG_SIGNATURE.every((byte, i) => bytes[i] === byte)) {
+    return 'png';
+  }
+  if (startsWith(bytes, 'RIFF') && startsWith(bytes, 'WEBP', 8)) {
+    return 'webp';
+  }
+  return undefined;
+}
+
+/** Kinds of which `metadata` holds something */
+function presentKinds(metadata: ImageMetadata): MetadataKind[] {
+  return METADATA_KINDS.filter((kind) =>
+    kind === 'text' ? metadata.text.length > 0 : metadata[kind] !== undefined
+  );
+}
+
+/** Whether `metadata` holds anything at all */
+export function hasMetadata(metadata: ImageMetadata): boolean {
+  return presentKinds(metadata).length > 0;
+}
+
+/** The part of `metadata` of the given kinds */
+export function selectMetadata(metadata: ImageMetadata, kinds: MetadataKind[]): ImageMetadata {
+  const keep = <T>(kind: MetadataKind, value: T) => (kinds.includes(kind) ? value : undefined);
+  return {
+    exif: keep('exif', metadata.exif),
+    xmp: keep('xmp', metadata.xmp),
+    icc: keep('icc', metadata.icc),
+    iptc: keep('iptc', metadata.iptc),
+    resolution: keep('resolution', metadata.resolution),
+    text: keep('text', metadata.text) ?? [],
+  };
+}
+
+/**
+ * The metadata of an encoded JPEG, PNG or WebP; nothing for other data.
+ */
+export async function readMetadata(bytes: Uint8Array): Promise<ImageMetadata> {
+  switch (sniffFormat(bytes)) {
+    case 'jpeg':
+      return readJpegMetadata(bytes);
+    case 'png':
+      return readPngMetadata(bytes);
+    case 'webp':
+      return readWebpMetadata(bytes);
+    default:
+      return { text: [] };
+  }
+}
+
+/**
+ * An encoded JPEG, PNG or WebP with `metadata` written in, in place of any
+ * of the same kinds it held. What the format has no place for is left out,
+ * as are EXIF, XMP or IPTC blocks too large for a JPEG segment. Other
+ * data comes back unchanged.
+ */
+export async function writeMetadata(
+  bytes: Uint8Array,
+  metadata: ImageMetadata
+): Promise<Uint8Array<ArrayBuffer>> {
+  switch (sniffFormat(bytes)) {
+    case 'jpeg':
+      return writeJpegMetadata(bytes, metadata);
+    case 'png':
+      return writePngMetadata(bytes, metadata);
+    case 'webp':
+      return writeWebpMetadata(bytes, metadata);
+    default:
+      return new Uint8Array(bytes);
+  }
+}
+
+/**
+ * The metadata of an input carrying encoded bytes, with the EXIF
+ * orientation set to upright as decoding turns the pixels already.
+ * Decoded inputs (ImageData, images, canvases) carry none.
+ */
+export async function readInputMetadata(input: ImageInput): Promise<ImageMetadata> {
+  if (
+    !(input instanceof Blob) &&
+    !(input instanceof ArrayBuffer) &&
+    !(input instanceof Uint8Array)
+  ) {
+    return { text: [] };
+  }
+  const metadata = await readMetadata(await inputToUint8Array(input));
+  return metadata.exif ? { ...metadata, exif: uprightExif(metadata.exif) } : metadata;
+}
@@ -0,0 +1,632 @@
+import type { PixelBuffer } from '../utils/quality';
+import type { ImageInput } from './decode';
+import { inputToUint8Array } from './pdf';
+import { deflate, inflate } from './zlib';
+
+/** Compression of the strips of a TIFF page */
+export type TiffCompression = 'none' | 'lzw' | 'deflate' | 'packbits';
+
+/** Pixel density of a TIFF page; 'none' gives the aspect ratio only */
+export type TiffResolution = { x: number; y: number; unit: 'none' | 'inch' | 'cm' };
+
+/** A page of a TIFF, one image file directory, as RGBA pixels */
+export type TiffPage = PixelBuffer & {
+  compression: TiffCompression;
+  resolution?: TiffResolution;
+};
+
+const TAG_IMAGE_WIDTH = 256;
+const TAG_IMAGE_LENGTH = 257;
+const TAG_BITS_PER_SAMPLE = 258;
+const TAG_COMPRESSION = 259;
+const TAG_PHOTOMETRIC = 262;
+const TAG_STRIP_OFFSETS = 273;
+const TAG_SAMPLES_PER_PIXEL = 277;
+const TAG_ROWS_PER_STRIP = 278;
+const TAG_STRIP_BYTE_COUNTS = 279;
+const TAG_X_RESOLUTION = 282;
+const TAG_Y_RESOLUTION = 283;
+const TAG_PLANAR_CONFIGURATION = 284;
+const TAG_RESOLUTION_UNIT = 296;
+const TAG_PREDICTOR = 317;
+const TAG_COLOR_MAP = 320;
+const TAG_TILE_WIDTH = 322;
+const TAG_EXTRA_SAMPLES = 338;
+
+/** Field types: byte size of each, by type number */
+const TYPE_SIZES = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8];
+const SHORT = 3;
+const LONG = 4;
+const RATIONAL = 5;
+
+/** Compression tag values, two for Deflate (Adobe's and the older one) */
+const COMPRESSION_CODES: Record<number, TiffCompression> = {
+  1: 'none',
+  5: 'lzw',
+  8: 'deflate',
+  32946: 'deflate',
+  32773: 'packbits',
+};
+
+/** Compressions seen in the wild that this module does not decode */
+const UNSUPPORTED_COMPRESSIONS: Record<number, string> = {
+  2: 'CCITT modified Huffman',
+  3: 'CCITT Group 3 fax',
+  4: 'CCITT Group 4 fax',
+  6: 'old-style JPEG',
+  7: 'JPEG',
+};
+
+const PHOTOMETRIC_WHITE_IS_ZERO = 0;
+const PHOTOMETRIC_BLACK_IS_ZERO = 1;
+const PHOTOMETRIC_RGB = 2;
+const PHOTOMETRIC_PALETTE = 3;
+
+/** Predictor tag value for horizontal differencing */
+const HORIZONTAL_PREDICTOR = 2;
+
+/** ExtraSamples values for premultiplied alpha and alpha not premultiplied */
+const ASSOCIATED_ALPHA = 1;
+const UNASSOCIATED_ALPHA = 2;
+
+const RESOLUTION_UNITS: Array<TiffResolution['unit']> = ['none', 'none', 'inch', 'cm'];
+
+/** Resolution a page is given when it has none, as baseline TIFF needs one */
+const DEFAULT_RESOLUTION: TiffResolution = { x: 72, y: 72, unit: 'inch' };
+
+/** Bytes of pixel data a written strip aims at */
+const STRIP_SIZE = 8192;
+
+/** LZW codes that clear the table and end the data, and the first free one */
+const LZW_CLEAR = 256;
+const LZW_EOI = 257;
+const LZW_FIRST_CODE = 258;
+
+/** Widest LZW code, and the table size at which the writer starts over */
+const LZW_MAX_BITS = 12;
+const LZW_TABLE_LIMIT = 4094;
+
+/** Whether data is a TIFF (classic, not BigTIFF) in either byte order */
+export function isTiff(bytes: Uint8Array): boolean {
+  return (
+    bytes.length >= 8 &&
+    ((bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 42 && bytes[3] === 0) ||
+      (bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[2] === 0 && bytes[3] === 42))
+  );
+}
+
+/** The entries of an image file directory by tag, values as numbers */
+function readIfd(view: DataView, offset: number, little: boolean): Map<number, number[]> {
+  const fields = new Map<number, number[]>();
+  const count = view.getUint16(offset, little);
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const valueCount = view.getUint32(entry + 4, little);
+    const size = TYPE_SIZES[type] ?? 0;
+    if (size === 0) {
+      continue;
+    }
+    const at = size * valueCount <= 4 ? entry + 8 : view.getUint32(entry + 8, little);
+    if (at + size * valueCount > view.byteLength) {
+      throw new Error('Truncated TIFF directory');
+    }
+    const values = Array.from({ length: valueCount }, (_, k) => {
+      const p = at + k * size;
+      switch (type) {
+        case SHORT:
+          return view.getUint16(p, little);
+        case LONG:
+          return view.getUint32(p, little);
+        case RATIONAL:
+          return view.getUint32(p, little) / (view.getUint32(p + 4, little) || 1);
+        case 8:
+          return view.getInt16(p, little);
+        case 9:
+          return view.getInt32(p, little);
+        case 10:
+          return view.getInt32(p, little) / (view.getInt32(p + 4, little) || 1);
+        case 11:
+          return view.getFloat32(p, little);
+        case 12:
+          return view.getFloat64(p, little);
+        default:
+          return view.getUint8(p);
+      }
+    });
+    fields.set(tag, values);
+  }
+  return fields;
+}
+
+function unpackBits(data: Uint8Array, length: number): Uint8Array {
+  const out = new Uint8Array(length);
+  let o = 0;
+  for (let i = 0; i < data.length && o < length; ) {
+    const n = (data[i++] << 24) >> 24;
+    if (n >= 0) {
+      out.set(data.subarray(i, i + n + 1).subarray(0, length - o), o);
+      o += n + 1;
+      i += n + 1;
+    } else if (n !== -128) {
+      out.fill(data[i++], o, Math.min(length, o + 1 - n));
+      o += 1 - n;
+    }
+  }
+  return out;
+}
+
+function packBits(data: Uint8Array): Uint8Array {
+  const out: number[] = [];
+  for (let i = 0; i < data.length; ) {
+    let run = 1;
+    while (i + run < data.length && run < 128 && data[i + run] === data[i]) {
+      run++;
+    }
+    if (run > 1) {
+      out.push(1 - run, data[i]);
+      i += run;
+      continue;
+    }
+    // A literal stretch, up to the next run of three or more
+    let end = i + 1;
+    while (
+      end < data.length &&
+      end - i < 128 &&
+      !(data[end] === data[end + 1] && data[end] === data[end + 2])
+    ) {
+      end++;
+    }
+    out.push(end - i - 1, ...data.subarray(i, end));
+    i = end;
+  }
+  return Uint8Array.from(out, (value) => value & 0xff);
+}
+
+/** Bits needed to write `value` */
+function bitLength(value: number): number {
+  return 32 - Math.clz32(value);
+}
+
+/**
+ * Decode TIFF LZW: codes of 9 to 12 bits, most significant bit first,
+ * widening one code early.
+ */
+function lzwDecode(data: Uint8Array, length: number): Uint8Array {
+  const out = new Uint8Array(length);
+  const prefixes = new Int16Array(1 << LZW_MAX_BITS);
+  const suffixes = new Uint8Array(1 << LZW_MAX_BITS);
+  const lengths = new Uint16Array(1 << LZW_MAX_BITS);
+  for (let code = 0; code < 256; code++) {
+    suffixes[code] = code;
+    lengths[code] = 1;
+  }
+
+  let o = 0;
+  let bitPos = 0;
+  let nextCode = LZW_FIRST_CODE;
+  let width = 9;
+  let previous = -1;
+  const write = (code: number) => {
+    const size = lengths[code];
+    let at = o + size - 1;
+    for (let c = code; at >= o; c = prefixes[c], at--) {
+      if (at < length) {
+        out[at] = suffixes[c];
+      }
+    }
+    o += size;
+  };
+  const first = (code: number) => {
+    let c = code;
+    while (lengths[c] > 1) {
+      c = prefixes[c];
+    }
+    return suffixes[c];
+  };
+
+  while (o < length && bitPos + width <= data.length * 8) {
+    let code = 0;
+    for (let k = 0; k < width; k++, bitPos++) {
+      code = (code << 1) | ((data[bitPos >> 3] >> (7 - (bitPos & 7))) & 1);
+    }
+    if (code === LZW_EOI) {
+      break;
+    }
+    if (code === LZW_CLEAR) {
+      nextCode = LZW_FIRST_CODE;
+      width = 9;
+      previous = -1;
+      continue;
+    }
+    if (previous < 0) {
+      write(code);
+      previous = code;
+      continue;
+    }
+    if (nextCode < 1 << LZW_MAX_BITS) {
+      prefixes[nextCode] = previous;
+      suffixes[nextCode] = first(code < nextCode ? code : previous);
+      lengths[nextCode] = lengths[previous] + 1;
+      nextCode++;
+    }
+    write(code);
+    previous = code;
+    width = Math.min(LZW_MAX_BITS, bitLength(nextCode + 1));
+  }
+  return out;
+}
+
+function lzwEncode(data: Uint8Array): Uint8Array {
+  const out: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  let width = 9;
+  const put = (code: number) => {
+    buffer = (buffer << width) | code;
+    bits += width;
+    while (bits >= 8) {
+      bits -= 8;
+      out.push((buffer >> bits) & 0xff);
+    }
+    buffer &= (1 << bits) - 1;
+  };
+
+  let table = new Map<number, number>();
+  let nextCode = LZW_FIRST_CODE;
+  put(LZW_CLEAR);
+  let prefix = -1;
+  for (const byte of data) {
+    if (prefix < 0) {
+      prefix = byte;
+      continue;
+    }
+    const key = (prefix << 8) | byte;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    put(prefix);
+    table.set(key, nextCode++);
+    if (nextCode === LZW_TABLE_LIMIT) {
+      put(LZW_CLEAR);
+      table = new Map();
+      nextCode = LZW_FIRST_CODE;
+      width = 9;
+    } else {
+      width = Math.min(LZW_MAX_BITS, bitLength(nextCode));
+    }
+    prefix = byte;
+  }
+  if (prefix >= 0) {
+    put(prefix);
+    // The reader adds an entry for this code too before reading the next
+    width = Math.min(LZW_MAX_BITS, bitLength(nextCode + 1));
+  }
+  put(LZW_EOI);
+  if (bits > 0) {
+    out.push((buffer << (8 - bits)) & 0xff);
+  }
+  return Uint8Array.from(out);
+}
+
+async function decompress(
+  compression: TiffCompression,
+  data: Uint8Array,
+  length: number
+): Promise<Uint8Array> {
+  switch (compression) {
+    case 'none':
+      return data;
+    case 'packbits':
+      return unpackBits(data, length);
+    case 'lzw':
+      return lzwDecode(data, length);
+    case 'deflate': {
+      const inflated = await inflate(data);
+      if (!inflated) {
+        throw new Error('Corrupt Deflate data in TIFF');
+      }
+      return inflated;
+    }
+  }
+}
+
+async function compress(compression: TiffCompression, data: Uint8Array): Promise<Uint8Array> {
+  switch (compression) {
+    case 'none':
+      return data;
+    case 'packbits':
+      return packBits(data);
+    case 'lzw':
+      return lzwEncode(data);
+    case 'deflate':
+      return deflate(data);
+  }
+}
+
+/**
+ * Decode the page whose directory is `fields` to RGBA: bilevel or grayscale
+ * images of 1-8 bits per sample with or without alpha, palette images, or
+ * RGB with or without alpha at 8 bits, in strips.
+ */
+async function readPage(
+  bytes: Uint8Array,
+  fields: Map<number, number[]>
+): Promise<TiffPage> {
+  const field = (tag: number, fallback?: number) => fields.get(tag)?.[0] ?? fallback;
+  const width = field(TAG_IMAGE_WIDTH)!;
+  const height = field(TAG_IMAGE_LENGTH)!;
+  const compressionCode = field(TAG_COMPRESSION, 1)!;
+  const compression = COMPRESSION_CODES[compressionCode];
+  const photometric = field(TAG_PHOTOMETRIC, PHOTOMETRIC_BLACK_IS_ZERO)!;
+  const samples = field(TAG_SAMPLES_PER_PIXEL, 1)!;
+  const bitsPerSample = field(TAG_BITS_PER_SAMPLE, 1)!;
+  const rowsPerStrip = Math.min(height, field(TAG_ROWS_PER_STRIP, height)!);
+  const offsets = fields.get(TAG_STRIP_OFFSETS) ?? [];
+  const byteCounts = fields.get(TAG_STRIP_BYTE_COUNTS) ?? [];
+  const extraSample = fields.get(TAG_EXTRA_SAMPLES)?.[0];
+  const alpha = extraSample === ASSOCIATED_ALPHA || extraSample === UNASSOCIATED_ALPHA;
+
+  if (!width || !height) {
+    throw new Error('TIFF page without dimensions');
+  }
+  if (!compression) {
+    const name = UNSUPPORTED_COMPRESSIONS[compressionCode];
+    throw new Error(
+      `Unsupported TIFF compression: ${name ? `${name} (${compressionCode})` : compressionCode}`
+    );
+  }
+  if (fields.has(TAG_TILE_WIDTH) || field(TAG_PLANAR_CONFIGURATION, 1) !== 1) {
+    throw new Error('Tiled and planar TIFF pages are not supported');
+  }
+  const rgb = photometric === PHOTOMETRIC_RGB;
+  if (
+    ![PHOTOMETRIC_WHITE_IS_ZERO, PHOTOMETRIC_BLACK_IS_ZERO, PHOTOMETRIC_RGB, PHOTOMETRIC_PALETTE]
+      .includes(photometric) ||
+    (rgb ? bitsPerSample !== 8 || samples < 3 : bitsPerSample > 8) ||
+    // Gray may have an extra sample, palette indices none
+    (!rgb && samples > (photometric === PHOTOMETRIC_PALETTE ? 1 : 2))
+  ) {
+    throw new Error(
+      `Unsupported TIFF pixel format: photometric ${photometric}, ` +
+        `${samples}x${bitsPerSample} bits`
+    );
+  }
+
+  const rowBytes = Math.ceil((width * samples * bitsPerSample) / 8);
+  const pixels = new Uint8Array(rowBytes * height);
+  for (let strip = 0; strip * rowsPerStrip < height; strip++) {
+    const rows = Math.min(rowsPerStrip, height - strip * rowsPerStrip);
+    const start = offsets[strip];
+    const data = bytes.subarray(start, start + (byteCounts[strip] ?? bytes.length - start));
+    const decoded = await decompress(compression, data, rows * rowBytes);
+    pixels.set(decoded.subarray(0, rows * rowBytes), strip * rowsPerStrip * rowBytes);
+  }
+  if (field(TAG_PREDICTOR, 1) === HORIZONTAL_PREDICTOR && bitsPerSample === 8) {
+    for (let y = 0; y < height; y++) {
+      for (let i = y * rowBytes + samples; i < (y + 1) * rowBytes; i++) {
+        pixels[i] = (pixels[i] + pixels[i - samples]) & 0xff;
+      }
+    }
+  }
+
+  const colorMap = fields.get(TAG_COLOR_MAP);
+  const levels = (1 << bitsPerSample) - 1;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      if (rgb) {
+        const at = y * rowBytes + x * samples;
+        data.set(pixels.subarray(at, at + 3), out);
+        data[out + 3] = alpha ? pixels[at + 3] : 255;
+      } else {
+        const sample = (index: number) => {
+          const bit = (x * samples + index) * bitsPerSample;
+          const shift = 8 - bitsPerSample - (bit & 7);
+          return (pixels[y * rowBytes + (bit >> 3)] >> shift) & levels;
+        };
+        const value = sample(0);
+        if (photometric === PHOTOMETRIC_PALETTE && colorMap) {
+          // 16-bit red, then green, then blue entries
+          data.set([0, 1, 2].map((c) => colorMap[c * (levels + 1) + value] >> 8), out);
+        } else {
+          const gray = Math.round((value * 255) / levels);
+          data.fill(photometric === PHOTOMETRIC_WHITE_IS_ZERO ? 255 - gray : gray, out, out + 3);
+        }
+        data[out + 3] = alpha ? Math.round((sample(1) * 255) / levels) : 255;
+      }
+      // Premultiplied colour back to straight, as canvas pixels hold it
+      if (alpha && extraSample === ASSOCIATED_ALPHA && data[out + 3] > 0) {
+        for (let c = 0; c < 3; c++) {
+          data[out + c] = (data[out + c] * 255) / data[out + 3];
+        }
+      }
+    }
+  }
+
+  const resolution =
+    fields.has(TAG_X_RESOLUTION) && fields.has(TAG_Y_RESOLUTION)
+      ? {
+          x: field(TAG_X_RESOLUTION)!,
+          y: field(TAG_Y_RESOLUTION)!,
+          unit: RESOLUTION_UNITS[field(TAG_RESOLUTION_UNIT, 2)!] ?? 'inch',
+        }
+      : undefined;
+  return { data, width, height, compression, resolution };
+}
+
+/**
+ * Decode every page of a TIFF, in order. Throws for data that is not a
+ * TIFF and for pages this module does not read: tiled or planar, JPEG or
+ * CCITT fax compressed, CMYK or YCbCr, or of 16 bits per sample.
+ */
+export async function readTiff(bytes: Uint8Array): Promise<TiffPage[]> {
+  if (!isTiff(bytes)) {
+    throw new Error('Not a TIFF image');
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const little = bytes[0] === 0x49;
+  const pages: TiffPage[] = [];
+  const seen = new Set<number>();
+  for (let offset = view.getUint32(4, little); offset !== 0; ) {
+    if (seen.has(offset) || offset + 2 > bytes.length) {
+      throw new Error('Corrupt TIFF directory chain');
+    }
+    seen.add(offset);
+    pages.push(await readPage(bytes, readIfd(view, offset, little)));
+    offset = view.getUint32(offset + 2 + view.getUint16(offset, little) * 12, little);
+  }
+  return pages;
+}
+
+/**
+ * The pages of a TIFF input, or undefined for inputs that are not encoded
+ * TIFFs.
+ */
+export async function readInputTiff(input: ImageInput): Promise<TiffPage[] | undefined> {
+  if (
+    !(input instanceof Blob) &&
+    !(input instanceof ArrayBuffer) &&
+    !(input instanceof Uint8Array)
+  ) {
+    return undefined;
+  }
+  const bytes = await inputToUint8Array(input);
+  return isTiff(bytes) ? readTiff(bytes) : undefined;
+}
+
+/** Rational of a resolution, exact to a thousandth */
+function rational(value: number): [number, number] {
+  return Number.isInteger(value) ? [value, 1] : [Math.round(value * 1000), 1000];
+}
+
+/**
+ * Encode pages as a little-endian TIFF, each with its own compression and
+ * resolution, in strips: grayscale when every pixel of a page is gray, else
+ * RGB, with an unassociated alpha sample unless every pixel is opaque.
+ */
+export async function writeTiff(pages: TiffPage[]): Promise<Uint8Array<ArrayBuffer>> {
+  const parts: Uint8Array[] = [Uint8Array.of(0x49, 0x49, 42, 0, 0, 0, 0, 0)];
+  let length = 8;
+  // Where the offset of the next directory goes
+  let link = 4;
+  const links: Array<[number, number]> = [];
+  const append = (part: Uint8Array) => {
+    const at = length;
+    parts.push(part);
+    length += part.length;
+    // Keep every part at an even offset, as TIFF offsets should be
+    if (length & 1) {
+      parts.push(new Uint8Array(1));
+      length++;
+    }
+    return at;
+  };
+
+  for (const page of pages) {
+    const { data, width, height } = page;
+    let gray = true;
+    let opaque = true;
+    for (let i = 0; i < data.length; i += 4) {
+      gray &&= data[i] === data[i + 1] && data[i] === data[i + 2];
+      opaque &&= data[i + 3] === 255;
+    }
+    const samples = (gray ? 1 : 3) + (opaque ? 0 : 1);
+    const rowBytes = width * samples;
+    const rowsPerStrip = Math.max(1, Math.min(height, Math.floor(STRIP_SIZE / rowBytes)));
+
+    const offsets: number[] = [];
+    const byteCounts: number[] = [];
+    for (let y0 = 0; y0 < height; y0 += rowsPerStrip) {
+      const rows = Math.min(rowsPerStrip, height - y0);
+      const strip = new Uint8Array(rows * rowBytes);
+      for (let i = 0; i < rows * width; i++) {
+        const source = (y0 * width + i) * 4;
+        strip.set(data.subarray(source, source + (gray ? 1 : 3)), i * samples);
+        if (!opaque) {
+          strip[i * samples + samples - 1] = data[source + 3];
+        }
+      }
+      const compressed = await compress(page.compression, strip);
+      offsets.push(append(compressed));
+      byteCounts.push(compressed.length);
+    }
+
+    const resolution = page.resolution ?? DEFAULT_RESOLUTION;
+    const compressionCode = Number(
+      Object.keys(COMPRESSION_CODES).find((code) => COMPRESSION_CODES[+code] === page.compression)
+    );
+    const entries: Array<[number, number, number[]]> = [
+      [TAG_IMAGE_WIDTH, LONG, [width]],
+      [TAG_IMAGE_LENGTH, LONG, [height]],
+      [TAG_BITS_PER_SAMPLE, SHORT, new Array(samples).fill(8)],
+      [TAG_COMPRESSION, SHORT, [compressionCode]],
+      [TAG_PHOTOMETRIC, SHORT, [gray ? PHOTOMETRIC_BLACK_IS_ZERO : PHOTOMETRIC_RGB]],
+      [TAG_STRIP_OFFSETS, LONG, offsets],
+      [TAG_SAMPLES_PER_PIXEL, SHORT, [samples]],
+      [TAG_ROWS_PER_STRIP, LONG, [rowsPerStrip]],
+      [TAG_STRIP_BYTE_COUNTS, LONG, byteCounts],
+      [TAG_X_RESOLUTION, RATIONAL, rational(resolution.x)],
+      [TAG_Y_RESOLUTION, RATIONAL, rational(resolution.y)],
+      [TAG_PLANAR_CONFIGURATION, SHORT, [1]],
+      [TAG_RESOLUTION_UNIT, SHORT, [RESOLUTION_UNITS.lastIndexOf(resolution.unit)]],
+    ];
+    if (!opaque) {
+      entries.push([TAG_EXTRA_SAMPLES, SHORT, [UNASSOCIATED_ALPHA]]);
+    }
+
+    // Values too large for their entry go before the directory
+    const valueOffsets = entries.map(([, type, values]) => {
+      const size = TYPE_SIZES[type] * (type === RATIONAL ? values.length / 2 : values.length);
+      return size > 4 ? append(fieldBytes(type, values)) : -1;
+    });
+    const ifd = new Uint8Array(2 + entries.length * 12 + 4);
+    const view = new DataView(ifd.buffer);
+    view.setUint16(0, entries.length, true);
+    entries.forEach(([tag, type, values], i) => {
+      const entry = 2 + i * 12;
+      view.setUint16(entry, tag, true);
+      view.setUint16(entry + 2, type, true);
+      view.setUint32(entry + 4, type === RATIONAL ? values.length / 2 : values.length, true);
+      if (valueOffsets[i] >= 0) {
+        view.setUint32(entry + 8, valueOffsets[i], true);
+      } else {
+        ifd.set(fieldBytes(type, values), entry + 8);
+      }
+    });
+    const at = append(ifd);
+    links.push([link, at]);
+    link = at + ifd.length - 4;
+  }
+
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  const view = new DataView(bytes.buffer);
+  for (const [at, target] of links) {
+    view.setUint32(at, target, true);
+  }
+  return bytes;
+}
+
+/** Little-endian bytes of SHORT, LONG or RATIONAL (numerator, denominator) values */
+function fieldBytes(type: number, values: number[]): Uint8Array {
+  const size = type === SHORT ? 2 : 4;
+  const bytes = new Uint8Array(values.length * size);
+  const view = new DataView(bytes.buffer);
+  values.forEach((value, i) => {
+    if (size === 2) {
+      view.setUint16(i * 2, value, true);
+    } else {
+      view.setUint32(i * 4, value, true);
+    }
+  });
+  return bytes;
+}
@@ -0,0 +1,22 @@
+/**
+ * Data compressed in the zlib format, as PNG chunks and TIFF strips hold
+ * it, with the platform's CompressionStream.
+ */
+export async function deflate(data: Uint8Array): Promise<Uint8Array<ArrayBuffer>> {
+  const output = new Response(new Uint8Array(data)).body!.pipeThrough(
+    new CompressionStream('deflate')
+  );
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+/** Data inflated from zlib, or undefined when it is corrupt */
+export async function inflate(data: Uint8Array): Promise<Uint8Array<ArrayBuffer> | undefined> {
+  const output = new Response(new Uint8Array(data)).body!.pipeThrough(
+    new DecompressionStream('deflate')
+  );
+  try {
+    return new Uint8Array(await new Response(output).arrayBuffer());
+  } catch {
+    return undefined;
+  }
+}
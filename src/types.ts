@@ -1,5 +1,13 @@
 import type { ImageInput } from './io/decode';
 import type { PageSelection } from './io/pdf';
+import type { EccScheme } from './core/ecc';
+import type { Modulation } from './core/qim';
+import type { EmbeddingDomain } from './core/dwt';
+import type { WatermarkLayout } from './core/tiling';
+import type { ImageOrientation } from './core/orientation';
+import type { WatermarkCapacity } from './core/embed';
+import type { MetadataKind } from './io/metadata';
+import type { ImageCodec } from './io/codecs';
 
 /**
  * Position for visible watermark placement.
@@ -97,6 +105,48 @@ export type PdfOptions = {
   pageSelection?: PageSelection;
 };
 
+/**
+ * Options for TIFF inputs, which may hold many pages, for watermarking and
+ * verification.
+ */
+export type TiffOptions = {
+  /**
+   * Pages to embed the invisible watermark in, or to verify. Pages left out
+   * are written back unchanged.
+   * - 'all': Every page (default)
+   * - 'first': Only the first page
+   * - number[]: Specific 0-based page indices
+   * - { from: number; to: number }: A range of pages (inclusive)
+   * @default 'all'
+   */
+  pageSelection?: PageSelection;
+};
+
+/**
+ * Payload to embed or verify.
+ * - string: hashed into a 64-bit digest (see `WatermarkOptions.payloadBits`);
+ *   can only be confirmed by verify()
+ * - Uint8Array: up to 8 raw bytes (e.g. a record ID), or `payloadBits / 8`,
+ *   embedded verbatim so extract() can recover them from an unknown image
+ */
+export type WatermarkPayload = string | Uint8Array;
+
+/**
+ * Secret key for keyed watermarking: raw key bytes (any typed array or
+ * view over them), a string taken as its UTF-8 bytes, or a WebCrypto HMAC
+ * `CryptoKey` with "sign" usage.
+ */
+export type WatermarkKey = string | ArrayBuffer | ArrayBufferView | CryptoKey;
+
+/**
+ * A key with the short identifier it was issued under, for key rotation.
+ */
+export type KeyRingEntry = {
+  /** Identifier embedded by watermark() (integer 0-255) */
+  keyId: number;
+  key: WatermarkKey;
+};
+
 /**
  * Options for the watermark() function.
  */
@@ -108,6 +158,38 @@ export type WatermarkOptions = {
    */
   jpegQuality?: number;
 
+  /**
+   * Quality a JPEG output is encoded at. `'fixed'` uses `jpegQuality`;
+   * `'match-source'` uses the quality a JPEG input was encoded at,
+   * estimated from its quantization tables, so the output is neither
+   * bloated nor degraded further than the source. Inputs that are not
+   * encoded JPEGs (other formats, ImageData, canvases) fall back to
+   * `jpegQuality`. With `guarantee`, the estimate is where the quality
+   * search starts.
+   * @default 'fixed'
+   */
+  outputQuality?: 'fixed' | 'match-source';
+
+  /**
+   * Metadata of an encoded JPEG, PNG or WebP input written to the output,
+   * as far as its format has room: EXIF (with the orientation set upright,
+   * as the output's pixels are), XMP, the ICC profile, IPTC, resolution
+   * and text. The output keeps the pixel values of a profile it carries
+   * instead of converting them to sRGB. EXIF may hold GPS positions and
+   * camera serial numbers; see `stripMetadata`.
+   * @default every kind
+   */
+  keepMetadata?: MetadataKind[];
+
+  /**
+   * Leave metadata out of the output: `true` for all of it, or the kinds
+   * to drop from `keepMetadata`. With `jpegNative`, an EXIF block that
+   * turns the image is reduced to its orientation so the image still
+   * shows upright.
+   * @default false
+   */
+  stripMetadata?: boolean | MetadataKind[];
+
   /**
    * Optional visible watermark configuration.
    * The visible watermark renders the payload as text overlay.
@@ -120,15 +202,206 @@ export type WatermarkOptions = {
    * Only used when input is detected as a PDF.
    */
   pdf?: PdfOptions;
+
+  /**
+   * Optional TIFF-specific options.
+   * Only used when input is detected as a TIFF.
+   */
+  tiff?: TiffOptions;
+
+  /**
+   * Optional secret key. When set, the payload digest is an HMAC and block
+   * placement is seeded from the key, so the mark can neither be located
+   * nor checked against guessed payloads without it.
+   * The same key must be passed to verify().
+   */
+  key?: WatermarkKey;
+
+  /**
+   * Identifier of `key` (integer 0-255), embedded in the clear so verify()
+   * can pick the right entry of a key ring without trying every key.
+   * @default 0
+   */
+  keyId?: number;
+
+  /**
+   * Error-correcting code protecting the embedded message. The choice is
+   * recorded in the image, so verify() and extract() need no option.
+   * 'repetition' is the original 3x code, kept for compatibility.
+   * @default 'bch'
+   */
+  ecc?: EccScheme;
+
+  /**
+   * How the watermark is spread over the image. 'tiled' repeats it in
+   * self-contained 256x256 tiles with a sync pattern, so verify() can find
+   * it in crops and screenshots of part of the image. Tiles cost slightly
+   * more distortion and need no option to verify.
+   * @default 'full'
+   */
+  layout?: WatermarkLayout;
+
+  /**
+   * Add a synchronization template: faint periodic patterns that let
+   * verify() measure and undo resizing (0.5x-2x) and rotation before
+   * reading the mark. Costs about 2 dB of PSNR and needs no option to
+   * verify. Combine with `layout: 'tiled'` when images may also be cropped
+   * or rotated within a fixed canvas.
+   * @default false
+   */
+  syncTemplate?: boolean;
+
+  /**
+   * Multiplier of the embedding strength. Higher values survive harsher
+   * recompression at the cost of more visible change.
+   * @default 1
+   */
+  strength?: number;
+
+  /**
+   * Adapt the strength to the content of each 8x8 block, following Watson's
+   * model of luminance and contrast masking: flat areas such as white
+   * paper get about half the default and textured areas up to 2.5 times
+   * as much. Needs no option to verify.
+   * @default false
+   */
+  perceptualMasking?: boolean;
+
+  /**
+   * How the message is written into the coefficients. 'sign' pushes each
+   * one past zero, which can flip and double large coefficients; 'qim'
+   * moves each one to the nearest point of a keyed lattice, never more than
+   * half of `qimStep`. The choice is recorded in the image, so verify()
+   * and extract() need no option. `strength` and `perceptualMasking` only
+   * apply to 'sign'.
+   * @default 'sign'
+   */
+  modulation?: Modulation;
+
+  /**
+   * Lattice step of the 'qim' modulation, a multiple of 4 from 4 to 64.
+   * Larger steps survive harsher recompression and change the image more:
+   * 24 costs about 4 dB less PSNR than 'sign' and survives JPEG quality
+   * 75 on images with room for several copies of each bit; 48 is about as
+   * robust as 'sign'.
+   * @default 24
+   */
+  qimStep?: number;
+
+  /**
+   * Where the mark is embedded. 'dct' marks 8x8 pixel blocks; 'dwt-dct'
+   * marks 8x8 blocks of the image's two-level Haar wavelet LL band, each
+   * covering 32x32 pixels, so the mark survives downscaling to 50% and
+   * mild blurring. It needs an image 4 times wider and taller to fit.
+   * verify() and extract() try both domains and need no option.
+   * @default 'dct'
+   */
+  domain?: EmbeddingDomain;
+
+  /**
+   * Embed the message again in the Cb and Cr channels, for redundancy that
+   * verify() and extract() add to the luminance reads. Chroma is marked two
+   * wavelet levels further down than luminance, in blocks of 32x32 pixels
+   * by default, so it survives JPEG's chroma subsampling and quantization.
+   * Marks then read after much harsher recompression, at a cost of several
+   * dB of PSNR. Grayscale images are marked in luminance only. Not
+   * supported with `layout: 'tiled'`.
+   * @default false
+   */
+  chroma?: boolean;
+
+  /**
+   * Length of the embedded message in bits, a multiple of 8 from 32 to
+   * 256. String payloads are hashed to this many bits, so longer messages
+   * make collisions between many payloads unlikely; raw payloads may be up
+   * to `payloadBits / 8` bytes. Longer messages need more room in the image
+   * and spread the same distortion over more bits. The length is recorded
+   * in the image, so verify(), identify() and extract() need no option.
+   * @default 64
+   */
+  payloadBits?: number;
+
+  /**
+   * Mark a JPEG input in its own quantized DCT coefficients instead of
+   * decoding, marking and encoding its pixels again. Only the luminance
+   * coefficients of the blocks carrying the mark change; everything else,
+   * quantization tables and the metadata segments `keepMetadata` and
+   * `stripMetadata` leave in included, is kept bit for bit, and the output
+   * is written as a baseline JPEG (progressive inputs included).
+   * `jpegQuality` does not apply. Not supported with `syncTemplate`,
+   * `domain: 'dwt-dct'`, `chroma`, `visible` or `guarantee`. Inputs that
+   * are not JPEGs, or JPEGs that cannot be read this way (arithmetic-coded,
+   * lossless, CMYK), take the usual path.
+   * @default false
+   */
+  jpegNative?: boolean;
+
+  /**
+   * Decode the encoded output again and report its quality against the
+   * input (PSNR, SSIM, largest luminance change) and how well the mark
+   * reads back from it, in `WatermarkResult.diagnostics`. Costs a decode
+   * and an extraction.
+   * @default false
+   */
+  diagnostics?: boolean;
+
+  /**
+   * Check that the encoded output still carries a readable mark, and if
+   * not, embed again with the failing blocks reinforced (and, for JPEG or
+   * WebP output, a higher quality once that stops helping) until the mark
+   * reads back with `minConfidence` or `maxIterations` encodes were made.
+   * The outcome is reported in `WatermarkResult.guarantee`. Images only.
+   * @default false
+   */
+  guarantee?: boolean | GuaranteeOptions;
+};
+
+/**
+ * Target and budget of the `guarantee` mode.
+ */
+export type GuaranteeOptions = {
+  /**
+   * Confidence the mark must read back with from the encoded output.
+   * @default 0.85
+   */
+  minConfidence?: number;
+
+  /**
+   * Largest number of encodes, the first included.
+   * @default 4
+   */
+  maxIterations?: number;
+};
+
+/**
+ * Options for the analyze() function: the options watermark() would be
+ * called with, and the recompression to predict the mark's survival of.
+ */
+export type AnalyzeOptions = WatermarkOptions & {
+  /**
+   * JPEG quality (0-1) the mark is put through to predict its confidence.
+   * @default 0.75
+   */
+  recompressionQuality?: number;
 };
 
 /**
  * Options for the verify() function.
  */
 export type VerifyOptions = {
+  /**
+   * Largest accepted probability that an unwatermarked image would match
+   * by chance (see VerifyResult.falsePositiveProbability). Takes precedence
+   * over `threshold`.
+   * @default 1e-6
+   */
+  falsePositiveRate?: number;
+
   /**
    * Minimum confidence threshold for isMatch to be true (0-1).
    * Lower values are more permissive but may increase false positives.
+   * Only used when set and `falsePositiveRate` is not.
+   * @deprecated Use `falsePositiveRate`, which states the risk directly.
    * @default 0.85
    */
   threshold?: number;
@@ -138,6 +411,78 @@ export type VerifyOptions = {
    * Only used when input is detected as a PDF.
    */
   pdf?: PdfOptions;
+
+  /**
+   * Optional TIFF-specific options.
+   * Only used when input is detected as a TIFF.
+   */
+  tiff?: TiffOptions;
+
+  /**
+   * Secret key the image was watermarked with.
+   * With a wrong or missing key, verification reports no match.
+   */
+  key?: WatermarkKey;
+
+  /**
+   * Keys to try, e.g. current and retired keys after rotation.
+   * The entry matching the embedded key identifier is tried first.
+   */
+  keyRing?: KeyRingEntry[];
+
+  /**
+   * Also try the image turned by quarter turns and mirrored (eight
+   * orientations in all), for scans and photos rotated or flipped before
+   * being shared. Each extra orientation counts towards the false-positive
+   * probability, but only the one whose headers or tiled sync pattern show
+   * a mark most clearly is read in full. The orientation named by an EXIF
+   * tag is tried in full even without this option.
+   * @default false
+   */
+  searchOrientations?: boolean;
+};
+
+/**
+ * Options for the identify() function.
+ */
+export type IdentifyOptions = {
+  /**
+   * Largest accepted probability that an unwatermarked image would match
+   * any one of the candidates by chance.
+   * @default 1e-6
+   */
+  falsePositiveRate?: number;
+
+  /**
+   * Optional PDF-specific options.
+   * Only used when input is detected as a PDF.
+   */
+  pdf?: PdfOptions;
+
+  /**
+   * Secret key the image was watermarked with.
+   */
+  key?: WatermarkKey;
+
+  /**
+   * Keys to try, e.g. current and retired keys after rotation.
+   */
+  keyRing?: KeyRingEntry[];
+};
+
+/**
+ * Options for the debug extract() function.
+ */
+export type ExtractOptions = {
+  /**
+   * Secret key the image was watermarked with, if any.
+   */
+  key?: WatermarkKey;
+
+  /**
+   * Keys to try when the signing key is not known in advance.
+   */
+  keyRing?: KeyRingEntry[];
 };
 
 export type WatermarkResult = {
@@ -145,12 +490,43 @@ export type WatermarkResult = {
   width: number;
   height: number;
   mimeType: string;
+  /**
+   * Quality and robustness of the output, when requested with the
+   * `diagnostics` option. For PDFs these describe the carrier image.
+   */
   diagnostics?: {
+    /** Confidence of the mark read back from the encoded output (0-1) */
     embedScore: number;
     payloadDigestHex: string;
+    /** Peak signal-to-noise ratio against the input, in dB (Infinity when identical) */
+    psnr: number;
+    /** Structural similarity of the luminance against the input (1 when identical) */
+    ssim: number;
+    /** Largest change of any pixel's luminance, in levels (0-255) */
+    maxLuminanceDelta: number;
+    /** The mark read back from the encoded output as verify() would see it */
+    selfCheck: {
+      /** True when the output decodes to the embedded payload */
+      valid: boolean;
+      confidence: number;
+      correctedErrors: number;
+    };
   };
   /**
-   * PDF-specific metadata (only present when input was a PDF).
+   * Outcome of the `guarantee` mode, when requested.
+   */
+  guarantee?: {
+    /** True when the output reads back with the requested confidence */
+    met: boolean;
+    /** Encodes made, the first included */
+    iterations: number;
+    /** Confidence of the mark read back from the returned output */
+    confidence: number;
+    /** Quality the returned JPEG or WebP output was encoded at */
+    jpegQuality?: number;
+  };
+  /**
+   * Number of pages (only present when input was a PDF or a TIFF).
    */
   pageCount?: number;
 };
@@ -158,17 +534,164 @@ export type WatermarkResult = {
 export type VerifyResult = {
   isMatch: boolean;
   confidence: number;
+  /**
+   * Probability that an unwatermarked image would agree with the payload at
+   * least this well, accounting for every key and code tried. Small values
+   * (e.g. 1e-12) are strong evidence; reads 0 when below ~1e-308.
+   */
+  falsePositiveProbability?: number;
   recoveredDigestHex?: string;
+  /**
+   * Identifier of the key-ring entry that produced a valid message.
+   */
+  keyId?: number;
+  /**
+   * Bits the error-correcting code had to fix to read the message.
+   */
+  correctedErrors?: number;
   transformHints?: {
     likelyResized?: boolean;
+    /**
+     * Whether the image shows signs of JPEG compression on top of an
+     * earlier one: quantization twice over in a JPEG's own coefficients,
+     * or the trace of a JPEG's quantization in decoded pixels. Set whether
+     * or not the mark is found. A pixel-path mark saved as JPEG from a
+     * JPEG source is itself such a recompression, and pixels handed over
+     * after decoding any JPEG show its trace; `jpegNative` output shows
+     * neither. Only a compression finer than the one before is
+     * detected: at the same or a coarser quality (say 0.92, then 0.5)
+     * each level gathers a near-constant number of the earlier ones,
+     * which leaves the counts no further from smooth than a single
+     * compression's, and the mark does not record the quality it was
+     * saved at to compare with. Such images report false.
+     */
     likelyRecompressed?: boolean;
+    /**
+     * Size relative to the watermarked image, measured by the
+     * synchronization template (e.g. 0.5 after halving)
+     */
+    scale?: number;
+    /** Clockwise rotation in degrees measured by the synchronization template */
+    rotation?: number;
+  };
+  /**
+   * How the image had been turned relative to the watermarked one, when
+   * more than one orientation was tried and the match was found this way.
+   */
+  orientation?: ImageOrientation;
+  /**
+   * Results for each page verified of a TIFF, in page order. The rest of
+   * the result is then the aggregate: the strongest page, its
+   * `falsePositiveProbability` charged for every page checked.
+   */
+  pages?: Array<VerifyResult & { /** 0-based page index */ page: number }>;
+  error?: string;
+};
+
+/**
+ * - 'ok': the mark fits and is predicted to survive the recompression
+ * - 'marginal': the mark fits, but `reasons` lists what weakens it
+ * - 'too small': the image cannot hold the mark; watermark() would throw
+ */
+export type AnalysisVerdict = 'ok' | 'marginal' | 'too small';
+
+export type AnalyzeResult = {
+  verdict: AnalysisVerdict;
+  /** Why the verdict is not 'ok', one sentence each */
+  reasons: string[];
+  width: number;
+  height: number;
+  /** Whole 8x8 blocks of the image */
+  blocks: number;
+  /** Blocks per encoded message bit; below 1, bits share blocks */
+  blocksPerBit: number;
+  /** How many of the encoded bits the image has room for */
+  capacity: WatermarkCapacity;
+  /** Share of blocks too flat to hide a change, where the mark shows most */
+  flatBlockShare: number;
+  /** Share of blocks clipped to black or white, which must be shifted to carry the mark */
+  saturatedBlockShare: number;
+  /**
+   * The mark embedded and read back after JPEG recompression at
+   * `recompressionQuality`; absent when the image is too small.
+   */
+  prediction?: {
+    /** True when the mark decodes to the embedded payload */
+    valid: boolean;
+    confidence: number;
+    correctedErrors: number;
   };
+};
+
+export type IdentifyCandidate = {
+  /** Position of the payload in the candidates passed to identify() */
+  index: number;
+  payload: WatermarkPayload;
+  isMatch: boolean;
+  /**
+   * Sign correlation between the image and the mark this payload would
+   * have left: 0 for an unrelated payload, 1 for an undamaged mark.
+   */
+  confidence: number;
+  /**
+   * Probability that an unwatermarked image would agree with this payload
+   * at least as well, accounting for every candidate, key and code tried.
+   */
+  falsePositiveProbability: number;
+  /**
+   * Identifier of the key-ring entry this payload scored best with.
+   */
+  keyId?: number;
+};
+
+export type IdentifyResult = {
+  /** Every candidate, most likely first */
+  ranked: IdentifyCandidate[];
+  /** The matching candidate, when exactly one matches */
+  winner?: IdentifyCandidate;
+  /**
+   * True when several candidates match and the image cannot tell them
+   * apart, e.g. raw payloads that differ in a few bits and a mark too
+   * damaged to decode.
+   */
+  ambiguous: boolean;
+  /** Digest decoded from the image, whether or not it is a candidate */
+  recoveredDigestHex?: string;
   error?: string;
 };
 
 export type ExtractResult = {
+  /**
+   * Recovered message bytes (the payload digest, or the raw payload bytes
+   * zero-padded to the embedded length, 8 bytes by default).
+   */
+  message: Uint8Array;
   digestHex: string;
+  /**
+   * True when the recovered message passes its embedded checksum.
+   * A false value means no readable watermark was found.
+   */
+  valid: boolean;
   confidence: number;
+  /**
+   * Bits the error-correcting code had to fix to read the message.
+   */
+  correctedErrors: number;
+  /**
+   * Key identifier: the key-ring entry that produced a valid message,
+   * otherwise the identifier read from the embedded header.
+   */
+  keyId: number;
 };
 
-export type { ImageInput };
+export type {
+  ImageInput,
+  MetadataKind,
+  ImageCodec,
+  EccScheme,
+  Modulation,
+  EmbeddingDomain,
+  WatermarkLayout,
+  ImageOrientation,
+  WatermarkCapacity,
+};
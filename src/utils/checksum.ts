@@ -0,0 +1,22 @@
+/**
+ * CRC-16/CCITT-FALSE over a bit array (MSB-first), returned as 16 bits.
+ * Operating on bits rather than bytes keeps it usable for frames whose
+ * length is not a multiple of 8. The non-zero initial value means an
+ * all-zero frame (what a flat, unmarked image decodes to) never validates.
+ */
+export function crc16Bits(bits: Uint8Array): Uint8Array {
+  let crc = 0xffff;
+  for (let i = 0; i < bits.length; i++) {
+    const top = ((crc >> 15) & 1) ^ (bits[i] & 1);
+    crc = (crc << 1) & 0xffff;
+    if (top) {
+      crc ^= 0x1021;
+    }
+  }
+
+  const out = new Uint8Array(16);
+  for (let i = 0; i < 16; i++) {
+    out[i] = (crc >> (15 - i)) & 1;
+  }
+  return out;
+}
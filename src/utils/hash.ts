@@ -1,16 +1,113 @@
-import { MODULE_SALT, PAYLOAD_BITS } from '../core/constants';
+import { HEADER_SALT, MODULE_SALT, PAYLOAD_BITS, PLACEMENT_SALT } from '../core/constants';
+import type { PlacementSeeds } from '../core/block-selection';
+import { assertPayloadBits } from '../core/frame';
+import type { WatermarkKey } from '../types';
 
-export async function derivePayloadDigest(payload: string): Promise<Uint8Array> {
+/** Whether a key is a WebCrypto key, where the platform has them */
+function isCryptoKey(key: WatermarkKey): key is CryptoKey {
+  return typeof CryptoKey !== 'undefined' && key instanceof CryptoKey;
+}
+
+/**
+ * Normalize a secret key to an HMAC-SHA-256 CryptoKey usable for signing.
+ */
+export async function importHmacKey(key: WatermarkKey): Promise<CryptoKey> {
+  if (isCryptoKey(key)) {
+    if (key.algorithm.name !== 'HMAC' || !key.usages.includes('sign')) {
+      throw new Error('CryptoKey must be an HMAC key with "sign" usage');
+    }
+    return key;
+  }
+  const raw =
+    typeof key === 'string'
+      ? new TextEncoder().encode(key)
+      : ArrayBuffer.isView(key)
+        ? new Uint8Array(key.buffer, key.byteOffset, key.byteLength).slice()
+        : new Uint8Array(key);
+  if (raw.length === 0) {
+    throw new Error('Watermark key must not be empty');
+  }
+  return crypto.subtle.importKey('raw', raw, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+}
+
+async function hashOrSign(data: BufferSource, key?: WatermarkKey): Promise<Uint8Array> {
+  if (key === undefined) {
+    return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+  }
+  const hmacKey = await importHmacKey(key);
+  return new Uint8Array(await crypto.subtle.sign('HMAC', hmacKey, data));
+}
+
+/**
+ * Derive the payload digest, truncated to `bitCount` bits. Without a key
+ * this is a salted SHA-256 that anyone can recompute; with a key it is an
+ * HMAC, so guessed payloads cannot be confirmed without the secret.
+ */
+export async function derivePayloadDigest(
+  payload: string,
+  key?: WatermarkKey,
+  bitCount = PAYLOAD_BITS
+): Promise<Uint8Array> {
   const encoder = new TextEncoder();
   const data = encoder.encode(payload + MODULE_SALT);
-  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-  const hashArray = new Uint8Array(hashBuffer);
+  const hashArray = await hashOrSign(data, key);
   
-  const bitsNeeded = PAYLOAD_BITS;
+  const bitsNeeded = bitCount;
   const bytesNeeded = Math.ceil(bitsNeeded / 8);
   return hashArray.slice(0, bytesNeeded);
 }
 
+/**
+ * Derive the PRNG seed that drives block and coefficient placement.
+ * It depends only on the module (and the key, if any), never on the
+ * payload, so extraction can run without knowing what was embedded.
+ * A keyed seed keeps the marked coefficients secret.
+ */
+export async function derivePlacementSeed(key?: WatermarkKey): Promise<Uint8Array> {
+  const data = new TextEncoder().encode(PLACEMENT_SALT);
+  return hashOrSign(data, key);
+}
+
+/**
+ * Derive both placement seeds. The header seed never depends on the key,
+ * so the key identifier can be read before the key is chosen.
+ */
+export async function derivePlacementSeeds(key?: WatermarkKey): Promise<PlacementSeeds> {
+  const headerData = new TextEncoder().encode(HEADER_SALT);
+  return {
+    header: new Uint8Array(await crypto.subtle.digest('SHA-256', headerData)),
+    body: await derivePlacementSeed(key),
+  };
+}
+
+/**
+ * Turn a payload into the `bitCount` message bits that get embedded.
+ * Strings are hashed into a digest; raw bytes are embedded verbatim
+ * (zero-padded) so they can be read back blindly. Padding makes a trailing
+ * zero byte indistinguishable from none, so raw payloads may not end in one.
+ */
+export async function derivePayloadBits(
+  payload: string | Uint8Array,
+  key?: WatermarkKey,
+  bitCount = PAYLOAD_BITS
+): Promise<Uint8Array> {
+  assertPayloadBits(bitCount);
+  if (typeof payload === 'string') {
+    return digestToBits(await derivePayloadDigest(payload, key, bitCount), bitCount);
+  }
+
+  const maxBytes = bitCount / 8;
+  if (payload.length > maxBytes) {
+    throw new Error(`Raw payload must be at most ${maxBytes} bytes, got ${payload.length}`);
+  }
+  if (payload[payload.length - 1] === 0) {
+    throw new Error('Raw payload must not end in a zero byte, which reads back as padding');
+  }
+  const padded = new Uint8Array(maxBytes);
+  padded.set(payload);
+  return digestToBits(padded, bitCount);
+}
+
 export function digestToBits(digest: Uint8Array, bitCount: number): Uint8Array {
   const bits = new Uint8Array(bitCount);
   for (let i = 0; i < bitCount; i++) {
@@ -20,3 +117,15 @@ export function digestToBits(digest: Uint8Array, bitCount: number): Uint8Array {
   }
   return bits;
 }
+
+export function bitsToDigest(bits: Uint8Array): Uint8Array {
+  const digest = new Uint8Array(Math.ceil(bits.length / 8));
+  for (let i = 0; i < bits.length; i++) {
+    const byteIndex = Math.floor(i / 8);
+    const bitIndex = 7 - (i % 8);
+    if (bits[i]) {
+      digest[byteIndex] |= 1 << bitIndex;
+    }
+  }
+  return digest;
+}
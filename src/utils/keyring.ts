@@ -0,0 +1,42 @@
+import type { KeyRingEntry, WatermarkKey } from '../types';
+
+/**
+ * A key to try during verification. `keyId` is absent for a lone key
+ * passed without a ring.
+ */
+export type KeyCandidate = {
+  keyId?: number;
+  key: WatermarkKey;
+};
+
+/**
+ * Collect the keys to try from `key`/`keyRing` options.
+ * An empty list means the watermark is expected to be unkeyed.
+ */
+export function resolveKeyCandidates(options?: {
+  key?: WatermarkKey;
+  keyRing?: KeyRingEntry[];
+}): KeyCandidate[] {
+  const candidates: KeyCandidate[] = [];
+  if (options?.key !== undefined) {
+    candidates.push({ key: options.key });
+  }
+  for (const entry of options?.keyRing ?? []) {
+    candidates.push(entry);
+  }
+  return candidates;
+}
+
+/**
+ * Move the candidates whose identifier matches the embedded one to the
+ * front, so the common case needs a single extraction.
+ */
+export function orderKeyCandidates(
+  candidates: KeyCandidate[],
+  embeddedKeyId: number
+): KeyCandidate[] {
+  return [
+    ...candidates.filter((c) => c.keyId === embeddedKeyId),
+    ...candidates.filter((c) => c.keyId !== embeddedKeyId),
+  ];
+}
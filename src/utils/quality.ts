@@ -0,0 +1,242 @@
+import { BLOCK_SIZE } from '../core/constants';
+import { dct2d } from '../core/dct';
+import { UNMARKED_LOW_FREQ_COEFFS } from '../core/block-selection';
+
+/**
+ * Pixels of an image, as held by ImageData.
+ */
+export type PixelBuffer = Pick<ImageData, 'data' | 'width' | 'height'>;
+
+export type QualityMetrics = {
+  /** Peak signal-to-noise ratio over the RGB channels in dB; Infinity when identical */
+  psnr: number;
+  /** Mean structural similarity of the luminance, 1 for identical images */
+  ssim: number;
+  /** Largest change of any pixel's luminance, in levels (0-255) */
+  maxLuminanceDelta: number;
+};
+
+/** What the whole 8x8 blocks of an image hold */
+export type BlockContent = {
+  blocks: number;
+  /** Blocks whose luminance varies too little to hide a change */
+  flatBlocks: number;
+  /** Blocks with most pixels clipped to 0 or 255 in some channel */
+  saturatedBlocks: number;
+};
+
+/** SSIM window size and step, in pixels */
+const SSIM_WINDOW = 8;
+const SSIM_STEP = 4;
+
+/** SSIM stabilising constants for 8-bit data (Wang et al. 2004) */
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+/** Luminance standard deviation, in levels, below which a block counts as flat */
+const FLAT_DEVIATION = 2;
+
+/** Share of clipped pixels from which a block counts as saturated */
+const SATURATED_PIXEL_SHARE = 0.5;
+
+/** Quantizer steps looked for in the footprint of a JPEG */
+const MIN_QUANTIZER = 2;
+const MAX_QUANTIZER = 40;
+
+/** Fewest coefficients a quantizer step is judged on */
+const MIN_LATTICE_SAMPLES = 50;
+
+/**
+ * Coherence with a lattice from which a coefficient counts as quantized,
+ * and how many of the coefficients looked at must be. Decoding and colour
+ * conversion blur the lattice of a JPEG to about 0.4-0.7 at quality 50;
+ * coefficients of an image never compressed stay below 0.2.
+ */
+const LATTICE_COHERENCE = 0.4;
+const MIN_QUANTIZED_COEFFICIENTS = 3;
+
+function luminance({ data, width, height }: PixelBuffer): Float32Array {
+  const y = new Float32Array(width * height);
+  for (let i = 0; i < y.length; i++) {
+    y[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return y;
+}
+
+/**
+ * Mean SSIM over square windows stepped across the image. Images smaller
+ * than a window are compared as a single window.
+ */
+function structuralSimilarity(a: Float32Array, b: Float32Array, width: number, height: number) {
+  const windowX = Math.min(SSIM_WINDOW, width);
+  const windowY = Math.min(SSIM_WINDOW, height);
+  const n = windowX * windowY;
+  let total = 0;
+  let windows = 0;
+  for (let top = 0; top + windowY <= height; top += SSIM_STEP) {
+    for (let left = 0; left + windowX <= width; left += SSIM_STEP) {
+      let sumA = 0;
+      let sumB = 0;
+      let sumAA = 0;
+      let sumBB = 0;
+      let sumAB = 0;
+      for (let row = top; row < top + windowY; row++) {
+        for (let x = left; x < left + windowX; x++) {
+          const va = a[row * width + x];
+          const vb = b[row * width + x];
+          sumA += va;
+          sumB += vb;
+          sumAA += va * va;
+          sumBB += vb * vb;
+          sumAB += va * vb;
+        }
+      }
+      const meanA = sumA / n;
+      const meanB = sumB / n;
+      const varA = sumAA / n - meanA * meanA;
+      const varB = sumBB / n - meanB * meanB;
+      const covariance = sumAB / n - meanA * meanB;
+      total +=
+        ((2 * meanA * meanB + SSIM_C1) * (2 * covariance + SSIM_C2)) /
+        ((meanA * meanA + meanB * meanB + SSIM_C1) * (varA + varB + SSIM_C2));
+      windows++;
+    }
+  }
+  return windows > 0 ? total / windows : 1;
+}
+
+/**
+ * Compare a processed image with its source. Both must have the same size.
+ */
+export function measureQuality(source: PixelBuffer, output: PixelBuffer): QualityMetrics {
+  const { width, height } = source;
+  if (output.width !== width || output.height !== height) {
+    throw new Error(
+      `Cannot compare a ${width}x${height} image with a ${output.width}x${output.height} one`
+    );
+  }
+
+  let squaredError = 0;
+  for (let i = 0; i < width * height; i++) {
+    for (let c = 0; c < 3; c++) {
+      const diff = source.data[i * 4 + c] - output.data[i * 4 + c];
+      squaredError += diff * diff;
+    }
+  }
+  const mse = squaredError / (width * height * 3);
+
+  const sourceY = luminance(source);
+  const outputY = luminance(output);
+  let maxLuminanceDelta = 0;
+  for (let i = 0; i < sourceY.length; i++) {
+    maxLuminanceDelta = Math.max(maxLuminanceDelta, Math.abs(sourceY[i] - outputY[i]));
+  }
+
+  return {
+    psnr: mse > 0 ? 10 * Math.log10((255 * 255) / mse) : Infinity,
+    ssim: structuralSimilarity(sourceY, outputY, width, height),
+    maxLuminanceDelta,
+  };
+}
+
+/**
+ * How closely values of at least half a step sit on multiples of `step`:
+ * the mean cosine of their phase, 1 when all of them do and near 0 for
+ * values spread evenly. Smaller values are left out, as any quantizer
+ * rounds them to zero alike.
+ */
+function latticeCoherence(values: Float32Array, step: number): number {
+  let sum = 0;
+  let count = 0;
+  for (const value of values) {
+    if (Math.abs(value) > step / 2) {
+      sum += Math.cos((2 * Math.PI * value) / step);
+      count++;
+    }
+  }
+  return count >= MIN_LATTICE_SAMPLES ? sum / count : 0;
+}
+
+/**
+ * Whether the 8x8 block DCT of an image still shows the quantization of a
+ * JPEG it was decoded from: low-frequency coefficients clustered on
+ * multiples of a step. Quality above about 90 leaves too fine a lattice to
+ * tell, and resizing or shifting the image off the block grid erases it.
+ */
+export function hasQuantizationFootprint(source: PixelBuffer): boolean {
+  const { width, height } = source;
+  const y = luminance(source);
+  const blocksX = Math.floor(width / BLOCK_SIZE);
+  const blocksY = Math.floor(height / BLOCK_SIZE);
+  const coefficients = UNMARKED_LOW_FREQ_COEFFS.map(() => new Float32Array(blocksX * blocksY));
+  const block = new Float32Array(BLOCK_SIZE * BLOCK_SIZE);
+
+  for (let by = 0; by < blocksY; by++) {
+    for (let bx = 0; bx < blocksX; bx++) {
+      for (let row = 0; row < BLOCK_SIZE; row++) {
+        for (let col = 0; col < BLOCK_SIZE; col++) {
+          block[row * BLOCK_SIZE + col] =
+            y[(by * BLOCK_SIZE + row) * width + bx * BLOCK_SIZE + col];
+        }
+      }
+      const dctBlock = dct2d(block);
+      UNMARKED_LOW_FREQ_COEFFS.forEach(([u, v], i) => {
+        coefficients[i][by * blocksX + bx] = dctBlock[u * BLOCK_SIZE + v];
+      });
+    }
+  }
+
+  const quantized = coefficients.filter((values) => {
+    for (let step = MIN_QUANTIZER; step <= MAX_QUANTIZER; step++) {
+      if (latticeCoherence(values, step) >= LATTICE_COHERENCE) {
+        return true;
+      }
+    }
+    return false;
+  });
+  return quantized.length >= MIN_QUANTIZED_COEFFICIENTS;
+}
+
+/**
+ * Count the flat and saturated blocks among the whole 8x8 blocks of an
+ * image, the ones the watermark is embedded in.
+ */
+export function measureBlockContent(source: PixelBuffer): BlockContent {
+  const { data, width, height } = source;
+  const y = luminance(source);
+  const n = BLOCK_SIZE * BLOCK_SIZE;
+  let blocks = 0;
+  let flatBlocks = 0;
+  let saturatedBlocks = 0;
+
+  for (let top = 0; top + BLOCK_SIZE <= height; top += BLOCK_SIZE) {
+    for (let left = 0; left + BLOCK_SIZE <= width; left += BLOCK_SIZE) {
+      let sum = 0;
+      let sumSquares = 0;
+      let clipped = 0;
+      for (let row = top; row < top + BLOCK_SIZE; row++) {
+        for (let x = left; x < left + BLOCK_SIZE; x++) {
+          const i = row * width + x;
+          sum += y[i];
+          sumSquares += y[i] * y[i];
+          const r = data[i * 4];
+          const g = data[i * 4 + 1];
+          const b = data[i * 4 + 2];
+          if (Math.min(r, g, b) === 0 || Math.max(r, g, b) === 255) {
+            clipped++;
+          }
+        }
+      }
+      const mean = sum / n;
+      blocks++;
+      if (Math.sqrt(Math.max(0, sumSquares / n - mean * mean)) < FLAT_DEVIATION) {
+        flatBlocks++;
+      }
+      if (clipped >= n * SATURATED_PIXEL_SHARE) {
+        saturatedBlocks++;
+      }
+    }
+  }
+
+  return { blocks, flatBlocks, saturatedBlocks };
+}
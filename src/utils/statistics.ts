@@ -0,0 +1,26 @@
+/**
+ * Natural log of P(X >= atLeast) for X ~ Binomial(trials, 1/2): the chance
+ * that fair coin flips agree with a fixed pattern at least `atLeast` times.
+ * Computed in log space so that tails far below 1e-308 stay comparable.
+ */
+export function logBinomialTail(trials: number, atLeast: number): number {
+  if (atLeast <= 0) return 0;
+  if (atLeast > trials) return -Infinity;
+
+  // Sum the terms from the far end of the tail inwards
+  let logTerm = -trials * Math.LN2;
+  let logSum = logTerm;
+  for (let i = trials - 1; i >= atLeast; i--) {
+    logTerm += Math.log((i + 1) / (trials - i));
+    logSum = Math.max(logSum, logTerm) + Math.log1p(Math.exp(-Math.abs(logSum - logTerm)));
+  }
+  return logSum;
+}
+
+/**
+ * P(X >= atLeast) for X ~ Binomial(trials, 1/2). Very strong agreement
+ * underflows to 0.
+ */
+export function binomialTail(trials: number, atLeast: number): number {
+  return Math.exp(logBinomialTail(trials, atLeast));
+}
@@ -1,5 +1,8 @@
 import { describe, it, expect } from 'vitest';
-import { watermark, verify } from '../../src/index';
+import { watermark, verify, identify, capacity, analyze, registerCodec } from '../../src/index';
+import { extract } from '../../src/debug';
+import { readExifOrientation } from '../../src/io/exif';
+import { readTiff, writeTiff } from '../../src/io/tiff';
 
 function createTestImage(width: number, height: number): ImageData {
   const data = new Uint8ClampedArray(width * height * 4);
@@ -12,12 +15,41 @@ function createTestImage(width: number, height: number): ImageData {
   return new ImageData(data, width, height);
 }
 
-async function imageDataToBlob(imageData: ImageData): Promise<Blob> {
-  const canvas = new OffscreenCanvas(imageData.width, imageData.height);
+/** A square gray image with a fine diagonal texture for the mark to hide in */
+function texturedImage(size: number): ImageData {
+  const imageData = createTestImage(size, size);
+  for (let i = 0; i < size * size; i++) {
+    imageData.data.fill(96 + ((i * 37) % 61), i * 4, i * 4 + 3);
+  }
+  return imageData;
+}
+
+/** Draw on a fresh canvas and encode it, as PNG unless given a type */
+async function drawToBlob(
+  width: number,
+  height: number,
+  draw: (ctx: OffscreenCanvasRenderingContext2D) => void,
+  type?: string,
+  quality?: number
+): Promise<Blob> {
+  const canvas = new OffscreenCanvas(width, height);
   const ctx = canvas.getContext('2d');
   if (!ctx) throw new Error('No context');
-  ctx.putImageData(imageData, 0, 0);
-  return await canvas.convertToBlob();
+  draw(ctx);
+  return await canvas.convertToBlob({ type, quality });
+}
+
+async function imageDataToBlob(
+  imageData: ImageData,
+  type?: string,
+  quality?: number
+): Promise<Blob> {
+  const { width, height } = imageData;
+  return drawToBlob(width, height, (ctx) => ctx.putImageData(imageData, 0, 0), type, quality);
+}
+
+async function texturedJpeg(size: number, quality: number): Promise<Blob> {
+  return imageDataToBlob(texturedImage(size), 'image/jpeg', quality);
 }
 
 describe('watermark', () => {
@@ -75,3 +107,1011 @@ describe('verify', () => {
     expect(verification.confidence).toBeGreaterThan(0.5);
   });
 });
+
+describe('false-positive probability', () => {
+  it('should report a tiny false-positive probability for a watermarked image', async () => {
+    const imageData = createTestImage(256, 256);
+    const watermarked = await watermark(imageData, 'calibrated');
+
+    const result = await verify(watermarked.blob, 'calibrated');
+
+    expect(result.isMatch).toBe(true);
+    expect(result.falsePositiveProbability).toBeLessThan(1e-12);
+  });
+
+  it('should not match an unwatermarked image', async () => {
+    const imageData = createTestImage(256, 256);
+    const blob = await imageDataToBlob(imageData);
+
+    const result = await verify(blob, 'calibrated');
+
+    expect(result.isMatch).toBe(false);
+    expect(result.falsePositiveProbability).toBeGreaterThan(1e-6);
+  });
+
+  it('should honour a stricter target rate', async () => {
+    const imageData = createTestImage(256, 256);
+    const watermarked = await watermark(imageData, 'calibrated');
+
+    const result = await verify(watermarked.blob, 'calibrated', { falsePositiveRate: 1e-300 });
+
+    expect(result.isMatch).toBe(result.falsePositiveProbability! <= 1e-300);
+  });
+
+  it('should decide a match by a 1e-6 false-positive rate by default', async () => {
+    const imageData = createTestImage(256, 256);
+    const watermarked = await watermark(imageData, 'calibrated');
+
+    const defaults = await verify(watermarked.blob, 'calibrated');
+    const explicit = await verify(watermarked.blob, 'calibrated', { falsePositiveRate: 1e-6 });
+
+    expect(defaults.isMatch).toBe(true);
+    expect(defaults.isMatch).toBe(explicit.isMatch);
+    expect(defaults.falsePositiveProbability).toBe(explicit.falsePositiveProbability);
+  });
+
+  it('should keep the confidence rule when only a threshold is passed', async () => {
+    const imageData = createTestImage(256, 256);
+    const watermarked = await watermark(imageData, 'calibrated');
+
+    const lenient = await verify(watermarked.blob, 'calibrated', { threshold: 0.85 });
+    const unreachable = await verify(watermarked.blob, 'calibrated', { threshold: 1.01 });
+    const both = await verify(watermarked.blob, 'calibrated', {
+      threshold: 1.01,
+      falsePositiveRate: 1e-6,
+    });
+
+    expect(lenient.isMatch).toBe(lenient.confidence >= 0.85);
+    expect(unreachable.isMatch).toBe(false);
+    expect(both.isMatch).toBe(true);
+  });
+});
+
+describe('identify', () => {
+  const recipients = Array.from({ length: 200 }, (_, i) => `recipient-${i}`);
+
+  it('should single out the recipient the image was marked for', async () => {
+    const imageData = createTestImage(256, 256);
+    const watermarked = await watermark(imageData, 'recipient-42');
+
+    const result = await identify(watermarked.blob, recipients);
+
+    expect(result.ranked).toHaveLength(recipients.length);
+    expect(result.winner?.index).toBe(42);
+    expect(result.winner?.payload).toBe('recipient-42');
+    expect(result.ranked[0]).toBe(result.winner);
+    expect(result.ambiguous).toBe(false);
+    expect(result.ranked.filter((c) => c.isMatch)).toHaveLength(1);
+  });
+
+  it('should report no winner for an unwatermarked image', async () => {
+    const imageData = createTestImage(256, 256);
+    const blob = await imageDataToBlob(imageData);
+
+    const result = await identify(blob, recipients);
+
+    expect(result.winner).toBeUndefined();
+    expect(result.ambiguous).toBe(false);
+  });
+
+  it('should flag candidates the image cannot tell apart', async () => {
+    const imageData = createTestImage(256, 256);
+    const watermarked = await watermark(imageData, 'recipient-7');
+
+    const result = await identify(watermarked.blob, ['recipient-7', 'recipient-7', 'other']);
+
+    expect(result.winner).toBeUndefined();
+    expect(result.ambiguous).toBe(true);
+  });
+
+  it('should identify keyed marks through a key ring', async () => {
+    const key = new TextEncoder().encode('identify-key');
+    const imageData = createTestImage(256, 256);
+    const watermarked = await watermark(imageData, 'recipient-3', { key, keyId: 9 });
+
+    const result = await identify(watermarked.blob, recipients, {
+      keyRing: [{ keyId: 1, key: new TextEncoder().encode('other-key') }, { keyId: 9, key }],
+    });
+
+    expect(result.winner?.index).toBe(3);
+    expect(result.winner?.keyId).toBe(9);
+  });
+});
+
+describe('tiled layout', () => {
+  async function cropBlob(blob: Blob, x: number, y: number, width: number, height: number) {
+    const bitmap = await createImageBitmap(blob);
+    return drawToBlob(width, height, (ctx) => ctx.drawImage(bitmap, -x, -y));
+  }
+
+  it('should verify an uncropped tiled watermark', async () => {
+    const imageData = createTestImage(512, 512);
+    const watermarked = await watermark(imageData, 'tiled', { layout: 'tiled' });
+
+    const result = await verify(watermarked.blob, 'tiled');
+
+    expect(result.isMatch).toBe(true);
+  });
+
+  it('should verify a crop at an arbitrary offset', async () => {
+    const imageData = createTestImage(512, 512);
+    const watermarked = await watermark(imageData, 'tiled', { layout: 'tiled' });
+    const cropped = await cropBlob(watermarked.blob, 37, 101, 300, 300);
+
+    const match = await verify(cropped, 'tiled');
+    const other = await verify(cropped, 'other');
+
+    expect(match.isMatch).toBe(true);
+    expect(other.isMatch).toBe(false);
+  });
+
+  it('should extract from a crop smaller than a tile', async () => {
+    const recordId = new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8]);
+    const imageData = createTestImage(512, 512);
+    const watermarked = await watermark(imageData, recordId, { layout: 'tiled', keyId: 5 });
+    const cropped = await cropBlob(watermarked.blob, 203, 77, 200, 200);
+
+    const result = await extract(cropped);
+
+    expect(result.valid).toBe(true);
+    expect(result.digestHex).toBe('0102030405060708');
+    expect(result.keyId).toBe(5);
+  });
+
+  it('should not recover a full-layout watermark from a crop', async () => {
+    const imageData = createTestImage(512, 512);
+    const watermarked = await watermark(imageData, 'full');
+    const cropped = await cropBlob(watermarked.blob, 3, 5, 400, 400);
+
+    const result = await extract(cropped);
+
+    expect(result.valid).toBe(false);
+  });
+});
+
+describe('sync template', () => {
+  async function resizeBlob(blob: Blob, scale: number, rotation = 0) {
+    const bitmap = await createImageBitmap(blob);
+    const width = rotation ? bitmap.width : Math.round(bitmap.width * scale);
+    const height = rotation ? bitmap.height : Math.round(bitmap.height * scale);
+    return drawToBlob(width, height, (ctx) => {
+      ctx.translate(width / 2, height / 2);
+      ctx.rotate((rotation * Math.PI) / 180);
+      ctx.scale(scale, scale);
+      ctx.drawImage(bitmap, -bitmap.width / 2, -bitmap.height / 2);
+    });
+  }
+
+  it('should verify a resized image and report the scale', async () => {
+    const imageData = createTestImage(512, 512);
+    const watermarked = await watermark(imageData, 'resized', { syncTemplate: true });
+    const resized = await resizeBlob(watermarked.blob, 0.75);
+
+    const result = await verify(resized, 'resized');
+
+    expect(result.isMatch).toBe(true);
+    expect(result.transformHints?.likelyResized).toBe(true);
+    expect(result.transformHints?.scale).toBeCloseTo(0.75, 2);
+  });
+
+  it('should verify a rotated tiled watermark', async () => {
+    const imageData = createTestImage(512, 512);
+    const watermarked = await watermark(imageData, 'rotated', {
+      layout: 'tiled',
+      syncTemplate: true,
+    });
+    const rotated = await resizeBlob(watermarked.blob, 1.2, 10);
+
+    const match = await verify(rotated, 'rotated');
+    const other = await verify(rotated, 'other');
+
+    expect(match.isMatch).toBe(true);
+    expect(match.transformHints?.rotation).toBeCloseTo(10, 0);
+    expect(other.isMatch).toBe(false);
+  });
+
+  it('should not report a transform for an untouched image', async () => {
+    const imageData = createTestImage(256, 256);
+    const watermarked = await watermark(imageData, 'untouched', { syncTemplate: true });
+
+    const result = await verify(watermarked.blob, 'untouched');
+
+    expect(result.isMatch).toBe(true);
+    expect(result.transformHints).toBeUndefined();
+  });
+});
+
+describe('orientation search', () => {
+  async function turnBlob(blob: Blob, rotation: number, mirrored: boolean) {
+    const bitmap = await createImageBitmap(blob);
+    const sideways = rotation % 180 !== 0;
+    const width = sideways ? bitmap.height : bitmap.width;
+    const height = sideways ? bitmap.width : bitmap.height;
+    return drawToBlob(width, height, (ctx) => {
+      ctx.translate(width / 2, height / 2);
+      ctx.rotate((rotation * Math.PI) / 180);
+      ctx.scale(mirrored ? -1 : 1, 1);
+      ctx.drawImage(bitmap, -bitmap.width / 2, -bitmap.height / 2);
+    });
+  }
+
+  it('should verify a rotated image and report the orientation', async () => {
+    const imageData = createTestImage(320, 256);
+    const watermarked = await watermark(imageData, 'turned');
+    const turned = await turnBlob(watermarked.blob, 90, false);
+
+    const plain = await verify(turned, 'turned');
+    const searched = await verify(turned, 'turned', { searchOrientations: true });
+
+    expect(plain.isMatch).toBe(false);
+    expect(searched.isMatch).toBe(true);
+    expect(searched.orientation).toEqual({ rotation: 90, mirrored: false });
+  });
+
+  it('should verify a mirrored image', async () => {
+    const imageData = createTestImage(256, 256);
+    const watermarked = await watermark(imageData, 'mirrored');
+    const mirrored = await turnBlob(watermarked.blob, 180, true);
+
+    const result = await verify(mirrored, 'mirrored', { searchOrientations: true });
+    const other = await verify(mirrored, 'other', { searchOrientations: true });
+
+    expect(result.isMatch).toBe(true);
+    expect(result.orientation).toEqual({ rotation: 180, mirrored: true });
+    expect(other.isMatch).toBe(false);
+  });
+
+  it('should leave an upright image unannotated', async () => {
+    const imageData = createTestImage(256, 256);
+    const watermarked = await watermark(imageData, 'upright');
+
+    const result = await verify(watermarked.blob, 'upright', { searchOrientations: true });
+
+    expect(result.isMatch).toBe(true);
+    expect(result.orientation).toEqual({ rotation: 0, mirrored: false });
+  });
+});
+
+describe('embedding strength', () => {
+  it('should verify a perceptually masked watermark', async () => {
+    const imageData = createTestImage(256, 256);
+    const watermarked = await watermark(imageData, 'masked', { perceptualMasking: true });
+
+    const match = await verify(watermarked.blob, 'masked');
+    const other = await verify(watermarked.blob, 'other');
+
+    expect(match.isMatch).toBe(true);
+    expect(other.isMatch).toBe(false);
+  });
+
+  it('should verify a stronger watermark', async () => {
+    const imageData = createTestImage(256, 256);
+    const watermarked = await watermark(imageData, 'strong', { strength: 2 });
+
+    const result = await verify(watermarked.blob, 'strong');
+
+    expect(result.isMatch).toBe(true);
+  });
+
+  it('should reject a non-positive strength', async () => {
+    const imageData = createTestImage(64, 64);
+
+    await expect(watermark(imageData, 'bad', { strength: 0 })).rejects.toThrow('strength');
+  });
+});
+
+describe('diagnostics', () => {
+  it('should report output quality and a self-check', async () => {
+    const imageData = createTestImage(256, 256);
+    const result = await watermark(imageData, 'diagnosed', { diagnostics: true });
+
+    expect(result.diagnostics).toBeDefined();
+    const diagnostics = result.diagnostics!;
+    expect(diagnostics.psnr).toBeGreaterThan(30);
+    expect(diagnostics.ssim).toBeGreaterThan(0.8);
+    expect(diagnostics.ssim).toBeLessThanOrEqual(1);
+    expect(diagnostics.maxLuminanceDelta).toBeGreaterThan(0);
+    expect(diagnostics.selfCheck.valid).toBe(true);
+    expect(diagnostics.embedScore).toBe(diagnostics.selfCheck.confidence);
+    expect(diagnostics.payloadDigestHex).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('should self-check the tiled layout', async () => {
+    const imageData = createTestImage(300, 300);
+    const result = await watermark(imageData, 'tiled', { layout: 'tiled', diagnostics: true });
+
+    expect(result.diagnostics?.selfCheck.valid).toBe(true);
+  });
+
+  it('should leave diagnostics out unless asked', async () => {
+    const imageData = createTestImage(64, 64);
+    const result = await watermark(imageData, 'quiet');
+
+    expect(result.diagnostics).toBeUndefined();
+  });
+});
+
+describe('guarantee mode', () => {
+  it('should report a single iteration when the first encode reads back', async () => {
+    const imageData = createTestImage(256, 256);
+    const result = await watermark(imageData, 'lossless', { guarantee: true });
+
+    expect(result.guarantee).toEqual({
+      met: true,
+      iterations: 1,
+      confidence: expect.any(Number),
+      jpegQuality: undefined,
+    });
+  });
+
+  it('should reinforce a mark that harsh compression would destroy', async () => {
+    // At quality 0.2 the first encode reads back well short of 0.9
+    const source = await texturedJpeg(256, 0.95);
+    const result = await watermark(source, 'harsh', {
+      jpegQuality: 0.2,
+      guarantee: { minConfidence: 0.9, maxIterations: 6 },
+    });
+
+    expect(result.mimeType).toBe('image/jpeg');
+    expect(result.guarantee?.met).toBe(true);
+    expect(result.guarantee?.iterations).toBeGreaterThan(1);
+    expect(result.guarantee?.iterations).toBeLessThanOrEqual(6);
+    expect(result.guarantee?.confidence).toBeGreaterThanOrEqual(0.9);
+    expect((await verify(result.blob, 'harsh')).isMatch).toBe(true);
+  });
+
+  it('should stop at the iteration budget', async () => {
+    // No mark reads back at quality 0.05 in two rounds
+    const source = await texturedJpeg(128, 0.95);
+    const result = await watermark(source, 'budget', {
+      jpegQuality: 0.05,
+      guarantee: { minConfidence: 1, maxIterations: 2 },
+    });
+
+    expect(result.guarantee?.met).toBe(false);
+    expect(result.guarantee?.iterations).toBe(2);
+  });
+});
+
+describe('saturated images', () => {
+  async function documentJpeg(background: number, ink: number): Promise<Blob> {
+    const width = 256;
+    const height = 256;
+    const imageData = createTestImage(width, height);
+    for (let i = 0; i < width * height; i++) {
+      const row = Math.floor(i / width);
+      // Lines of "text" every 16 rows on a plain page
+      const value = row % 16 < 4 && (i * 7) % 11 < 6 ? ink : background;
+      imageData.data.fill(value, i * 4, i * 4 + 3);
+    }
+    return imageDataToBlob(imageData, 'image/jpeg', 0.95);
+  }
+
+  it('should verify a recompressed white document', async () => {
+    const source = await documentJpeg(255, 0);
+    const watermarked = await watermark(source, 'white page', { jpegQuality: 0.5 });
+
+    const result = await verify(watermarked.blob, 'white page');
+
+    expect(result.isMatch).toBe(true);
+  });
+
+  it('should verify a recompressed black document', async () => {
+    const source = await documentJpeg(0, 255);
+    const watermarked = await watermark(source, 'black page', { jpegQuality: 0.5 });
+
+    const result = await verify(watermarked.blob, 'black page');
+
+    expect(result.isMatch).toBe(true);
+  });
+});
+
+describe('keyed watermarking', () => {
+  const key = new TextEncoder().encode('issuer-secret');
+
+  it('should verify with the correct key', async () => {
+    const imageData = createTestImage(256, 256);
+    const blob = await imageDataToBlob(imageData);
+
+    const watermarked = await watermark(blob, 'event-1001', { key });
+    const verification = await verify(watermarked.blob, 'event-1001', { key });
+
+    expect(verification.isMatch).toBe(true);
+  });
+
+  it('should not match with a wrong key', async () => {
+    const imageData = createTestImage(256, 256);
+    const blob = await imageDataToBlob(imageData);
+
+    const watermarked = await watermark(blob, 'event-1001', { key });
+    const verification = await verify(watermarked.blob, 'event-1001', {
+      key: new TextEncoder().encode('wrong-secret'),
+    });
+
+    expect(verification.isMatch).toBe(false);
+    expect(verification.error).toBeUndefined();
+  });
+
+  it('should not match without the key', async () => {
+    const imageData = createTestImage(256, 256);
+    const blob = await imageDataToBlob(imageData);
+
+    const watermarked = await watermark(blob, 'event-1001', { key });
+    const verification = await verify(watermarked.blob, 'event-1001');
+
+    expect(verification.isMatch).toBe(false);
+  });
+});
+
+describe('key rotation', () => {
+  const oldKey = new TextEncoder().encode('issuer-secret-2019');
+  const newKey = new TextEncoder().encode('issuer-secret-2024');
+  const keyRing = [
+    { keyId: 1, key: oldKey },
+    { keyId: 2, key: newKey },
+  ];
+
+  it('should report which key matched', async () => {
+    const imageData = createTestImage(256, 256);
+    const blob = await imageDataToBlob(imageData);
+
+    const watermarked = await watermark(blob, 'event-2001', { key: oldKey, keyId: 1 });
+    const verification = await verify(watermarked.blob, 'event-2001', { keyRing });
+
+    expect(verification.isMatch).toBe(true);
+    expect(verification.keyId).toBe(1);
+  });
+
+  it('should fall back to the rest of the ring for a mislabelled key', async () => {
+    const imageData = createTestImage(256, 256);
+    const blob = await imageDataToBlob(imageData);
+
+    const watermarked = await watermark(blob, 'event-2002', { key: newKey, keyId: 1 });
+    const verification = await verify(watermarked.blob, 'event-2002', { keyRing });
+
+    expect(verification.isMatch).toBe(true);
+    expect(verification.keyId).toBe(2);
+  });
+
+  it('should not match when the key is missing from the ring', async () => {
+    const imageData = createTestImage(256, 256);
+    const blob = await imageDataToBlob(imageData);
+
+    const watermarked = await watermark(blob, 'event-2003', {
+      key: new TextEncoder().encode('unknown'),
+      keyId: 3,
+    });
+    const verification = await verify(watermarked.blob, 'event-2003', { keyRing });
+
+    expect(verification.isMatch).toBe(false);
+    expect(verification.keyId).toBeUndefined();
+  });
+});
+
+describe('extract', () => {
+  it('should blindly recover a raw byte payload', async () => {
+    const imageData = createTestImage(256, 256);
+    const blob = await imageDataToBlob(imageData);
+    const recordId = new Uint8Array([0x01, 0x23, 0x45, 0x67, 0x89, 0xab]);
+
+    const watermarked = await watermark(blob, recordId);
+    const result = await extract(watermarked.blob);
+
+    expect(result.valid).toBe(true);
+    expect(Array.from(result.message.slice(0, recordId.length))).toEqual(Array.from(recordId));
+  });
+
+  it('should verify a raw byte payload', async () => {
+    const imageData = createTestImage(256, 256);
+    const recordId = new Uint8Array([0xca, 0xfe, 0xba, 0xbe]);
+
+    const watermarked = await watermark(imageData, recordId);
+    const verification = await verify(watermarked.blob, recordId);
+
+    expect(verification.isMatch).toBe(true);
+  });
+
+  it('should report an invalid message for an unwatermarked image', async () => {
+    const imageData = createTestImage(256, 256);
+    const blob = await imageDataToBlob(imageData);
+
+    const result = await extract(blob);
+
+    expect(result.valid).toBe(false);
+  });
+});
+
+describe('error correction', () => {
+  for (const ecc of ['repetition', 'bch', 'reed-solomon'] as const) {
+    it(`should round-trip with ${ecc}`, async () => {
+      const imageData = createTestImage(256, 256);
+      const payload = `ecc-${ecc}`;
+
+      const watermarked = await watermark(imageData, payload, { ecc });
+      const verification = await verify(watermarked.blob, payload);
+
+      expect(verification.isMatch).toBe(true);
+      expect(verification.correctedErrors).toBeGreaterThanOrEqual(0);
+    });
+  }
+
+  it('should report corrected errors from extract', async () => {
+    const imageData = createTestImage(256, 256);
+    const recordId = new Uint8Array([0x10, 0x20]);
+
+    const watermarked = await watermark(imageData, recordId, { ecc: 'reed-solomon' });
+    const result = await extract(watermarked.blob);
+
+    expect(result.valid).toBe(true);
+    expect(typeof result.correctedErrors).toBe('number');
+  });
+});
+
+describe('small images', () => {
+  it('should verify a thumbnail', async () => {
+    const imageData = createTestImage(48, 48);
+    const watermarked = await watermark(imageData, 'thumbnail');
+
+    const match = await verify(watermarked.blob, 'thumbnail');
+    const other = await verify(watermarked.blob, 'other');
+
+    expect(match.isMatch).toBe(true);
+    expect(other.isMatch).toBe(false);
+  });
+
+  it('should report whether an image can hold the mark', async () => {
+    const thumbnail = await capacity(48, 48);
+    const icon = await capacity(16, 16);
+
+    expect(thumbnail.fits).toBe(true);
+    expect(thumbnail.placedBodyBits).toBe(thumbnail.bodyBits);
+    expect(icon.fits).toBe(false);
+  });
+
+  it('should refuse an image too small to hold the mark', async () => {
+    const imageData = createTestImage(16, 16);
+
+    await expect(watermark(imageData, 'icon')).rejects.toThrow('too small');
+  });
+});
+
+describe('analysis', () => {
+  it('should call a textured image ok', async () => {
+    const imageData = createTestImage(256, 256);
+    for (let i = 0; i < 256 * 256; i++) {
+      imageData.data.fill(96 + ((i * 37) % 61), i * 4, i * 4 + 3);
+    }
+
+    const result = await analyze(imageData);
+
+    expect(result.verdict).toBe('ok');
+    expect(result.reasons).toEqual([]);
+    expect(result.blocks).toBe(1024);
+    expect(result.blocksPerBit).toBeGreaterThan(1);
+    expect(result.flatBlockShare).toBe(0);
+    expect(result.prediction?.valid).toBe(true);
+  });
+
+  it('should call a flat image marginal and say why', async () => {
+    const result = await analyze(createTestImage(256, 256));
+
+    expect(result.verdict).toBe('marginal');
+    expect(result.flatBlockShare).toBe(1);
+    expect(result.reasons.some((reason) => reason.includes('flat'))).toBe(true);
+  });
+
+  it('should call an icon too small without predicting', async () => {
+    const result = await analyze(createTestImage(16, 16));
+
+    expect(result.verdict).toBe('too small');
+    expect(result.reasons).toHaveLength(1);
+    expect(result.prediction).toBeUndefined();
+  });
+});
+
+describe('QIM modulation', () => {
+  it('should verify a QIM mark without being told the modulation', async () => {
+    const watermarked = await watermark(texturedImage(256), 'lattice', { modulation: 'qim' });
+
+    const match = await verify(watermarked.blob, 'lattice');
+    const other = await verify(watermarked.blob, 'other');
+    const extracted = await extract(watermarked.blob);
+
+    expect(match.isMatch).toBe(true);
+    expect(other.isMatch).toBe(false);
+    expect(extracted.valid).toBe(true);
+  });
+
+  it('should change the image less than sign modulation', async () => {
+    const sign = await watermark(texturedImage(256), 'quiet', { diagnostics: true });
+    const qim = await watermark(texturedImage(256), 'quiet', {
+      modulation: 'qim',
+      diagnostics: true,
+    });
+
+    expect(qim.diagnostics!.selfCheck.valid).toBe(true);
+    expect(qim.diagnostics!.psnr).toBeGreaterThan(sign.diagnostics!.psnr);
+  });
+
+  it('should reject a step the header cannot record', async () => {
+    await expect(
+      watermark(texturedImage(256), 'bad', { modulation: 'qim', qimStep: 30 })
+    ).rejects.toThrow('qimStep');
+  });
+});
+
+describe('wavelet domain', () => {
+  async function downscaleBlob(blob: Blob, scale: number) {
+    const bitmap = await createImageBitmap(blob);
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+    return drawToBlob(width, height, (ctx) => ctx.drawImage(bitmap, 0, 0, width, height));
+  }
+
+  it('should verify a wavelet-domain mark after downscaling to half size', async () => {
+    const watermarked = await watermark(texturedImage(512), 'halved', {
+      domain: 'dwt-dct',
+      diagnostics: true,
+    });
+    const halved = await downscaleBlob(watermarked.blob, 0.5);
+
+    const match = await verify(halved, 'halved');
+    const other = await verify(halved, 'other');
+
+    expect(watermarked.diagnostics!.selfCheck.valid).toBe(true);
+    expect(match.isMatch).toBe(true);
+    expect(other.isMatch).toBe(false);
+  });
+
+  it('should need an image four times larger to fit', async () => {
+    expect((await capacity(64, 64)).fits).toBe(true);
+    expect((await capacity(64, 64, { domain: 'dwt-dct' })).fits).toBe(false);
+    expect((await capacity(128, 128, { domain: 'dwt-dct' })).fits).toBe(true);
+  });
+});
+
+describe('chroma embedding', () => {
+  function colourImage(): ImageData {
+    const imageData = createTestImage(256, 256);
+    for (let i = 0; i < 256 * 256; i++) {
+      imageData.data[i * 4] = 96 + ((i * 37) % 61);
+      imageData.data[i * 4 + 1] = 80 + ((i * 13) % 47);
+      imageData.data[i * 4 + 2] = 140 - ((i * 29) % 53);
+    }
+    return imageData;
+  }
+
+  async function recompress(blob: Blob, quality: number) {
+    const bitmap = await createImageBitmap(blob);
+    const draw = (ctx: OffscreenCanvasRenderingContext2D) => ctx.drawImage(bitmap, 0, 0);
+    return drawToBlob(bitmap.width, bitmap.height, draw, 'image/jpeg', quality);
+  }
+
+  it('should verify a colour image marked in chroma after JPEG recompression', async () => {
+    const watermarked = await watermark(colourImage(), 'colour', { chroma: true });
+    const recompressed = await recompress(watermarked.blob, 0.4);
+
+    const match = await verify(recompressed, 'colour');
+    const other = await verify(recompressed, 'other');
+
+    expect(match.isMatch).toBe(true);
+    expect(other.isMatch).toBe(false);
+  });
+
+  it('should fall back to luminance for grayscale images', async () => {
+    const watermarked = await watermark(texturedImage(256), 'gray', {
+      chroma: true,
+      diagnostics: true,
+    });
+
+    expect(watermarked.diagnostics!.selfCheck.valid).toBe(true);
+    expect((await verify(watermarked.blob, 'gray')).isMatch).toBe(true);
+  });
+
+  it('should reinforce a chroma mark until it reads back', async () => {
+    // At quality 0.2 the first encode does not read back at all
+    const source = await recompress(await imageDataToBlob(colourImage()), 0.95);
+    const watermarked = await watermark(source, 'colour', {
+      chroma: true,
+      jpegQuality: 0.2,
+      guarantee: { minConfidence: 0.9, maxIterations: 6 },
+    });
+
+    expect(watermarked.mimeType).toBe('image/jpeg');
+    expect(watermarked.guarantee?.met).toBe(true);
+    expect(watermarked.guarantee?.iterations).toBeGreaterThan(1);
+    expect(watermarked.guarantee?.iterations).toBeLessThanOrEqual(6);
+    expect(watermarked.guarantee?.confidence).toBeGreaterThanOrEqual(0.9);
+    expect((await verify(watermarked.blob, 'colour')).isMatch).toBe(true);
+  });
+
+  it('should reject chroma embedding with the tiled layout', async () => {
+    await expect(
+      watermark(colourImage(), 'tiled', { chroma: true, layout: 'tiled' })
+    ).rejects.toThrow('whole-image layout');
+  });
+});
+
+describe('payload length', () => {
+  it('should verify a 256-bit mark without being told its length', async () => {
+    const imageData = createTestImage(256, 256);
+    const watermarked = await watermark(imageData, 'tenant-7/recipient-1234', {
+      payloadBits: 256,
+    });
+
+    expect((await verify(watermarked.blob, 'tenant-7/recipient-1234')).isMatch).toBe(true);
+    expect((await verify(watermarked.blob, 'tenant-7/recipient-1235')).isMatch).toBe(false);
+  });
+
+  it('should blindly recover a 32-byte raw payload', async () => {
+    const imageData = createTestImage(256, 256);
+    const record = Uint8Array.from({ length: 32 }, (_, i) => i * 7);
+
+    const watermarked = await watermark(imageData, record, { payloadBits: 256 });
+    const result = await extract(watermarked.blob);
+
+    expect(result.valid).toBe(true);
+    expect(Array.from(result.message)).toEqual(Array.from(record));
+  });
+
+  it('should not match a raw payload longer than the embedded message', async () => {
+    const imageData = createTestImage(256, 256);
+    const watermarked = await watermark(imageData, new Uint8Array([1, 2, 3, 4]), {
+      payloadBits: 32,
+    });
+
+    const verification = await verify(watermarked.blob, new Uint8Array([1, 2, 3, 4, 5]));
+
+    expect(verification.isMatch).toBe(false);
+  });
+
+  it('should reject lengths that are not whole bytes from 32 to 256 bits', async () => {
+    await expect(
+      watermark(createTestImage(256, 256), 'payload', { payloadBits: 300 })
+    ).rejects.toThrow('payloadBits');
+  });
+});
+
+describe('JPEG-native embedding', () => {
+  it('should mark a JPEG in its coefficients and verify it', async () => {
+    const source = await texturedJpeg(256, 0.75);
+    const watermarked = await watermark(source, 'native', {
+      jpegNative: true,
+      diagnostics: true,
+    });
+
+    expect(watermarked.mimeType).toBe('image/jpeg');
+    expect(watermarked.width).toBe(256);
+    expect(watermarked.diagnostics!.selfCheck.valid).toBe(true);
+    expect((await verify(watermarked.blob, 'native')).isMatch).toBe(true);
+    expect((await verify(watermarked.blob, 'other')).isMatch).toBe(false);
+    expect((await extract(watermarked.blob)).valid).toBe(true);
+  });
+
+  it('should keep the metadata segments of the source', async () => {
+    const source = new Uint8Array(await (await texturedJpeg(256, 0.9)).arrayBuffer());
+    const comment = [0xff, 0xfe, 0x00, 0x07, ...[...'hello'].map((c) => c.charCodeAt(0))];
+    const tagged = new Uint8Array([...source.subarray(0, 2), ...comment, ...source.subarray(2)]);
+
+    const watermarked = await watermark(tagged, 'native', { jpegNative: true });
+    const output = new Uint8Array(await watermarked.blob.arrayBuffer());
+
+    expect(Array.from(output.subarray(2, 2 + comment.length))).toEqual(comment);
+  });
+
+  it('should take the pixel path for inputs that are not JPEGs', async () => {
+    const watermarked = await watermark(createTestImage(256, 256), 'pixels', {
+      jpegNative: true,
+    });
+
+    expect((await verify(watermarked.blob, 'pixels')).isMatch).toBe(true);
+  });
+
+  it('should take the pixel path for a JPEG cut short', async () => {
+    const source = new Uint8Array(await (await texturedJpeg(256, 0.9)).arrayBuffer());
+    // A comment segment cut off after the scan: every pixel is there, but
+    // the segment runs past the end of the file
+    const truncated = new Uint8Array([
+      ...source.subarray(0, source.length - 2),
+      ...[0xff, 0xfe, 0x00, 0x40, 0x61],
+    ]);
+
+    const watermarked = await watermark(truncated, 'truncated', { jpegNative: true });
+
+    expect(watermarked.width).toBe(256);
+    expect((await verify(watermarked.blob, 'truncated')).isMatch).toBe(true);
+  });
+
+  it('should reject options the coefficients cannot carry', async () => {
+    await expect(
+      watermark(await texturedJpeg(256, 0.75), 'native', { jpegNative: true, chroma: true })
+    ).rejects.toThrow('jpegNative does not support chroma');
+  });
+});
+
+describe('output quality', () => {
+  async function photoJpeg(quality: number): Promise<Blob> {
+    const imageData = createTestImage(256, 256);
+    let seed = 1;
+    const random = () => ((seed = (Math.imul(seed, 1103515245) + 12345) >>> 0) / 2 ** 32);
+    for (let i = 0; i < 256 * 256; i++) {
+      const [x, y] = [i % 256, Math.floor(i / 256)];
+      const value = 128 + 50 * Math.sin(x / 7) * Math.cos(y / 11) + 40 * (random() - 0.5);
+      imageData.data[i * 4] = value + 12;
+      imageData.data[i * 4 + 1] = value;
+      imageData.data[i * 4 + 2] = value - 12;
+    }
+    return imageDataToBlob(imageData, 'image/jpeg', quality);
+  }
+
+  it('should keep the quality of a JPEG source when asked to', async () => {
+    const source = await photoJpeg(0.5);
+    const fixed = await watermark(source, 'quality');
+    const matched = await watermark(source, 'quality', { outputQuality: 'match-source' });
+
+    expect(matched.blob.size).toBeLessThan(fixed.blob.size);
+    expect((await verify(matched.blob, 'quality')).isMatch).toBe(true);
+  });
+
+  it('should flag a JPEG compressed again at a finer quality', async () => {
+    const watermarked = await watermark(await photoJpeg(0.5), 'recompressed');
+    const result = await verify(watermarked.blob, 'recompressed');
+
+    expect(result.isMatch).toBe(true);
+    expect(result.transformHints?.likelyRecompressed).toBe(true);
+  });
+
+  it('should not flag an image saved losslessly', async () => {
+    const watermarked = await watermark(createTestImage(256, 256), 'lossless');
+    const result = await verify(watermarked.blob, 'lossless');
+
+    expect(result.transformHints?.likelyRecompressed).toBeFalsy();
+  });
+});
+
+describe('metadata', () => {
+  const ascii = (text: string) => Array.from(text, (c) => c.charCodeAt(0));
+
+  /** A JPEG with a comment, and an EXIF block saying it is turned */
+  async function taggedJpeg(): Promise<Uint8Array<ArrayBuffer>> {
+    const fill = (ctx: OffscreenCanvasRenderingContext2D) => {
+      ctx.fillStyle = '#8a6';
+      ctx.fillRect(0, 0, 256, 256);
+    };
+    const blob = await drawToBlob(256, 256, fill, 'image/jpeg');
+    const source = new Uint8Array(await blob.arrayBuffer());
+    // One IFD holding orientation 6
+    const tiff = [0x4d, 0x4d, 0, 42, 0, 0, 0, 8, 0, 1, 0x01, 0x12, 0, 3, 0, 0, 0, 1, 0, 6];
+    const exif = [...ascii('Exif\0\0'), ...tiff, 0, 0, 0, 0, 0, 0];
+    const comment = ascii('Front desk scanner');
+    return new Uint8Array([
+      ...source.subarray(0, 2),
+      0xff, 0xe1, 0, exif.length + 2, ...exif,
+      0xff, 0xfe, 0, comment.length + 2, ...comment,
+      ...source.subarray(2),
+    ]);
+  }
+
+  async function outputText(blob: Blob): Promise<string> {
+    return String.fromCharCode(...new Uint8Array(await blob.arrayBuffer()).subarray(0, 2048));
+  }
+
+  it('should carry the metadata of the input to the output', async () => {
+    const input = new Blob([await taggedJpeg()], { type: 'image/jpeg' });
+    const watermarked = await watermark(input, 'metadata');
+    const text = await outputText(watermarked.blob);
+
+    expect(text).toContain('Front desk scanner');
+    // Decoding turned the pixels, so the output is upright
+    const output = new Uint8Array(await watermarked.blob.arrayBuffer());
+    expect(readExifOrientation(output)).toBe(1);
+    expect((await verify(watermarked.blob, 'metadata')).isMatch).toBe(true);
+  });
+
+  it('should leave out the metadata it is told to strip', async () => {
+    const input = new Blob([await taggedJpeg()], { type: 'image/jpeg' });
+    const all = await outputText(
+      (await watermark(input, 'metadata', { stripMetadata: true })).blob
+    );
+    const exif = await outputText(
+      (await watermark(input, 'metadata', { stripMetadata: ['exif'] })).blob
+    );
+
+    expect(all).not.toContain('Front desk scanner');
+    expect(all).not.toContain('Exif\0\0');
+    expect(exif).toContain('Front desk scanner');
+    expect(exif).not.toContain('Exif\0\0');
+  });
+});
+
+describe('codecs', () => {
+  it('should mark a TIFF the browser cannot decode and write a TIFF back', async () => {
+    const image = createTestImage(256, 256);
+    const input = new Blob([await writeTiff([{ ...image, compression: 'deflate' }])]);
+
+    const watermarked = await watermark(input, 'tiff');
+
+    expect(watermarked.mimeType).toBe('image/tiff');
+    const [page] = await readTiff(new Uint8Array(await watermarked.blob.arrayBuffer()));
+    expect([page.width, page.height]).toEqual([256, 256]);
+    expect((await verify(watermarked.blob, 'tiff')).isMatch).toBe(true);
+  });
+
+  it('should hand a registered format to its codec', async () => {
+    // Four magic bytes, the width and height, then RGBA pixels
+    const magic = [0x52, 0x41, 0x57, 0x21];
+    const encode = ({ data, width, height }: ImageData) =>
+      new Uint8Array([...magic, width >> 8, width & 255, height >> 8, height & 255, ...data]);
+    registerCodec({
+      mimeTypes: ['image/x-raw-rgba'],
+      sniff: (bytes) => magic.every((byte, i) => bytes[i] === byte),
+      decode: (bytes) =>
+        new ImageData(
+          new Uint8ClampedArray(bytes.subarray(8)),
+          (bytes[4] << 8) | bytes[5],
+          (bytes[6] << 8) | bytes[7]
+        ),
+      encode,
+    });
+    const input = new Blob([encode(createTestImage(256, 256))], { type: 'image/x-raw-rgba' });
+
+    const watermarked = await watermark(input, 'raw');
+
+    expect(watermarked.mimeType).toBe('image/x-raw-rgba');
+    expect(watermarked.blob.size).toBe(8 + 256 * 256 * 4);
+    expect((await verify(watermarked.blob, 'raw')).isMatch).toBe(true);
+  });
+});
+
+describe('multi-page TIFF', () => {
+  async function scannedTiff(): Promise<Blob> {
+    return new Blob([
+      await writeTiff([
+        {
+          ...createTestImage(256, 256),
+          compression: 'lzw',
+          resolution: { x: 300, y: 300, unit: 'inch' },
+        },
+        { ...createTestImage(320, 240), compression: 'packbits' },
+        { ...createTestImage(256, 320), compression: 'deflate' },
+      ]),
+    ], { type: 'image/tiff' });
+  }
+
+  it('should mark every page and keep their order, resolution and compression', async () => {
+    const watermarked = await watermark(await scannedTiff(), 'scan');
+    const pages = await readTiff(new Uint8Array(await watermarked.blob.arrayBuffer()));
+
+    expect(watermarked.mimeType).toBe('image/tiff');
+    expect(watermarked.pageCount).toBe(3);
+    expect(pages.map(({ width, height }) => [width, height])).toEqual([
+      [256, 256],
+      [320, 240],
+      [256, 320],
+    ]);
+    expect(pages.map((page) => page.compression)).toEqual(['lzw', 'packbits', 'deflate']);
+    expect(pages[0].resolution).toEqual({ x: 300, y: 300, unit: 'inch' });
+
+    const result = await verify(watermarked.blob, 'scan');
+    expect(result.isMatch).toBe(true);
+    expect(result.pages?.map(({ page, isMatch }) => [page, isMatch])).toEqual([
+      [0, true],
+      [1, true],
+      [2, true],
+    ]);
+  });
+
+  it('should mark and verify only the selected pages', async () => {
+    const watermarked = await watermark(await scannedTiff(), 'scan', {
+      tiff: { pageSelection: { from: 1, to: 2 } },
+    });
+
+    const all = await verify(watermarked.blob, 'scan');
+    const first = await verify(watermarked.blob, 'scan', { tiff: { pageSelection: 'first' } });
+
+    expect(all.isMatch).toBe(true);
+    expect(all.pages?.map((page) => page.isMatch)).toEqual([false, true, true]);
+    expect(first.isMatch).toBe(false);
+    expect(first.pages).toHaveLength(1);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { bchEncode, bchDecode, bchParityLength } from '../../src/core/bch';
+
+describe('BCH', () => {
+  const data = Uint8Array.from({ length: 80 }, (_, i) => (i * 7) % 3 === 0 ? 1 : 0);
+
+  it('should build generators of the expected degree', () => {
+    // Each odd power below 2t adds a degree-8 minimal polynomial
+    expect(bchParityLength(1)).toBe(8);
+    expect(bchParityLength(2)).toBe(16);
+    expect(bchParityLength(20)).toBe(140);
+  });
+
+  it('should encode systematically', () => {
+    const codeword = bchEncode(data, 20);
+    expect(codeword.length).toBe(80 + 140);
+    expect(Array.from(codeword.subarray(0, 80))).toEqual(Array.from(data));
+  });
+
+  it('should correct up to t bit errors', () => {
+    const codeword = bchEncode(data, 20);
+    for (let i = 0; i < 20; i++) {
+      codeword[i * 10 + 5] ^= 1;
+    }
+
+    const result = bchDecode(codeword, 80, 20);
+    expect(result.ok).toBe(true);
+    expect(result.correctedErrors).toBe(20);
+    expect(Array.from(result.bits)).toEqual(Array.from(data));
+  });
+
+  it('should detect more than t errors', () => {
+    const codeword = bchEncode(data, 4);
+    for (let i = 0; i < 9; i++) {
+      codeword[i * 9] ^= 1;
+    }
+
+    const result = bchDecode(codeword, 80, 4);
+    expect(result.ok).toBe(false);
+  });
+
+  it('should reject codewords longer than 255 bits', () => {
+    expect(() => bchEncode(new Uint8Array(200), 20)).toThrow();
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { isBmp, readBmp, writeBmp } from '../../src/io/bmp';
+
+/**
+ * An 8-bit palette bitmap of 3x2 pixels, stored bottom-up as most are, its
+ * rows padded to four bytes.
+ */
+function paletteBmp(): Uint8Array {
+  const pixelOffset = 14 + 40 + 3 * 4;
+  const bytes = new Uint8Array(pixelOffset + 2 * 4);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x42, 0x4d]);
+  view.setUint32(2, bytes.length, true);
+  view.setUint32(10, pixelOffset, true);
+  view.setUint32(14, 40, true);
+  view.setInt32(18, 3, true);
+  view.setInt32(22, 2, true);
+  view.setUint16(26, 1, true);
+  view.setUint16(28, 8, true);
+  view.setUint32(46, 3, true);
+  // Blue, green, red and reserved: red, green, blue
+  bytes.set([0, 0, 255, 0, 0, 255, 0, 0, 255, 0, 0, 0], 54);
+  // The bottom row first
+  bytes.set([2, 2, 2, 0, 0, 1, 2, 0], pixelOffset);
+  return bytes;
+}
+
+describe('BMP codec', () => {
+  it('should read back what it writes, with and without alpha', () => {
+    for (const alpha of [false, true]) {
+      const width = 37;
+      const height = 11;
+      const data = Uint8ClampedArray.from({ length: width * height * 4 }, (_, i) =>
+        i % 4 === 3 && !alpha ? 255 : (i * 29) & 255
+      );
+
+      const bytes = writeBmp({ data, width, height });
+      const read = readBmp(bytes);
+
+      expect(isBmp(bytes)).toBe(true);
+      // 24 bits per pixel when opaque, else 32
+      expect(bytes[28]).toBe(alpha ? 32 : 24);
+      expect(read).toEqual({ data, width, height });
+    }
+  });
+
+  it('should read palette images stored bottom-up', () => {
+    const { data, width, height } = readBmp(paletteBmp());
+
+    expect([width, height]).toEqual([3, 2]);
+    expect(Array.from(data)).toEqual([
+      255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255,
+      0, 0, 255, 255, 0, 0, 255, 255, 0, 0, 255, 255,
+    ]);
+  });
+
+  it('should reject run-length encoded bitmaps', () => {
+    const bytes = paletteBmp();
+    new DataView(bytes.buffer).setUint32(30, 1, true);
+
+    expect(() => readBmp(bytes)).toThrow('Unsupported BMP compression: 1');
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { SeededPRNG, LegacySeededPRNG } from '../../src/core/prng';
+import {
+  assignSlots,
+  assignLegacySlots,
+  planHeader,
+  MID_FREQ_COEFFS,
+} from '../../src/core/block-selection';
+import { measureCapacity } from '../../src/core/embed';
+
+const seed = new Uint8Array([3, 1, 4, 1, 5, 9, 2, 6]);
+const seeds = { header: new Uint8Array([9, 8, 7, 6]), body: new Uint8Array([5, 4, 3, 2]) };
+
+function range(count: number): number[] {
+  return Array.from({ length: count }, (_, i) => i);
+}
+
+function slotKey({ blockIdx, coeff }: { blockIdx: number; coeff: [number, number] }): string {
+  return `${blockIdx}:${coeff[0]},${coeff[1]}`;
+}
+
+describe('slot allocation', () => {
+  it('should give every bit of a small region its own coefficient', () => {
+    const slots = assignSlots(new SeededPRNG(seed), range(40), 220);
+    const keys = slots.flat().map(slotKey);
+
+    expect(slots.every((bitSlots) => bitSlots.length === 1)).toBe(true);
+    expect(new Set(keys).size).toBe(220);
+  });
+
+  it('should spread the coefficients of a small region over all its blocks', () => {
+    const slots = assignSlots(new SeededPRNG(seed), range(40), 220);
+    const perBlock = new Map<number, number>();
+    for (const { blockIdx } of slots.flat()) {
+      perBlock.set(blockIdx, (perBlock.get(blockIdx) ?? 0) + 1);
+    }
+
+    expect(perBlock.size).toBe(40);
+    expect(Math.max(...perBlock.values())).toBeLessThanOrEqual(Math.ceil(220 / 40));
+  });
+
+  it('should leave bits beyond the capacity without slots', () => {
+    const slots = assignSlots(new SeededPRNG(seed), range(10), 220);
+    const placed = slots.filter((bitSlots) => bitSlots.length > 0);
+
+    expect(placed).toHaveLength(10 * MID_FREQ_COEFFS.length);
+    expect(new Set(placed.flat().map(slotKey)).size).toBe(placed.length);
+  });
+
+  it('should keep the placement of regions with a block per bit', () => {
+    const blocks = range(1000);
+    const current = assignSlots(new SeededPRNG(seed), blocks, 220);
+    const legacy = assignLegacySlots(new SeededPRNG(seed), blocks, 220);
+
+    expect(current).toEqual(legacy);
+    expect(current.every((bitSlots) => bitSlots.length === 4)).toBe(true);
+  });
+
+  it('should place the header extension on coefficients the header leaves free', () => {
+    for (const totalBlocks of [64, 4096]) {
+      const { headerSlots, extensionSlots, bodyBlocks } = planHeader(seed, totalBlocks, 30);
+      const header = new Set(headerSlots.flat().map(slotKey));
+      const headerBlocks = new Set(headerSlots.flat().map(({ blockIdx }) => blockIdx));
+      const extension = extensionSlots.flat();
+
+      expect(extensionSlots.every((bitSlots) => bitSlots.length > 0)).toBe(true);
+      expect(extension.some((slot) => header.has(slotKey(slot)))).toBe(false);
+      expect(extension.every(({ blockIdx }) => headerBlocks.has(blockIdx))).toBe(true);
+      expect(extension.some(({ blockIdx }) => bodyBlocks.includes(blockIdx))).toBe(false);
+    }
+  });
+
+  it('should keep the colliding placement for legacy marks', () => {
+    const slots = assignLegacySlots(new LegacySeededPRNG(seed), range(40), 192);
+
+    expect(slots.every((bitSlots) => bitSlots.length === 1)).toBe(true);
+    expect(new Set(slots.flat().map(slotKey)).size).toBeLessThan(192);
+  });
+});
+
+describe('capacity', () => {
+  it('should fit a thumbnail with every bit placed', () => {
+    const room = measureCapacity(64, 64, { keyId: 0, ecc: 'bch' }, seeds);
+
+    expect(room.fits).toBe(true);
+    expect(room.placedHeaderBits).toBe(room.headerBits);
+    expect(room.placedBodyBits).toBe(room.bodyBits);
+    expect(room.minSlotsPerBit).toBe(1);
+  });
+
+  it('should report more slots per bit for larger images', () => {
+    const room = measureCapacity(512, 512, { keyId: 0, ecc: 'bch' }, seeds);
+
+    expect(room.fits).toBe(true);
+    expect(room.minSlotsPerBit).toBeGreaterThan(1);
+    expect(room.bodySlots).toBe(room.bodyBits * room.minSlotsPerBit);
+  });
+
+  it('should not fit an image with fewer slots than the code can spare', () => {
+    const room = measureCapacity(16, 16, { keyId: 0, ecc: 'bch' }, seeds);
+
+    expect(room.fits).toBe(false);
+    expect(room.placedBodyBits).toBeLessThan(room.bodyBits);
+  });
+
+  it('should need more room for a longer message', () => {
+    const header = { keyId: 0, ecc: 'bch' as const, payloadBits: 256 };
+    const short = measureCapacity(48, 48, { keyId: 0, ecc: 'bch' }, seeds);
+    const long = measureCapacity(48, 48, header, seeds);
+
+    expect(long.bodyBits).toBeGreaterThan(short.bodyBits);
+    expect(short.fits).toBe(true);
+    expect(long.fits).toBe(false);
+    expect(measureCapacity(64, 64, header, seeds).fits).toBe(true);
+  });
+
+  it('should count only the slots of the tiled layout inside the image', () => {
+    const whole = measureCapacity(256, 256, { keyId: 0, ecc: 'bch' }, seeds, 'tiled');
+    const part = measureCapacity(64, 64, { keyId: 0, ecc: 'bch' }, seeds, 'tiled');
+
+    expect(whole.placedBodyBits).toBe(whole.bodyBits);
+    expect(part.bodySlots).toBeLessThan(whole.bodySlots);
+    expect(part.placedBodyBits).toBeLessThan(part.bodyBits);
+  });
+});
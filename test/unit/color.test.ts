@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { extractChroma, isGrayscale, rgbChange, chromaPlaneSize } from '../../src/core/color';
+
+function luminance(r: number, g: number, b: number): number {
+  return 0.299 * r + 0.587 * g + 0.114 * b;
+}
+
+describe('chroma', () => {
+  it('should place gray at the centre of Cb and Cr', () => {
+    const { cb, cr } = extractChroma(Uint8ClampedArray.of(90, 90, 90, 255), 1, 1);
+
+    expect(cb[0]).toBeCloseTo(128, 3);
+    expect(cr[0]).toBeCloseTo(128, 3);
+  });
+
+  it('should turn Y, Cb and Cr changes into the matching RGB change', () => {
+    const [r, g, b] = [120, 80, 60];
+    const [deltaR, deltaG, deltaB] = rgbChange(3, -5, 7);
+    const before = extractChroma(Uint8ClampedArray.of(r, g, b, 255), 1, 1);
+    const after = extractChroma(
+      Uint8ClampedArray.of(r + deltaR, g + deltaG, b + deltaB, 255),
+      1,
+      1
+    );
+
+    // Rounding to 8 bits is all that stands between the two
+    expect(luminance(r + deltaR, g + deltaG, b + deltaB) - luminance(r, g, b)).toBeCloseTo(3, 0);
+    expect(after.cb[0] - before.cb[0]).toBeCloseTo(-5, 0);
+    expect(after.cr[0] - before.cr[0]).toBeCloseTo(7, 0);
+  });
+
+  it('should tell grayscale images from colour ones', () => {
+    expect(isGrayscale(Uint8ClampedArray.of(7, 7, 7, 255, 200, 200, 200, 0))).toBe(true);
+    expect(isGrayscale(Uint8ClampedArray.of(7, 7, 7, 255, 200, 201, 200, 255))).toBe(false);
+  });
+
+  it('should mark chroma two wavelet levels below luminance', () => {
+    expect(chromaPlaneSize(512, 300)).toEqual({ width: 128, height: 75, levels: 2 });
+    expect(chromaPlaneSize(512, 300, 'dwt-dct')).toEqual({ width: 32, height: 18, levels: 4 });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import {
+  haar2d,
+  ihaar2d,
+  waveletLowpass,
+  waveletSynthesize,
+  embeddingPlaneSize,
+} from '../../src/core/dwt';
+
+function randomPlane(width: number, height: number): Float32Array {
+  return Float32Array.from({ length: width * height }, () => Math.random() * 255);
+}
+
+describe('Haar wavelet', () => {
+  it('should reconstruct a plane from its bands', () => {
+    const plane = randomPlane(16, 8);
+    const reconstructed = ihaar2d(haar2d(plane, 16, 8));
+
+    for (let i = 0; i < plane.length; i++) {
+      expect(reconstructed[i]).toBeCloseTo(plane[i], 3);
+    }
+  });
+
+  it('should average each square of pixels into the LL band', () => {
+    const plane = randomPlane(9, 7);
+    const { ll, width, height } = waveletLowpass(plane, 9, 7, 2);
+
+    expect(width).toBe(2);
+    expect(height).toBe(1);
+    for (let col = 0; col < width; col++) {
+      let sum = 0;
+      for (let row = 0; row < 4; row++) {
+        for (let x = 4 * col; x < 4 * col + 4; x++) {
+          sum += plane[row * 9 + x];
+        }
+      }
+      expect(ll[col]).toBeCloseTo(sum / 16, 3);
+    }
+  });
+
+  it('should change only the LL band when synthesizing an LL change', () => {
+    const plane = randomPlane(18, 13);
+    const { ll, width, height } = waveletLowpass(plane, 18, 13, 2);
+    const llChange = Float32Array.from(ll, (_, i) => i + 1);
+    const change = waveletSynthesize(llChange, width, height, 2, 18, 13);
+    const changed = plane.map((value, i) => value + change[i]);
+
+    const before = haar2d(plane, 18, 13);
+    const after = haar2d(changed, 18, 13);
+    for (let i = 0; i < before.hh.length; i++) {
+      expect(after.hl[i]).toBeCloseTo(before.hl[i], 3);
+      expect(after.lh[i]).toBeCloseTo(before.lh[i], 3);
+      expect(after.hh[i]).toBeCloseTo(before.hh[i], 3);
+    }
+    const lowpass = waveletLowpass(changed, 18, 13, 2).ll;
+    for (let i = 0; i < ll.length; i++) {
+      expect(lowpass[i]).toBeCloseTo(ll[i] + llChange[i], 3);
+    }
+    // The trailing row and columns are outside the transform
+    expect(change.slice(12 * 18).every((value) => value === 0)).toBe(true);
+  });
+
+  it('should take the blocks of the LL band in the wavelet domain only', () => {
+    expect(embeddingPlaneSize(515, 260)).toEqual({ width: 515, height: 260, levels: 0 });
+    expect(embeddingPlaneSize(515, 260, 'dwt-dct')).toEqual({ width: 128, height: 65, levels: 2 });
+  });
+});
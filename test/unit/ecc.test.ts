@@ -1,5 +1,23 @@
 import { describe, it, expect } from 'vitest';
-import { encodeWithRepetition, decodeWithMajorityVote } from '../../src/core/ecc';
+import {
+  encodeWithRepetition,
+  decodeWithMajorityVote,
+  getEccCodec,
+  orderEccSchemes,
+  ECC_SCHEMES,
+} from '../../src/core/ecc';
+
+function randomBits(length: number, seed: number): Uint8Array {
+  let state = seed;
+  return Uint8Array.from({ length }, () => {
+    state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+    return state >>> 31;
+  });
+}
+
+function toLlrs(bits: Uint8Array, reliability = 4): Float32Array {
+  return Float32Array.from(bits, (b) => (b ? reliability : -reliability));
+}
 
 describe('ECC', () => {
   it('should encode with repetition', () => {
@@ -46,4 +64,135 @@ describe('ECC', () => {
     
     expect(confidence).toBeLessThan(0.1);
   });
+
+  it('should sum log-likelihood ratios in the repetition codec', () => {
+    const codec = getEccCodec('repetition');
+    // One confident copy outweighs two weak ones
+    const llrs = new Float32Array([-0.5, -0.5, 6, 2, 2, 2]);
+    const result = codec.decode(llrs, 2);
+
+    expect(Array.from(result.bits)).toEqual([1, 1]);
+    expect(result.correctedErrors).toBe(2);
+  });
+
+  it('should ignore erased copies in the majority vote', () => {
+    const noisyBits = new Float32Array([0.1, 0.9, 0.9, 0.9, 0.1, 0.1]);
+    const { bits, correctedErrors } = decodeWithMajorityVote(noisyBits, 2, [0, 3]);
+
+    expect(Array.from(bits)).toEqual([1, 0]);
+    expect(correctedErrors).toBe(0);
+  });
+});
+
+describe('ECC codecs', () => {
+  const frame = randomBits(80, 42);
+
+  for (const scheme of ECC_SCHEMES) {
+    it(`should round-trip a clean frame with ${scheme}`, () => {
+      const codec = getEccCodec(scheme);
+      const encoded = codec.encode(frame);
+      expect(encoded.length).toBe(codec.encodedLength(frame.length));
+
+      const result = codec.decode(toLlrs(encoded), frame.length);
+      expect(result.ok).toBe(true);
+      expect(Array.from(result.bits)).toEqual(Array.from(frame));
+      expect(result.correctedErrors).toBe(0);
+      expect(Array.from(result.codeword)).toEqual(Array.from(encoded));
+    });
+  }
+
+  it('should use less capacity than repetition', () => {
+    const repetition = getEccCodec('repetition').encodedLength(80);
+    expect(getEccCodec('bch').encodedLength(80)).toBeLessThan(repetition);
+    expect(getEccCodec('reed-solomon').encodedLength(80)).toBeLessThanOrEqual(repetition);
+  });
+
+  it('should correct and count scattered bit errors with bch', () => {
+    const codec = getEccCodec('bch');
+    const encoded = codec.encode(frame);
+    for (let i = 0; i < 20; i++) {
+      encoded[i * 11] ^= 1;
+    }
+
+    const result = codec.decode(toLlrs(encoded), frame.length);
+    expect(result.ok).toBe(true);
+    expect(Array.from(result.bits)).toEqual(Array.from(frame));
+    expect(result.correctedErrors).toBe(20);
+  });
+
+  it('should correct a burst of errors with reed-solomon', () => {
+    const codec = getEccCodec('reed-solomon');
+    const encoded = codec.encode(frame);
+    // 80 consecutive bits span 10 symbols, the code's full capacity
+    for (let i = 0; i < 80; i++) {
+      encoded[i] ^= 1;
+    }
+
+    const result = codec.decode(toLlrs(encoded), frame.length);
+    expect(result.ok).toBe(true);
+    expect(Array.from(result.bits)).toEqual(Array.from(frame));
+    expect(result.correctedErrors).toBe(80);
+  });
+
+  it('should use erasures to go beyond the error capacity', () => {
+    for (const scheme of ['bch', 'reed-solomon'] as const) {
+      const codec = getEccCodec(scheme);
+      const encoded = codec.encode(frame);
+      // 15 symbols: beyond the 10 correctable errors, within 20 erasures
+      const erasures = Array.from({ length: 15 }, (_, i) => i * 8 + 3);
+      for (const i of erasures) {
+        encoded[i] ^= 1;
+      }
+
+      const result = codec.decode(toLlrs(encoded), frame.length, erasures);
+      expect(result.ok).toBe(true);
+      expect(Array.from(result.bits)).toEqual(Array.from(frame));
+      expect(result.correctedErrors).toBe(0);
+    }
+  });
+
+  it('should report failure on uncorrectable words', () => {
+    for (const scheme of ['bch', 'reed-solomon'] as const) {
+      const codec = getEccCodec(scheme);
+      const noise = randomBits(codec.encodedLength(80), 7);
+
+      const result = codec.decode(toLlrs(noise), 80);
+      expect(result.ok).toBe(false);
+    }
+  });
+
+  it('should use bit reliabilities beyond the hard-decision capacity', () => {
+    for (const scheme of ['bch', 'reed-solomon'] as const) {
+      const codec = getEccCodec(scheme);
+      const encoded = codec.encode(frame);
+      const llrs = toLlrs(encoded);
+      // 40 weak wrong bits: twice what bch corrects from hard decisions
+      for (let i = 0; i < 40; i++) {
+        const idx = (i * 37) % encoded.length;
+        llrs[idx] = encoded[idx] ? -0.2 : 0.2;
+      }
+
+      const result = codec.decode(llrs, frame.length);
+      expect(result.ok).toBe(true);
+      expect(Array.from(result.bits)).toEqual(Array.from(frame));
+      expect(result.correctedErrors).toBe(40);
+    }
+  });
+
+  it('should split long frames into several bch codewords', () => {
+    const codec = getEccCodec('bch');
+    const long = randomBits(272, 3);
+    const encoded = codec.encode(long);
+    for (let i = 0; i < encoded.length; i += 20) {
+      encoded[i] ^= 1;
+    }
+
+    const result = codec.decode(toLlrs(encoded), long.length);
+    expect(result.ok).toBe(true);
+    expect(Array.from(result.bits)).toEqual(Array.from(long));
+  });
+
+  it('should try the embedded scheme first', () => {
+    expect(orderEccSchemes('reed-solomon')).toEqual(['reed-solomon', 'repetition', 'bch']);
+  });
 });
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { readExifOrientation } from '../../src/io/exif';
+import {
+  exifOrientation,
+  inverseOrientation,
+  sameOrientation,
+  ORIENTATIONS,
+} from '../../src/core/orientation';
+
+/**
+ * TIFF structure holding one IFD with an orientation entry.
+ */
+function tiff(orientation: number, littleEndian: boolean): number[] {
+  const bytes = new Uint8Array(26);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(0, littleEndian ? 0x4949 : 0x4d4d);
+  view.setUint16(2, 42, littleEndian);
+  view.setUint32(4, 8, littleEndian);
+  view.setUint16(8, 1, littleEndian);
+  view.setUint16(10, 0x0112, littleEndian);
+  view.setUint16(12, 3, littleEndian);
+  view.setUint32(14, 1, littleEndian);
+  view.setUint16(18, orientation, littleEndian);
+  return Array.from(bytes);
+}
+
+function jpegWithExif(orientation: number, littleEndian: boolean): Uint8Array {
+  const exif = [...'Exif\0\0'].map((c) => c.charCodeAt(0)).concat(tiff(orientation, littleEndian));
+  const length = exif.length + 2;
+  return new Uint8Array([
+    0xff, 0xd8,
+    // An unrelated APP0 segment first
+    0xff, 0xe0, 0x00, 0x04, 0x00, 0x00,
+    0xff, 0xe1, length >> 8, length & 0xff, ...exif,
+    0xff, 0xda, 0x00, 0x02,
+  ]);
+}
+
+function pngWithExif(orientation: number): Uint8Array {
+  const data = tiff(orientation, false);
+  const chunk = (type: string, body: number[]) => [
+    0, 0, body.length >> 8, body.length & 0xff,
+    ...[...type].map((c) => c.charCodeAt(0)),
+    ...body,
+    0, 0, 0, 0,
+  ];
+  return new Uint8Array([
+    0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+    ...chunk('IHDR', new Array(13).fill(0)),
+    ...chunk('eXIf', data),
+    ...chunk('IDAT', []),
+  ]);
+}
+
+describe('EXIF orientation', () => {
+  it('should read the orientation of a JPEG in either byte order', () => {
+    expect(readExifOrientation(jpegWithExif(6, true))).toBe(6);
+    expect(readExifOrientation(jpegWithExif(3, false))).toBe(3);
+  });
+
+  it('should read the orientation of a PNG', () => {
+    expect(readExifOrientation(pngWithExif(8))).toBe(8);
+  });
+
+  it('should report nothing without EXIF data', () => {
+    expect(readExifOrientation(new Uint8Array([0xff, 0xd8, 0xff, 0xda, 0x00, 0x02]))).toBe(
+      undefined
+    );
+    expect(readExifOrientation(new Uint8Array([1, 2, 3, 4]))).toBe(undefined);
+  });
+
+  it('should map tags onto the eight orientations', () => {
+    expect(exifOrientation(6)).toEqual({ rotation: 90, mirrored: false });
+    expect(exifOrientation(4)).toEqual({ rotation: 180, mirrored: true });
+    expect(exifOrientation(undefined)).toEqual({ rotation: 0, mirrored: false });
+    expect(exifOrientation(9)).toEqual({ rotation: 0, mirrored: false });
+
+    const tags = [1, 2, 3, 4, 5, 6, 7, 8].map(exifOrientation);
+    expect(ORIENTATIONS.every((o) => tags.some((tag) => sameOrientation(tag, o)))).toBe(true);
+  });
+
+  it('should invert quarter turns and keep mirrored orientations', () => {
+    expect(inverseOrientation({ rotation: 90, mirrored: false })).toEqual({
+      rotation: 270,
+      mirrored: false,
+    });
+    expect(inverseOrientation({ rotation: 90, mirrored: true })).toEqual({
+      rotation: 90,
+      mirrored: true,
+    });
+  });
+});
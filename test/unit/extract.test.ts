@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { SeededPRNG } from '../../src/core/prng';
+import { readLayouts, transformImage } from '../../src/core/extract';
+import { derivePlacementSeeds } from '../../src/utils/hash';
+
+/**
+ * Grey pixels with mild noise and no watermark. Only the fields the reader
+ * uses are set, as jsdom has no ImageData.
+ */
+function unmarkedImage(width: number, height: number): ImageData {
+  const prng = new SeededPRNG(new Uint8Array([4, 3, 2, 1]));
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    const value = 128 + (prng.next() - 0.5) * 40;
+    data.fill(value, i, i + 3);
+    data[i + 3] = 255;
+  }
+  return { data, width, height } as ImageData;
+}
+
+describe('readLayouts', () => {
+  it('should find no layout in an unmarked image', async () => {
+    const { header } = await derivePlacementSeeds();
+
+    const layouts = [...readLayouts(transformImage(unmarkedImage(256, 256)), header)];
+
+    expect(layouts.some((layout) => layout.alignment || layout.transform)).toBe(false);
+  });
+
+  it('should give up on an unmarked image without a full sync search', async () => {
+    const { header } = await derivePlacementSeeds();
+    const image = transformImage(unmarkedImage(512, 512));
+
+    const start = performance.now();
+    [...readLayouts(image, header)];
+    const elapsed = performance.now() - start;
+
+    // Searching every grid offset at each wavelet level took twice as long
+    expect(elapsed).toBeLessThan(2000);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { fft, fftMagnitude2d } from '../../src/core/fft';
+
+describe('FFT', () => {
+  it('should match a direct DFT', () => {
+    const n = 16;
+    const signal = Float64Array.from({ length: n }, (_, i) => Math.sin(i * 1.7) + (i % 3));
+    const re = new Float64Array(signal);
+    const im = new Float64Array(n);
+    fft(re, im);
+
+    for (let k = 0; k < n; k++) {
+      let expectedRe = 0;
+      let expectedIm = 0;
+      for (let i = 0; i < n; i++) {
+        expectedRe += signal[i] * Math.cos((-2 * Math.PI * k * i) / n);
+        expectedIm += signal[i] * Math.sin((-2 * Math.PI * k * i) / n);
+      }
+      expect(re[k]).toBeCloseTo(expectedRe, 9);
+      expect(im[k]).toBeCloseTo(expectedIm, 9);
+    }
+  });
+
+  it('should put a 2D sinusoid in its pair of bins', () => {
+    const size = 32;
+    const signal = new Float64Array(size * size);
+    for (let row = 0; row < size; row++) {
+      for (let x = 0; x < size; x++) {
+        signal[row * size + x] = Math.cos((2 * Math.PI * (5 * x + 3 * row)) / size);
+      }
+    }
+    const magnitude = fftMagnitude2d(signal, size);
+
+    expect(magnitude[3 * size + 5]).toBeCloseTo((size * size) / 2, 6);
+    expect(magnitude[(size - 3) * size + (size - 5)]).toBeCloseTo((size * size) / 2, 6);
+    const total = magnitude.reduce((sum, value) => sum + value, 0);
+    expect(total).toBeCloseTo(size * size, 6);
+  });
+});
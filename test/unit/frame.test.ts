@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { buildFrame, parseFrame } from '../../src/core/frame';
+import { crc16Bits } from '../../src/utils/checksum';
+import { CHECKSUM_BITS } from '../../src/core/constants';
+import { digestToBits, bitsToDigest } from '../../src/utils/hash';
+
+describe('checksum', () => {
+  it('should match the CRC-16/CCITT-FALSE check value', () => {
+    const bits = digestToBits(new TextEncoder().encode('123456789'), 72);
+    const crc = bitsToDigest(crc16Bits(bits));
+
+    expect(Array.from(crc)).toEqual([0x29, 0xb1]);
+  });
+});
+
+describe('frame', () => {
+  it('should append checksum bits to the message', () => {
+    const message = digestToBits(new Uint8Array([0xde, 0xad, 0xbe, 0xef]), 32);
+    const frame = buildFrame(message);
+
+    expect(frame.length).toBe(32 + CHECKSUM_BITS);
+    expect(Array.from(frame.slice(0, 32))).toEqual(Array.from(message));
+  });
+
+  it('should validate an intact frame', () => {
+    const message = digestToBits(new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8]), 64);
+    const { messageBits, valid } = parseFrame(buildFrame(message));
+
+    expect(valid).toBe(true);
+    expect(messageBits).toEqual(message);
+  });
+
+  it('should reject a frame with a flipped bit', () => {
+    const message = digestToBits(new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8]), 64);
+    const frame = buildFrame(message);
+    frame[10] ^= 1;
+
+    expect(parseFrame(frame).valid).toBe(false);
+  });
+
+  it('should reject an all-zero frame', () => {
+    const frame = new Uint8Array(64 + CHECKSUM_BITS);
+
+    expect(parseFrame(frame).valid).toBe(false);
+  });
+});
@@ -1,5 +1,12 @@
 import { describe, it, expect } from 'vitest';
-import { derivePayloadDigest, digestToBits } from '../../src/utils/hash';
+import {
+  derivePayloadDigest,
+  derivePayloadBits,
+  derivePlacementSeed,
+  importHmacKey,
+  digestToBits,
+  bitsToDigest,
+} from '../../src/utils/hash';
 import { MODULE_SALT, PAYLOAD_BITS } from '../../src/core/constants';
 
 describe('hash', () => {
@@ -43,3 +50,105 @@ describe('hash', () => {
     expect(bits[9]).toBe(1);
   });
 });
+
+describe('payload bits', () => {
+  it('should embed raw byte payloads verbatim', async () => {
+    const bits = await derivePayloadBits(new Uint8Array([0xab, 0xcd]));
+
+    expect(bits.length).toBe(PAYLOAD_BITS);
+    expect(Array.from(bitsToDigest(bits))).toEqual([0xab, 0xcd, 0, 0, 0, 0, 0, 0]);
+  });
+
+  it('should reject raw payloads longer than the message', async () => {
+    await expect(derivePayloadBits(new Uint8Array(PAYLOAD_BITS / 8 + 1))).rejects.toThrow();
+  });
+
+  it('should reject raw payloads that padding would make ambiguous', async () => {
+    await expect(derivePayloadBits(new Uint8Array([1, 2, 0]))).rejects.toThrow('zero byte');
+    await expect(derivePayloadBits(new Uint8Array(PAYLOAD_BITS / 8))).rejects.toThrow('zero byte');
+    expect(await derivePayloadBits(new Uint8Array([1, 2, 0, 3]))).toHaveLength(PAYLOAD_BITS);
+  });
+
+  it('should derive messages of the requested length', async () => {
+    const long = await derivePayloadBits('event-42', undefined, 256);
+    const short = await derivePayloadBits('event-42', undefined, 32);
+    const raw = await derivePayloadBits(new Uint8Array(16).fill(0xff), undefined, 128);
+
+    expect(long.length).toBe(256);
+    expect(Array.from(short)).toEqual(Array.from(long.slice(0, 32)));
+    expect(raw.every((bit) => bit === 1)).toBe(true);
+  });
+
+  it('should reject message lengths outside 32 to 256 bits', async () => {
+    for (const bitCount of [16, 60, 512]) {
+      await expect(derivePayloadBits('event-42', undefined, bitCount)).rejects.toThrow(
+        'payloadBits'
+      );
+    }
+  });
+
+  it('should derive a payload-independent placement seed', async () => {
+    const seed1 = await derivePlacementSeed();
+    const seed2 = await derivePlacementSeed();
+
+    expect(seed1).toEqual(seed2);
+    expect(seed1.length).toBe(32);
+  });
+});
+
+describe('keyed digests', () => {
+  const key = new TextEncoder().encode('super-secret-key');
+
+  it('should differ from the unkeyed digest', async () => {
+    const keyed = await derivePayloadDigest('event-42', key);
+    const unkeyed = await derivePayloadDigest('event-42');
+
+    expect(keyed).not.toEqual(unkeyed);
+    expect(keyed.length).toBe(unkeyed.length);
+  });
+
+  it('should depend on the key', async () => {
+    const digest1 = await derivePayloadDigest('event-42', key);
+    const digest2 = await derivePayloadDigest('event-42', new TextEncoder().encode('other-key'));
+
+    expect(digest1).not.toEqual(digest2);
+  });
+
+  it('should accept an HMAC CryptoKey', async () => {
+    const cryptoKey = await crypto.subtle.importKey(
+      'raw',
+      key,
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+
+    const fromBytes = await derivePayloadDigest('event-42', key);
+    const fromCryptoKey = await derivePayloadDigest('event-42', cryptoKey);
+
+    expect(fromCryptoKey).toEqual(fromBytes);
+  });
+
+  it('should seed placement from the key', async () => {
+    const keyed = await derivePlacementSeed(key);
+    const unkeyed = await derivePlacementSeed();
+
+    expect(keyed).not.toEqual(unkeyed);
+  });
+
+  it('should take a string or a view over part of a buffer as its bytes', async () => {
+    const fromBytes = await derivePayloadDigest('event-42', key);
+    const buffer = new Uint8Array(key.length + 8);
+    buffer.set(key, 4);
+
+    expect(await derivePayloadDigest('event-42', 'super-secret-key')).toEqual(fromBytes);
+    expect(
+      await derivePayloadDigest('event-42', new DataView(buffer.buffer, 4, key.length))
+    ).toEqual(fromBytes);
+  });
+
+  it('should reject an empty key', async () => {
+    await expect(importHmacKey(new Uint8Array(0))).rejects.toThrow();
+    await expect(derivePayloadDigest('event-42', '')).rejects.toThrow();
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  encodeHeader,
+  encodeHeaderExtension,
+  decodeHeader,
+  hasHeaderExtension,
+} from '../../src/core/header';
+import { HEADER_BITS, HEADER_EXTENSION_BITS, PAYLOAD_BITS } from '../../src/core/constants';
+import { ECC_SCHEMES, type EccScheme } from '../../src/core/ecc';
+import { resolveKeyCandidates, orderKeyCandidates } from '../../src/utils/keyring';
+
+describe('header', () => {
+  it('should round-trip the key identifier', () => {
+    for (const keyId of [0, 1, 42, 255]) {
+      const bits = encodeHeader({ keyId, ecc: 'bch' });
+      expect(bits.length).toBe(HEADER_BITS);
+      expect(decodeHeader(bits).keyId).toBe(keyId);
+    }
+  });
+
+  it('should round-trip the ECC scheme', () => {
+    for (const ecc of ECC_SCHEMES) {
+      expect(decodeHeader(encodeHeader({ keyId: 255, ecc }))).toEqual({ keyId: 255, ecc });
+    }
+  });
+
+  it('should reject out-of-range key identifiers', () => {
+    expect(() => encodeHeader({ keyId: 256, ecc: 'bch' })).toThrow();
+    expect(() => encodeHeader({ keyId: -1, ecc: 'bch' })).toThrow();
+    expect(() => encodeHeader({ keyId: 1.5, ecc: 'bch' })).toThrow();
+  });
+
+  it('should reject unknown ECC schemes', () => {
+    expect(() => encodeHeader({ keyId: 0, ecc: 'turbo' as EccScheme })).toThrow();
+  });
+
+  it('should need no extension for sign modulation', () => {
+    const bits = encodeHeader({ keyId: 7, ecc: 'reed-solomon' });
+
+    expect(hasHeaderExtension(bits)).toBe(false);
+    expect(encodeHeaderExtension({ keyId: 7, ecc: 'reed-solomon' })).toBeNull();
+  });
+
+  it('should round-trip the QIM step through the extension', () => {
+    for (const ecc of ECC_SCHEMES) {
+      for (const qimStep of [4, 24, 64]) {
+        const header = { keyId: 200, ecc, qimStep };
+        const bits = encodeHeader(header);
+        const extension = encodeHeaderExtension(header)!;
+
+        expect(hasHeaderExtension(bits)).toBe(true);
+        expect(decodeHeader(bits, extension)).toEqual(header);
+      }
+    }
+  });
+
+  it('should round-trip the chroma flag with either modulation', () => {
+    for (const qimStep of [undefined, 32]) {
+      const header = { keyId: 3, ecc: 'reed-solomon' as const, qimStep, chroma: true };
+      const bits = encodeHeader(header);
+      const extension = encodeHeaderExtension(header)!;
+
+      expect(hasHeaderExtension(bits)).toBe(true);
+      expect(decodeHeader(bits, extension)).toEqual(header);
+    }
+  });
+
+  it('should read the extension of a QIM mark without chroma as before', () => {
+    // ECC bch, modulation field 01 (QIM), step 24 / 4 - 1
+    const extension = Uint8Array.of(0, 1, 0, 1, 0, 1, 0, 1);
+    const bits = encodeHeader({ keyId: 9, ecc: 'bch', qimStep: 24 });
+
+    expect(decodeHeader(bits, extension)).toEqual({ keyId: 9, ecc: 'bch', qimStep: 24 });
+  });
+
+  it('should read an extended header without its extension as the default scheme', () => {
+    const bits = encodeHeader({ keyId: 1, ecc: 'repetition', qimStep: 24 });
+
+    expect(decodeHeader(bits)).toEqual({ keyId: 1, ecc: 'bch' });
+  });
+
+  it('should reject steps the extension cannot record', () => {
+    expect(() => encodeHeaderExtension({ keyId: 0, ecc: 'bch', qimStep: 30 })).toThrow('qimStep');
+  });
+
+  it('should round-trip the payload length through a second extension part', () => {
+    for (const ecc of ECC_SCHEMES) {
+      for (const payloadBits of [32, 128, 256]) {
+        const header = { keyId: 11, ecc, qimStep: 24, chroma: true, payloadBits };
+        const extension = encodeHeaderExtension(header)!;
+
+        expect(extension.length).toBe(HEADER_EXTENSION_BITS * 2);
+        expect(decodeHeader(encodeHeader(header), extension)).toEqual(header);
+      }
+    }
+  });
+
+  it('should record the default payload length in no extension', () => {
+    const header = { keyId: 4, ecc: 'bch' as const, payloadBits: PAYLOAD_BITS };
+
+    expect(hasHeaderExtension(encodeHeader(header))).toBe(false);
+    expect(encodeHeaderExtension(header)).toBeNull();
+    expect(encodeHeaderExtension({ ...header, qimStep: 8 })!.length).toBe(HEADER_EXTENSION_BITS);
+  });
+
+  it('should reject payload lengths the extension cannot record', () => {
+    for (const payloadBits of [24, 100, 264]) {
+      expect(() => encodeHeaderExtension({ keyId: 0, ecc: 'bch', payloadBits })).toThrow(
+        'payloadBits'
+      );
+    }
+  });
+});
+
+describe('key ring', () => {
+  const keyA = new Uint8Array([1]);
+  const keyB = new Uint8Array([2]);
+  const keyC = new Uint8Array([3]);
+
+  it('should return no candidates without keys', () => {
+    expect(resolveKeyCandidates()).toEqual([]);
+    expect(resolveKeyCandidates({})).toEqual([]);
+  });
+
+  it('should combine a lone key with the ring', () => {
+    const candidates = resolveKeyCandidates({
+      key: keyA,
+      keyRing: [{ keyId: 7, key: keyB }],
+    });
+
+    expect(candidates).toEqual([{ key: keyA }, { keyId: 7, key: keyB }]);
+  });
+
+  it('should try the embedded key identifier first', () => {
+    const ring = [
+      { keyId: 1, key: keyA },
+      { keyId: 2, key: keyB },
+      { keyId: 3, key: keyC },
+    ];
+
+    const ordered = orderKeyCandidates(ring, 3);
+
+    expect(ordered.map((c) => c.keyId)).toEqual([3, 1, 2]);
+  });
+
+  it('should keep ring order for an unknown identifier', () => {
+    const ring = [
+      { keyId: 1, key: keyA },
+      { keyId: 2, key: keyB },
+    ];
+
+    expect(orderKeyCandidates(ring, 99).map((c) => c.keyId)).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isDoubleQuantized,
+  jpegLuminance,
+  luminancePlane,
+  readJpeg,
+  readQuantization,
+  withLuminance,
+  writeJpeg,
+  type JpegImage,
+} from '../../src/io/jpeg';
+import { embedQuantizedWatermark, planVotes } from '../../src/core/embed';
+import { SeededPRNG } from '../../src/core/prng';
+import { PAYLOAD_BITS } from '../../src/core/constants';
+import { estimateJpegQuality } from '../../src/io/decode';
+import { standardQuantTable } from '../../src/io/encode';
+
+const seeds = { header: new Uint8Array([9, 8, 7, 6]), body: new Uint8Array([5, 4, 3, 2]) };
+
+/**
+ * A JPEG of random coefficients, smaller towards high frequencies as in a
+ * photo, with 4:2:0 chroma unless `gray`.
+ */
+function randomJpeg(width: number, height: number, gray = false): JpegImage {
+  const prng = new SeededPRNG(new Uint8Array([width, height]));
+  const sampling = gray ? [[1, 1]] : [[2, 2], [1, 1], [1, 1]];
+  const maxH = Math.max(...sampling.map(([h]) => h));
+  const maxV = Math.max(...sampling.map(([, v]) => v));
+  const components = sampling.map(([h, v], i) => {
+    const blocksPerLine = Math.ceil(width / (8 * maxH)) * h;
+    const blocksPerColumn = Math.ceil(height / (8 * maxV)) * v;
+    const coefficients = new Int16Array(blocksPerLine * blocksPerColumn * 64);
+    for (let k = 0; k < coefficients.length; k++) {
+      const frequency = (k % 64 >> 3) + (k % 8);
+      const range = k % 64 === 0 ? 120 : 40 / (1 + frequency);
+      coefficients[k] = Math.round((prng.next() - 0.5) * 2 * range);
+    }
+    const quantTableId = i === 0 ? 0 : 1;
+    return { id: i + 1, h, v, quantTableId, blocksPerLine, blocksPerColumn, coefficients };
+  });
+  return {
+    width,
+    height,
+    components,
+    quantTables: [
+      Uint16Array.from({ length: 64 }, (_, k) => 4 + (k >> 3) + (k % 8)),
+      Uint16Array.from({ length: 64 }, (_, k) => 300 + k),
+    ],
+    segments: [Uint8Array.of(0xff, 0xfe, 0x00, 0x07, 0x68, 0x65, 0x6c, 0x6c, 0x6f)],
+  };
+}
+
+describe('JPEG coefficients', () => {
+  it('should read back the coefficients, tables and segments it wrote', () => {
+    for (const gray of [false, true]) {
+      const jpeg = randomJpeg(37, 21, gray);
+      const read = readJpeg(writeJpeg(jpeg))!;
+
+      expect(read.width).toBe(37);
+      expect(read.height).toBe(21);
+      expect(read.segments).toEqual(jpeg.segments);
+      read.components.forEach((component, i) => {
+        expect(component.h).toBe(jpeg.components[i].h);
+        expect(component.coefficients).toEqual(jpeg.components[i].coefficients);
+        expect(read.quantTables[component.quantTableId]).toEqual(
+          jpeg.quantTables[jpeg.components[i].quantTableId]
+        );
+      });
+    }
+  });
+
+  it('should ignore data that is not a JPEG it can read', () => {
+    expect(readJpeg(Uint8Array.of(0x89, 0x50, 0x4e, 0x47))).toBeNull();
+    // An arithmetic-coded frame header
+    expect(
+      readJpeg(Uint8Array.of(0xff, 0xd8, 0xff, 0xc9, 0x00, 0x0b, 8, 0, 8, 0, 8, 1, 1, 0x11, 0))
+    ).toBeNull();
+  });
+
+  it('should compute the luminance a decoder would before rounding', () => {
+    const jpeg = randomJpeg(8, 8, true);
+    jpeg.components[0].coefficients.fill(0);
+    jpeg.components[0].coefficients[0] = 10;
+
+    // DC of 10 at a quantizer of 4 lifts a flat block by 40 / 8
+    expect(Array.from(jpegLuminance(jpeg))).toEqual(new Array(64).fill(133));
+  });
+});
+
+describe('embedding in quantized coefficients', () => {
+  const jpeg = randomJpeg(256, 256);
+  const plane = luminancePlane(jpeg);
+  const messageBits = Uint8Array.from({ length: PAYLOAD_BITS }, (_, i) => (i * 7) % 3 & 1);
+  const header = { keyId: 0, ecc: 'bch' as const };
+
+  it('should carry every planned sign in its quantized coefficient', () => {
+    const marked = embedQuantizedWatermark(plane, messageBits, header, seeds);
+    const plan = planVotes(256, 256, messageBits, header, seeds);
+
+    for (const [blockIdx, votes] of plan) {
+      const offset = (Math.floor(blockIdx / 32) * plane.blocksPerLine + (blockIdx % 32)) * 64;
+      for (const { coeffIdx, bit } of votes) {
+        expect(Math.sign(marked[offset + coeffIdx])).toBe(bit ? 1 : -1);
+      }
+    }
+  });
+
+  it('should leave every coefficient outside the plan unchanged', () => {
+    const marked = embedQuantizedWatermark(plane, messageBits, header, seeds);
+    const plan = planVotes(256, 256, messageBits, header, seeds);
+    const planned = new Set<number>();
+    for (const [blockIdx, votes] of plan) {
+      const offset = (Math.floor(blockIdx / 32) * plane.blocksPerLine + (blockIdx % 32)) * 64;
+      for (const { coeffIdx } of votes) {
+        planned.add(offset + coeffIdx);
+      }
+    }
+
+    const changed = marked.filter((value, i) => value !== plane.coefficients[i] && !planned.has(i));
+    expect(changed.length).toBe(0);
+    const chroma = withLuminance(jpeg, marked).components.slice(1);
+    expect(chroma).toEqual(jpeg.components.slice(1));
+  });
+});
+
+describe('JPEG quantization', () => {
+  /**
+   * A gray JPEG whose coefficients are photo-like values quantized by
+   * `steps` in turn, as decoding and encoding again would.
+   */
+  function quantizedJpeg(steps: number[]): JpegImage {
+    const jpeg = randomJpeg(256, 256, true);
+    const prng = new SeededPRNG(new Uint8Array([steps.length]));
+    const { coefficients } = jpeg.components[0];
+    for (let k = 0; k < coefficients.length; k++) {
+      // Laplacian with a spread of 20
+      const magnitude = -20 * Math.log(1 - prng.next());
+      let value = prng.next() < 0.5 ? -magnitude : magnitude;
+      for (const step of steps) {
+        value = Math.round(value / step) * step;
+      }
+      coefficients[k] = value / steps[steps.length - 1];
+    }
+    return jpeg;
+  }
+
+  it('should read the tables of the luminance and chrominance', () => {
+    const jpeg = randomJpeg(37, 21);
+    const quantization = readQuantization(writeJpeg(jpeg))!;
+
+    expect(quantization.luminance).toEqual(jpeg.quantTables[0]);
+    expect(quantization.chrominance).toEqual(jpeg.quantTables[1]);
+    expect(readQuantization(Uint8Array.of(0x89, 0x50, 0x4e, 0x47))).toBeNull();
+  });
+
+  it('should estimate the quality of standard tables', () => {
+    for (const quality of [0.1, 0.5, 0.75, 0.92, 1]) {
+      const luminance = standardQuantTable(quality);
+      const chrominance = standardQuantTable(quality, true);
+
+      expect(estimateJpegQuality({ luminance, chrominance })).toBe(quality);
+      expect(estimateJpegQuality({ luminance })).toBe(quality);
+    }
+  });
+
+  it('should tell coefficients quantized twice from once', () => {
+    expect(isDoubleQuantized(quantizedJpeg([4]))).toBe(false);
+    expect(isDoubleQuantized(quantizedJpeg([7, 4]))).toBe(true);
+  });
+
+  it('should miss coefficients requantized with a coarser table', () => {
+    // Steps of the first AC coefficients at quality 0.92, then at 0.5
+    expect(isDoubleQuantized(quantizedJpeg([2, 11]))).toBe(false);
+    expect(isDoubleQuantized(quantizedJpeg([3, 16]))).toBe(false);
+  });
+});
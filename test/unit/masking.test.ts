@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { dct2d } from '../../src/core/dct';
+import { coefficientSlack, coefficientStrength } from '../../src/core/masking';
+import { EMBEDDING_STRENGTH } from '../../src/core/constants';
+
+const COEFF = 1 * 8 + 2;
+
+function flatBlock(value: number): Float32Array {
+  return dct2d(new Float32Array(64).fill(value));
+}
+
+function texturedBlock(): Float32Array {
+  return dct2d(Float32Array.from({ length: 64 }, (_, i) => 128 + ((i * 37) % 29) * 3 - 40));
+}
+
+describe('perceptual masking', () => {
+  it('should use the fixed strength without masking', () => {
+    expect(coefficientStrength(texturedBlock(), COEFF, 1024, 1, false)).toBe(EMBEDDING_STRENGTH);
+    expect(coefficientStrength(flatBlock(250), COEFF, 1024, 1.5, false)).toBe(
+      EMBEDDING_STRENGTH * 1.5
+    );
+  });
+
+  it('should give a flat mid-grey block half the strength', () => {
+    const strength = coefficientStrength(flatBlock(128), COEFF, 1024, 1, true);
+    expect(strength).toBeCloseTo(EMBEDDING_STRENGTH / 2, 5);
+  });
+
+  it('should allow more change where content masks it', () => {
+    const flat = coefficientStrength(flatBlock(128), COEFF, 1024, 1, true);
+    const textured = coefficientStrength(texturedBlock(), COEFF, 1024, 1, true);
+    expect(textured).toBeGreaterThan(flat);
+    expect(textured).toBeLessThanOrEqual(EMBEDDING_STRENGTH * 2.5);
+  });
+
+  it('should raise the slack of brighter blocks', () => {
+    expect(coefficientSlack(flatBlock(220), COEFF, 1024)).toBeGreaterThan(
+      coefficientSlack(flatBlock(60), COEFF, 1024)
+    );
+  });
+});
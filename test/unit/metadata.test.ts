@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  filterJpegSegments,
+  readInputMetadata,
+  readMetadata,
+  writeMetadata,
+  type ImageMetadata,
+} from '../../src/io/metadata';
+import { orientationExif, readTiffOrientation } from '../../src/io/exif';
+
+const bytes = (text: string) => Array.from(text, (c) => c.charCodeAt(0));
+
+function segment(marker: number, body: number[]): number[] {
+  return [0xff, marker, (body.length + 2) >> 8, (body.length + 2) & 0xff, ...body];
+}
+
+/** A JPEG of metadata segments followed by a stand-in for its scan */
+function jpeg(...segments: number[][]): Uint8Array {
+  return new Uint8Array([0xff, 0xd8, ...segments.flat(), 0xff, 0xda, 0, 2, 1, 2, 3, 0xff, 0xd9]);
+}
+
+/** The JFIF segment a canvas encoder writes: no resolution */
+const encoderJfif = segment(0xe0, [...bytes('JFIF\0'), 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+
+/** A PNG with only a header, and empty image data */
+const png = new Uint8Array([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+  0, 0, 0, 13, ...bytes('IHDR'), 0, 0, 0, 8, 0, 0, 0, 8, 8, 6, 0, 0, 0, 0x6d, 0x88, 0xe7, 0x4e,
+  0, 0, 0, 0, ...bytes('IDAT'), 0x35, 0xaf, 0x06, 0x1e,
+  0, 0, 0, 0, ...bytes('IEND'), 0xae, 0x42, 0x60, 0x82,
+]);
+
+/** A simple lossless WebP of 8x8 pixels with alpha */
+const webp = new Uint8Array([
+  ...bytes('RIFF'), 18, 0, 0, 0, ...bytes('WEBP'),
+  ...bytes('VP8L'), 5, 0, 0, 0, 0x2f, 0x07, 0xc0, 0x01, 0x10, 0,
+]);
+
+const metadata: ImageMetadata = {
+  exif: new Uint8Array(orientationExif(1)),
+  xmp: Uint8Array.from(bytes('<x:xmpmeta xmlns:x="adobe:ns:meta/"/>')),
+  // Larger than a JPEG segment, so split over several
+  icc: Uint8Array.from({ length: 70000 }, (_, i) => (i * 31) % 251),
+  iptc: Uint8Array.of(0x38, 0x42, 0x49, 0x4d, 4, 4),
+  resolution: { x: 300, y: 300, unit: 'inch' },
+  text: [{ keyword: 'Comment', text: 'Scanned at the front desk' }],
+};
+
+describe('image metadata', () => {
+  it('should carry every kind from one JPEG to another', async () => {
+    const written = await writeMetadata(jpeg(encoderJfif), metadata);
+
+    expect(await readMetadata(written)).toEqual(metadata);
+    // Still a JPEG with its scan intact, JFIF first
+    expect(Array.from(written.subarray(2, 4))).toEqual([0xff, 0xe0]);
+    expect(Array.from(written.subarray(-9))).toEqual([0xff, 0xda, 0, 2, 1, 2, 3, 0xff, 0xd9]);
+  });
+
+  it('should move what a PNG has room for into its chunks', async () => {
+    const written = await writeMetadata(png, metadata);
+    const read = await readMetadata(written);
+
+    expect(read.exif).toEqual(metadata.exif);
+    expect(read.xmp).toEqual(metadata.xmp);
+    expect(read.icc).toEqual(metadata.icc);
+    expect(read.iptc).toBeUndefined();
+    // 300 dots per inch in dots per metre
+    expect(read.resolution).toEqual({ x: 11811, y: 11811, unit: 'metre' });
+    expect(read.text).toEqual(metadata.text);
+  });
+
+  it('should turn a simple WebP into an extended one', async () => {
+    const written = await writeMetadata(webp, metadata);
+    const read = await readMetadata(written);
+
+    expect(read.exif).toEqual(metadata.exif);
+    expect(read.xmp).toEqual(metadata.xmp);
+    expect(read.icc).toEqual(metadata.icc);
+    // VP8X: ICC, alpha, EXIF and XMP flags, and an 8x8 canvas
+    expect(Array.from(written.subarray(12, 30))).toEqual([
+      ...bytes('VP8X'), 10, 0, 0, 0, 0x3c, 0, 0, 0, 7, 0, 0, 7, 0, 0,
+    ]);
+    expect(new DataView(written.buffer).getUint32(4, true)).toBe(written.length - 8);
+  });
+
+  it('should set the orientation of an input upright', async () => {
+    const exif = orientationExif(6);
+    const input = jpeg(segment(0xe1, [...bytes('Exif\0\0'), ...exif]));
+
+    const { exif: read } = await readInputMetadata(input);
+
+    expect(readTiffOrientation(read!)).toBe(1);
+  });
+
+  it('should keep only the stored segments of the kinds asked for', () => {
+    const adobe = segment(0xee, [...bytes('Adobe'), 0, 100, 0, 0, 0, 0, 1]);
+    const exif = segment(0xe1, [...bytes('Exif\0\0'), ...orientationExif(6)]);
+    const comment = segment(0xfe, bytes('hello'));
+    const jfif = segment(0xe0, [...bytes('JFIF\0'), 1, 2, 1, 1, 44, 1, 44, 0, 0]);
+    const segments = [jfif, adobe, exif, comment].map((s) => new Uint8Array(s));
+
+    expect(filterJpegSegments(segments, ['exif', 'resolution'])).toEqual(
+      [jfif, adobe, exif].map((s) => new Uint8Array(s))
+    );
+    // Stripped, the EXIF segment keeps the image upright, and JFIF stays
+    // without a resolution
+    expect(filterJpegSegments(segments, []).map((s) => Array.from(s))).toEqual([
+      encoderJfif.map((byte, i) => (i === 10 ? 2 : byte)),
+      adobe,
+      exif,
+    ]);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { generatorRows, osdDecode } from '../../src/core/osd';
+import { bchEncode } from '../../src/core/bch';
+
+function randomBits(length: number, seed: number): Uint8Array {
+  let state = seed;
+  return Uint8Array.from({ length }, () => {
+    state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+    return state >>> 31;
+  });
+}
+
+describe('ordered statistics decoding', () => {
+  const encode = (bits: Uint8Array) => bchEncode(bits, 20);
+  const rows = generatorRows(80, encode);
+  const data = randomBits(80, 5);
+  const codeword = encode(data);
+
+  it('should build systematic generator rows', () => {
+    expect(rows.length).toBe(80);
+    expect(rows[3][3]).toBe(1);
+    expect(rows[3].subarray(0, 80).reduce((a, b) => a + b, 0)).toBe(1);
+  });
+
+  it('should recover a word with many near-erasures', () => {
+    // 90 of 220 bits carry almost no information, more than twice the
+    // erasures an algebraic decoder could fill
+    const llrs = Float32Array.from(codeword, (b, i) =>
+      i % 5 < 2 ? (i % 3 === 0 ? 0.1 : -0.1) : b ? 5 : -5
+    );
+
+    const result = osdDecode(llrs, rows);
+    expect(result).not.toBeNull();
+    expect(Array.from(result!.codeword)).toEqual(Array.from(codeword));
+  });
+
+  it('should reject noise', () => {
+    const noise = Float32Array.from(randomBits(220, 11), (b) => (b ? 5 : -5));
+    expect(osdDecode(noise, rows)).toBeNull();
+  });
+
+  it('should reject words with too few reliable bits to check', () => {
+    const llrs = Float32Array.from(codeword, (b, i) => (i < 90 ? (b ? 5 : -5) : 0));
+    expect(osdDecode(llrs, rows)).toBeNull();
+  });
+});
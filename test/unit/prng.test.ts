@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { SeededPRNG } from '../../src/core/prng';
+import { SeededPRNG, LegacySeededPRNG } from '../../src/core/prng';
 
 describe('SeededPRNG', () => {
   it('should be deterministic with same seed', () => {
@@ -54,3 +54,26 @@ describe('SeededPRNG', () => {
     }
   });
 });
+
+describe('SeededPRNG period', () => {
+  it('should not repeat after a few hundred outputs', () => {
+    const prng = new SeededPRNG(new Uint8Array([9, 8, 7, 6, 5, 4, 3, 2, 1]));
+    const first = Array.from({ length: 8 }, () => prng.next());
+    for (let i = 0; i < 10000; i++) {
+      prng.next();
+    }
+    const later = Array.from({ length: 8 }, () => prng.next());
+
+    expect(later).not.toEqual(first);
+  });
+});
+
+describe('LegacySeededPRNG', () => {
+  it('should reproduce the original sequence', () => {
+    const prng = new LegacySeededPRNG(new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8]));
+    const values = Array.from({ length: 3 }, () => prng.nextInt(1000));
+
+    // Regression guard: legacy marks can only be read with this exact sequence
+    expect(values).toEqual([0, 0, 146]);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assertQimStep,
+  latticeMargin,
+  latticeReading,
+  qimDithers,
+  quantizeToLattice,
+} from '../../src/core/qim';
+
+const seed = new Uint8Array([1, 2, 3, 4]);
+
+describe('QIM', () => {
+  it('should move a coefficient at most half a step', () => {
+    for (const value of [-97.3, -4, 0, 3.9, 12.5, 250]) {
+      for (const bit of [0, 1]) {
+        const quantized = quantizeToLattice(value, bit, 24, 5);
+        expect(Math.abs(quantized - value)).toBeLessThanOrEqual(12);
+      }
+    }
+  });
+
+  it('should read back the bit a coefficient was quantized for', () => {
+    for (const value of [-40, -3, 0, 17, 63]) {
+      expect(latticeReading(quantizeToLattice(value, 1, 16, 3), 16, 3)).toBeCloseTo(1, 6);
+      expect(latticeReading(quantizeToLattice(value, 0, 16, 3), 16, 3)).toBeCloseTo(-1, 6);
+    }
+  });
+
+  it('should survive changes below a quarter step', () => {
+    const quantized = quantizeToLattice(31, 1, 24, 7);
+
+    expect(latticeReading(quantized + 5.9, 24, 7)).toBeGreaterThan(0);
+    expect(latticeReading(quantized - 5.9, 24, 7)).toBeGreaterThan(0);
+    expect(latticeReading(quantized + 6.1, 24, 7)).toBeLessThan(0);
+  });
+
+  it('should measure the margin to the decision boundary', () => {
+    const quantized = quantizeToLattice(10, 0, 24, 2);
+
+    expect(latticeMargin(quantized, 0, 24, 2)).toBeCloseTo(6, 6);
+    expect(latticeMargin(quantized + 2, 0, 24, 2)).toBeCloseTo(4, 6);
+    expect(latticeMargin(quantized, 1, 24, 2)).toBeCloseTo(-6, 6);
+  });
+
+  it('should draw deterministic dithers within the step', () => {
+    const dithers = qimDithers(seed, 100, 24);
+
+    expect(dithers).toEqual(qimDithers(seed, 100, 24));
+    expect(dithers).not.toEqual(qimDithers(new Uint8Array([9]), 100, 24));
+    expect(dithers.every((dither) => dither >= 0 && dither < 24)).toBe(true);
+  });
+
+  it('should accept only recordable steps', () => {
+    expect(() => assertQimStep(24)).not.toThrow();
+    expect(() => assertQimStep(64)).not.toThrow();
+    expect(() => assertQimStep(0)).toThrow('qimStep');
+    expect(() => assertQimStep(10)).toThrow('qimStep');
+    expect(() => assertQimStep(68)).toThrow('qimStep');
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  hasQuantizationFootprint,
+  measureBlockContent,
+  measureQuality,
+  type PixelBuffer,
+} from '../../src/utils/quality';
+import { idct2d } from '../../src/core/dct';
+
+function image(width: number, height: number, pixel: (i: number) => number): PixelBuffer {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    data.fill(pixel(i), i * 4, i * 4 + 3);
+    data[i * 4 + 3] = 255;
+  }
+  return { data, width, height };
+}
+
+describe('measureQuality', () => {
+  const source = image(32, 32, (i) => (i * 7) % 200);
+
+  it('should report a perfect score for identical images', () => {
+    const metrics = measureQuality(source, source);
+
+    expect(metrics.psnr).toBe(Infinity);
+    expect(metrics.ssim).toBeCloseTo(1, 10);
+    expect(metrics.maxLuminanceDelta).toBe(0);
+  });
+
+  it('should compute PSNR from the mean squared error', () => {
+    // Every channel off by 4 levels: MSE 16
+    const shifted = image(32, 32, (i) => ((i * 7) % 200) + 4);
+    const metrics = measureQuality(source, shifted);
+
+    expect(metrics.psnr).toBeCloseTo(10 * Math.log10((255 * 255) / 16), 6);
+    expect(metrics.maxLuminanceDelta).toBeCloseTo(4, 3);
+  });
+
+  it('should score structural damage below a brightness shift', () => {
+    const shifted = image(32, 32, (i) => ((i * 7) % 200) + 4);
+    const scrambled = image(32, 32, (i) => ((i * 13) % 200));
+
+    const shift = measureQuality(source, shifted).ssim;
+    const scramble = measureQuality(source, scrambled).ssim;
+
+    expect(shift).toBeGreaterThan(0.95);
+    expect(scramble).toBeLessThan(shift);
+  });
+
+  it('should reject images of different sizes', () => {
+    expect(() => measureQuality(source, image(16, 32, () => 0))).toThrow('Cannot compare');
+  });
+});
+
+describe('measureBlockContent', () => {
+  it('should count only whole blocks', () => {
+    expect(measureBlockContent(image(20, 17, () => 128)).blocks).toBe(4);
+  });
+
+  it('should tell flat blocks from textured ones', () => {
+    // Left half flat, right half alternating by 40 levels
+    const content = measureBlockContent(
+      image(16, 8, (i) => (i % 16 < 8 ? 100 : 100 + (i % 2) * 40))
+    );
+
+    expect(content.flatBlocks).toBe(1);
+    expect(content.saturatedBlocks).toBe(0);
+  });
+
+  it('should count blocks clipped to white or black as saturated', () => {
+    const content = measureBlockContent(
+      image(24, 8, (i) => [255, 0, 128][Math.floor((i % 24) / 8)])
+    );
+
+    expect(content.saturatedBlocks).toBe(2);
+    expect(content.flatBlocks).toBe(3);
+  });
+});
+
+describe('hasQuantizationFootprint', () => {
+  /**
+   * Gray 8x8 blocks of pseudo-random frequencies, each a multiple of `step`
+   * when given, as a JPEG decoder would produce them.
+   */
+  function blocks(step?: number): PixelBuffer {
+    const size = 128;
+    const samples = new Float32Array(size * size);
+    let seed = 12345;
+    const random = () => ((seed = (Math.imul(seed, 1103515245) + 12345) >>> 0) / 2 ** 32);
+    for (let by = 0; by < size / 8; by++) {
+      for (let bx = 0; bx < size / 8; bx++) {
+        const coefficients = Float32Array.from({ length: 64 }, (_, k) => {
+          const value = k === 0 ? 0 : (random() - 0.5) * 120;
+          return step ? Math.round(value / step) * step : value;
+        });
+        const block = idct2d(coefficients);
+        for (let k = 0; k < 64; k++) {
+          samples[(by * 8 + (k >> 3)) * size + bx * 8 + (k & 7)] = block[k];
+        }
+      }
+    }
+    return image(size, size, (i) => Math.round(128 + samples[i]));
+  }
+
+  it('should find the quantization of a decoded JPEG', () => {
+    expect(hasQuantizationFootprint(blocks(12))).toBe(true);
+  });
+
+  it('should find none in an image never quantized', () => {
+    expect(hasQuantizationFootprint(blocks())).toBe(false);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { rsEncode, rsDecode } from '../../src/core/reed-solomon';
+
+describe('Reed-Solomon', () => {
+  const data = new TextEncoder().encode('watermark!');
+
+  it('should encode systematically', () => {
+    const codeword = rsEncode(data, 20);
+    expect(codeword.length).toBe(30);
+    expect(Array.from(codeword.subarray(0, 10))).toEqual(Array.from(data));
+  });
+
+  it('should correct up to nsym/2 symbol errors', () => {
+    const codeword = rsEncode(data, 20);
+    for (let i = 0; i < 10; i++) {
+      codeword[i * 3] ^= 0xa5;
+    }
+
+    const result = rsDecode(codeword, 20);
+    expect(result.ok).toBe(true);
+    expect(result.correctedErrors).toBe(10);
+    expect(Array.from(result.data)).toEqual(Array.from(data));
+  });
+
+  it('should combine errors and erasures', () => {
+    const codeword = rsEncode(data, 20);
+    const erasures = [1, 4, 7, 10, 13, 16, 19, 22, 25, 28];
+    for (const pos of erasures) {
+      codeword[pos] = 0;
+    }
+    codeword[0] ^= 1;
+    codeword[29] ^= 0xff;
+
+    const result = rsDecode(codeword, 20, erasures);
+    expect(result.ok).toBe(true);
+    expect(result.correctedErrors).toBe(2);
+    expect(Array.from(result.data)).toEqual(Array.from(data));
+  });
+
+  it('should detect uncorrectable codewords', () => {
+    const codeword = rsEncode(data, 4);
+    codeword[0] ^= 1;
+    codeword[3] ^= 2;
+    codeword[6] ^= 3;
+
+    expect(rsDecode(codeword, 4).ok).toBe(false);
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { binomialTail, logBinomialTail } from '../../src/utils/statistics';
+
+describe('binomial tail', () => {
+  it('should match exact values for small trials', () => {
+    // P(X >= 8), X ~ Bin(10, 1/2) = (45 + 10 + 1) / 1024
+    expect(binomialTail(10, 8)).toBeCloseTo(56 / 1024, 12);
+    expect(binomialTail(10, 10)).toBeCloseTo(1 / 1024, 12);
+    expect(binomialTail(1, 1)).toBeCloseTo(0.5, 12);
+  });
+
+  it('should handle the edges of the range', () => {
+    expect(binomialTail(10, 0)).toBe(1);
+    expect(binomialTail(0, 0)).toBe(1);
+    expect(binomialTail(10, 11)).toBe(0);
+  });
+
+  it('should be symmetric around half the trials', () => {
+    // P(X >= 51) + P(X >= 50) = 1 for 100 trials, by symmetry
+    expect(binomialTail(100, 51) + binomialTail(100, 50)).toBeCloseTo(1, 10);
+  });
+
+  it('should stay finite in log space far below double precision', () => {
+    const log = logBinomialTail(2000, 2000);
+    expect(log).toBeCloseTo(-2000 * Math.LN2, 6);
+    expect(binomialTail(2000, 2000)).toBe(0);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { SeededPRNG } from '../../src/core/prng';
+import { addTemplate, estimateTransform, resampleLuminance } from '../../src/core/template';
+
+/**
+ * Mid-grey luminance with mild noise, standing in for image content.
+ */
+function noisePlane(width: number, height: number, seed: number): Float32Array {
+  const prng = new SeededPRNG(new Uint8Array([seed, 1, 2, 3]));
+  return Float32Array.from({ length: width * height }, () => 128 + (prng.next() - 0.5) * 40);
+}
+
+/**
+ * Bilinear resize of a plane by `scale` and clockwise rotation by
+ * `rotation` degrees about its centre, keeping the canvas when rotating.
+ */
+function warpPlane(y: Float32Array, size: number, scale: number, rotation: number) {
+  const out = rotation === 0 ? Math.round(size * scale) : size;
+  const cosR = Math.cos((rotation * Math.PI) / 180);
+  const sinR = Math.sin((rotation * Math.PI) / 180);
+  const warped = new Float32Array(out * out).fill(128);
+  for (let row = 0; row < out; row++) {
+    for (let x = 0; x < out; x++) {
+      const dx = (x + 0.5 - out / 2) / scale;
+      const dy = (row + 0.5 - out / 2) / scale;
+      const srcX = size / 2 + dx * cosR + dy * sinR - 0.5;
+      const srcY = size / 2 - dx * sinR + dy * cosR - 0.5;
+      const x0 = Math.floor(srcX);
+      const y0 = Math.floor(srcY);
+      if (x0 < 0 || y0 < 0 || x0 + 1 >= size || y0 + 1 >= size) continue;
+      const tx = srcX - x0;
+      const ty = srcY - y0;
+      const i = y0 * size + x0;
+      warped[row * out + x] =
+        y[i] * (1 - tx) * (1 - ty) +
+        y[i + 1] * tx * (1 - ty) +
+        y[i + size] * (1 - tx) * ty +
+        y[i + size + 1] * tx * ty;
+    }
+  }
+  return { y: warped, size: out };
+}
+
+function templatePlane(size: number): Float32Array {
+  const y = noisePlane(size, size, 7);
+  addTemplate(y, size, size);
+  return y;
+}
+
+describe('synchronization template', () => {
+  it('should measure a resize', () => {
+    const warped = warpPlane(templatePlane(384), 384, 0.75, 0);
+    const transform = estimateTransform(warped.y, warped.size, warped.size);
+
+    expect(transform).not.toBeNull();
+    expect(transform!.scale).toBeCloseTo(0.75, 2);
+    expect(transform!.rotation).toBe(0);
+  });
+
+  it('should measure a rotation', () => {
+    const warped = warpPlane(templatePlane(320), 320, 1.1, 10);
+    const transform = estimateTransform(warped.y, warped.size, warped.size);
+
+    expect(transform).not.toBeNull();
+    expect(transform!.scale).toBeCloseTo(1.1, 2);
+    expect(Math.abs(transform!.rotation - 10)).toBeLessThan(0.3);
+  });
+
+  it('should report nothing for an untouched image', () => {
+    expect(estimateTransform(templatePlane(256), 256, 256)).toBeNull();
+  });
+
+  it('should report nothing for an image without the template', () => {
+    for (let seed = 0; seed < 3; seed++) {
+      expect(estimateTransform(noisePlane(300, 260, seed), 300, 260)).toBeNull();
+    }
+  });
+
+  it('should resample a resized plane back to its original size', () => {
+    const original = templatePlane(256);
+    const warped = warpPlane(original, 256, 0.6, 0);
+    const restored = resampleLuminance(warped.y, warped.size, warped.size, {
+      scale: warped.size / 256,
+      rotation: 0,
+    });
+
+    expect(restored.width).toBe(256);
+    expect(restored.height).toBe(256);
+    // Away from the borders the content lines up with the original
+    let error = 0;
+    for (let row = 64; row < 192; row++) {
+      for (let x = 64; x < 192; x++) {
+        error += Math.abs(restored.y[row * 256 + x] - original[row * 256 + x]);
+      }
+    }
+    expect(error / (128 * 128)).toBeLessThan(12);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isTiff,
+  readInputTiff,
+  readTiff,
+  writeTiff,
+  type TiffCompression,
+} from '../../src/io/tiff';
+
+/** Pixels of a smooth gradient with noise, gray or coloured, opaque or not */
+function pixels(width: number, height: number, kind: 'gray' | 'graya' | 'rgb' | 'rgba') {
+  const data = new Uint8ClampedArray(width * height * 4);
+  let seed = 1;
+  for (let i = 0; i < width * height; i++) {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    const value = Math.round(128 + 100 * Math.sin(i / 17)) + (seed & 15);
+    data.set(
+      kind === 'gray' || kind === 'graya'
+        ? [value, value, value, kind === 'graya' ? seed & 255 : 255]
+        : [value, (i * 7) & 255, seed & 255, kind === 'rgba' ? i & 255 : 255],
+      i * 4
+    );
+  }
+  return { data, width, height };
+}
+
+/**
+ * A big-endian TIFF of one 4x2 page of 4-bit palette indices, uncompressed,
+ * as scanners write them.
+ */
+function paletteTiff(compression = 1): Uint8Array {
+  const entries: Array<[number, number, number, number]> = [
+    // Tag, type, count, value or offset
+    [256, 3, 1, 4],
+    [257, 3, 1, 2],
+    [258, 3, 1, 4],
+    [259, 3, 1, compression],
+    [262, 3, 1, 3],
+    [273, 4, 1, 8],
+    [277, 3, 1, 1],
+    [279, 4, 1, 4],
+    [320, 3, 48, 12 + 2 + 9 * 12 + 4],
+  ];
+  const bytes = new Uint8Array(12 + 2 + entries.length * 12 + 4 + 96);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x4d, 0x4d, 0, 42, 0, 0, 0, 12]);
+  // Indices 0-7, two to a byte
+  bytes.set([0x01, 0x23, 0x45, 0x67], 8);
+  view.setUint16(12, entries.length);
+  entries.forEach(([tag, type, count, value], i) => {
+    const at = 14 + i * 12;
+    view.setUint16(at, tag);
+    view.setUint16(at + 2, type);
+    view.setUint32(at + 4, count);
+    if (type === 3 && count === 1) {
+      view.setUint16(at + 8, value);
+    } else {
+      view.setUint32(at + 8, value);
+    }
+  });
+  // Red of entry i is i * 0x1000, green 0xffff, blue 0
+  for (let i = 0; i < 16; i++) {
+    view.setUint16(entries[8][3] + i * 2, i * 0x1000);
+    view.setUint16(entries[8][3] + 32 + i * 2, 0xffff);
+  }
+  return bytes;
+}
+
+describe('TIFF codec', () => {
+  const compressions: TiffCompression[] = ['none', 'lzw', 'deflate', 'packbits'];
+
+  for (const compression of compressions) {
+    it(`should read back what it writes with ${compression} compression`, async () => {
+      for (const kind of ['gray', 'graya', 'rgb', 'rgba'] as const) {
+        const page = pixels(203, 157, kind);
+        const [read] = await readTiff(await writeTiff([{ ...page, compression }]));
+
+        expect(read.width).toBe(page.width);
+        expect(read.height).toBe(page.height);
+        expect(read.compression).toBe(compression);
+        expect(read.data).toEqual(page.data);
+      }
+    });
+  }
+
+  it('should keep pages in order with their own compression and resolution', async () => {
+    const first = { ...pixels(40, 30, 'rgb'), compression: 'lzw' as const };
+    const second = {
+      ...pixels(20, 50, 'gray'),
+      compression: 'packbits' as const,
+      resolution: { x: 118.11, y: 118.11, unit: 'cm' as const },
+    };
+
+    const bytes = await writeTiff([first, second]);
+    const pages = await readTiff(bytes);
+
+    expect(isTiff(bytes)).toBe(true);
+    expect(pages.map(({ width, height }) => [width, height])).toEqual([[40, 30], [20, 50]]);
+    expect(pages.map((page) => page.compression)).toEqual(['lzw', 'packbits']);
+    // Pages without one get the baseline 72 dpi
+    expect(pages[0].resolution).toEqual({ x: 72, y: 72, unit: 'inch' });
+    expect(pages[1].resolution).toEqual(second.resolution);
+    expect(pages[1].data).toEqual(second.data);
+  });
+
+  it('should read big-endian palette images', async () => {
+    const [page] = await readTiff(paletteTiff());
+
+    expect(page.compression).toBe('none');
+    expect(Array.from(page.data.subarray(0, 8))).toEqual([0, 255, 0, 255, 16, 255, 0, 255]);
+    expect(Array.from(page.data.subarray(28))).toEqual([112, 255, 0, 255]);
+  });
+
+  it('should read every page of a TIFF input and nothing else', async () => {
+    const page = { ...pixels(16, 16, 'rgb'), compression: 'none' as const };
+    const bytes = await writeTiff([page, page, page]);
+
+    expect(await readInputTiff(bytes.buffer)).toHaveLength(3);
+    expect(await readInputTiff(new Uint8Array(64))).toBeUndefined();
+  });
+
+  it('should write gray pages with alpha as two samples and read them back', async () => {
+    const page = { ...pixels(31, 9, 'graya'), compression: 'none' as const };
+    const bytes = await writeTiff([page]);
+    const view = new DataView(bytes.buffer);
+    const ifd = view.getUint32(4, true);
+    const entry = (tag: number) =>
+      Array.from({ length: view.getUint16(ifd, true) }, (_, i) => ifd + 2 + i * 12).find(
+        (at) => view.getUint16(at, true) === tag
+      )!;
+
+    // SamplesPerPixel 2, BlackIsZero, and an unassociated alpha sample
+    expect(view.getUint16(entry(277) + 8, true)).toBe(2);
+    expect(view.getUint16(entry(262) + 8, true)).toBe(1);
+    expect(view.getUint16(entry(338) + 8, true)).toBe(2);
+    expect((await readTiff(bytes))[0].data).toEqual(page.data);
+  });
+
+  it('should name the compressions it does not decode', async () => {
+    await expect(readTiff(paletteTiff(4))).rejects.toThrow(
+      'Unsupported TIFF compression: CCITT Group 4 fax (4)'
+    );
+  });
+
+  it('should reject data that is not a TIFF', async () => {
+    await expect(readTiff(new Uint8Array(16))).rejects.toThrow('Not a TIFF image');
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { idct2d } from '../../src/core/dct';
+import { locateTiles, planTile, repeatTile, SYNC_COEFF } from '../../src/core/tiling';
+import { BLOCK_SIZE, TILE_BLOCKS } from '../../src/core/constants';
+
+const headerSeed = new Uint8Array([9, 8, 7, 6, 5, 4, 3, 2]);
+
+/**
+ * Luminance of a `tiles` x `tiles` grid carrying only the sync pattern,
+ * cropped at pixel (`cropX`, `cropY`).
+ */
+function syncPlane(tiles: number, cropX: number, cropY: number) {
+  const plan = planTile(headerSeed, 30);
+  const side = tiles * TILE_BLOCKS;
+  const fullWidth = side * BLOCK_SIZE;
+  const full = new Float32Array(fullWidth * fullWidth).fill(128);
+
+  const signs = new Map<number, number>();
+  plan.syncSlots.forEach(([{ blockIdx }], i) => signs.set(blockIdx, plan.syncBits[i] ? 1 : -1));
+  for (let by = 0; by < side; by++) {
+    for (let bx = 0; bx < side; bx++) {
+      const sign = signs.get((by % TILE_BLOCKS) * TILE_BLOCKS + (bx % TILE_BLOCKS));
+      if (!sign) continue;
+      const coeffs = new Float32Array(64);
+      coeffs[SYNC_COEFF[0] * BLOCK_SIZE + SYNC_COEFF[1]] = 12 * sign;
+      const pixels = idct2d(coeffs);
+      for (let i = 0; i < BLOCK_SIZE; i++) {
+        for (let j = 0; j < BLOCK_SIZE; j++) {
+          full[(by * BLOCK_SIZE + i) * fullWidth + bx * BLOCK_SIZE + j] += pixels[i * 8 + j];
+        }
+      }
+    }
+  }
+
+  const width = fullWidth - cropX;
+  const height = fullWidth - cropY;
+  const y = new Float32Array(width * height);
+  for (let row = 0; row < height; row++) {
+    const start = (row + cropY) * fullWidth;
+    y.set(full.subarray(start + cropX, start + fullWidth), row * width);
+  }
+  return { y, width, height, plan };
+}
+
+describe('tiled layout', () => {
+  it('should split a tile into disjoint sync, header and body blocks', () => {
+    const plan = planTile(headerSeed, 30);
+    const sync = plan.syncSlots.map(([slot]) => slot.blockIdx);
+    const header = plan.headerSlots.flat().map((slot) => slot.blockIdx);
+    const used = new Set([...sync, ...plan.bodyBlocks]);
+
+    expect(used.size).toBe(sync.length + plan.bodyBlocks.length);
+    expect(header.every((blockIdx) => !used.has(blockIdx))).toBe(true);
+    expect(plan.syncBits).toHaveLength(sync.length);
+  });
+
+  it('should repeat tile-local slots in every tile of the grid', () => {
+    const slots = [[{ blockIdx: TILE_BLOCKS + 2, coeff: [1, 2] as [number, number] }]];
+    const blocksX = TILE_BLOCKS * 2;
+
+    const [copies] = repeatTile(slots, blocksX, TILE_BLOCKS * 2, { phaseX: 0, phaseY: 0 });
+    expect(copies.map((slot) => slot.blockIdx)).toEqual([
+      blocksX + 2,
+      blocksX + 2 + TILE_BLOCKS,
+      (TILE_BLOCKS + 1) * blocksX + 2,
+      (TILE_BLOCKS + 1) * blocksX + 2 + TILE_BLOCKS,
+    ]);
+  });
+
+  it('should shift copies by the tile phase and drop those off the grid', () => {
+    const slots = [[{ blockIdx: 0, coeff: [1, 2] as [number, number] }]];
+
+    const [copies] = repeatTile(slots, 10, 10, { phaseX: 3, phaseY: 0 });
+    expect(copies).toEqual([]);
+
+    const [shifted] = repeatTile(slots, TILE_BLOCKS, 1, { phaseX: 3, phaseY: 0 });
+    expect(shifted.map((slot) => slot.blockIdx)).toEqual([TILE_BLOCKS - 3]);
+  });
+
+  it('should find the grid offset and tile phase of a crop', () => {
+    const { y, width, height, plan } = syncPlane(2, 8 * 5 + 3, 8 * 17 + 6);
+
+    expect(locateTiles([{ y, width, height }], plan)).toEqual({
+      plane: 0,
+      alignment: { offsetX: 5, offsetY: 2, phaseX: 6, phaseY: 18 },
+    });
+  });
+
+  it('should find nothing in an image without the sync pattern', () => {
+    const width = 300;
+    const height = 260;
+    const y = new Float32Array(width * height);
+    let state = 12345;
+    for (let i = 0; i < y.length; i++) {
+      state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+      y[i] = 128 + 40 * (state / 2 ** 32 - 0.5);
+    }
+
+    expect(locateTiles([{ y, width, height }], planTile(headerSeed, 30))).toBeNull();
+  });
+});